@@ -39,6 +39,10 @@ Deno.bench('multi term', { group: 'search' }, () => {
 	idx.search('green plant');
 });
 
+Deno.bench('with limit', { group: 'search' }, () => {
+	idx.search('green plant', { limit: 1 });
+});
+
 Deno.bench('trailing wildcard', { group: 'search' }, () => {
 	idx.search('pl*');
 });
@@ -1,16 +1,58 @@
 import { Pipeline } from './Pipeline.ts';
 import { FieldRef } from './FieldRef.ts';
 import { Vector } from './Vector.ts';
-import { tokenizer } from './tokenizer.ts';
+import { Tokenizer, tokenizer } from './tokenizer.ts';
 import { inverseDocumentFrequency } from './inverseDocumentFrequency.ts';
 import { LunrIndex } from './LunrIndex.ts';
 import { TokenSet } from './TokenSet.ts';
+import { RangeFieldType, RangeIndex } from './RangeIndex.ts';
+import { Language } from './languages/Language.ts';
+import { findLanguage } from './language.ts';
+import {
+	bm25,
+	loadSimilarity,
+	SerializedSimilarity,
+	Similarity,
+	TermStatistics,
+} from './similarity.ts';
+import {
+	defaultEdgeNgrams,
+	edgeNgramField,
+	EdgeNgramOptions,
+	edgeNgrams,
+} from './edgeNgrams.ts';
 
 export interface LunrDocument {
 	// deno-lint-ignore no-explicit-any
 	[key: string]: any;
 }
 
+interface TermFrequencies {
+	idf: number;
+	documentFrequency: number;
+}
+
+export interface SerializedBuilder {
+	ref: string;
+	fields: {
+		[key: string]: { boost?: number; edgeNgrams?: EdgeNgramOptions };
+	};
+	storedFields?: string[];
+	facetFields?: string[];
+	documents: { [key: string]: { [key: string]: string | number } };
+	fieldTermFrequencies: { [key: string]: { [key: string]: number } };
+	fieldLengths: { [key: string]: number };
+	b: number;
+	k1: number;
+	similarity?: SerializedSimilarity;
+	metadataWhitelist: string[];
+	pipeline: string[];
+	languages?: {
+		field: string;
+		pipelines: { [code: string]: string[] };
+	};
+}
+
 /**
  * Builder performs indexing on a set of documents and
  * returns instances of LunrIndex ready for querying.
@@ -24,6 +66,7 @@ export interface LunrDocument {
  * @property {string} _ref - Internal reference to the document reference field.
  * @property {string[]} _fields - Internal reference to the document fields to index.
  * @property {object} invertedIndex - The inverted index maps terms to document fields.
+ * @property {object} edgeNgramIndex - The inverted index of the edge n-grams of the fields indexed with them, kept apart from the terms of the fields.
  * @property {object} documentTermFrequencies - Keeps track of document term frequencies.
  * @property {object} documentLengths - Keeps track of the length of documents added to the index.
  * @property {tokenizer} tokenizer - Function for splitting strings into tokens for indexing.
@@ -32,8 +75,14 @@ export interface LunrDocument {
  * @property {number} documentCount - Keeps track of the total number of documents indexed.
  * @property {number} _b - A parameter to control field length normalization, setting this to 0 disabled normalization, 1 fully normalizes field lengths, the default value is 0.75.
  * @property {number} _k1 - A parameter to control how quickly an increase in term frequency results in term frequency saturation, the default value is 1.2.
+ * @property {Similarity} [_similarity] - The similarity weighing terms in the field vectors, by default BM25 with the b and k1 parameters.
  * @property {number} termIndex - A counter incremented for each unique term, used to identify a terms position in the vector space.
  * @property {array} metadataWhitelist - A list of metadata keys that have been whitelisted for entry in the index.
+ * @property {object} documentStore - The raw values of the stored fields of every document.
+ * @property {object} rangeIndexes - The sorted values of every typed field.
+ * @property {object} facetIndex - The values of every facet field, by field and document ref.
+ * @property {object} languagePipelines - The pipelines documents are processed with, by language, see Builder#languages.
+ * @property {object} languageSearchPipelines - The pipelines search terms are processed with, by language.
  */
 export class Builder {
 	_ref = 'id';
@@ -41,19 +90,49 @@ export class Builder {
 		[key: string]: {
 			extractor?: (doc: LunrDocument) => number;
 			boost?: number;
+			edgeNgrams?: { min: number; max: number };
+			source?: string;
+		};
+	} = Object.create(null);
+	_storedFields: {
+		[key: string]: {
+			extractor?: (doc: LunrDocument) => unknown;
+		};
+	} = Object.create(null);
+	_documents: { [key: string]: LunrDocument } = Object.create(null);
+	documentStore: { [key: string]: LunrDocument } = Object.create(null);
+	_rangeFields: {
+		[key: string]: {
+			type: RangeFieldType;
+			extractor?: (doc: LunrDocument) => unknown;
+		};
+	} = Object.create(null);
+	rangeIndexes: { [key: string]: RangeIndex } = Object.create(null);
+	_facetFields: {
+		[key: string]: {
+			extractor?: (doc: LunrDocument) => unknown;
 		};
 	} = Object.create(null);
-	_documents: { [key: string]: LunrDocument } = {};
+	facetIndex: { [key: string]: { [key: string]: string[] } } = Object
+		.create(null);
 	readonly invertedIndex: LunrDocument = Object.create(null);
+	readonly edgeNgramIndex: LunrDocument = Object.create(null);
 	fieldTermFrequencies: { [key: string]: { [key: string]: number } } = Object
 		.create(null);
 	fieldLengths: { [key: string]: number } = {};
-	tokenizer = tokenizer;
+	tokenizer: Tokenizer = tokenizer;
 	pipeline = new Pipeline();
 	searchPipeline = new Pipeline();
+	_languageField = 'language';
+	_languageDetector?: (doc: LunrDocument) => string | undefined;
+	languagePipelines: { [code: string]: Pipeline } = Object.create(null);
+	languageSearchPipelines: { [code: string]: Pipeline } = Object.create(
+		null,
+	);
 	documentCount = 0;
 	_b = 0.75;
 	_k1 = 1.2;
+	_similarity?: Similarity;
 	termIndex = 0;
 	metadataWhitelist: string[] = [];
 	public tokenSet: TokenSet = new TokenSet();
@@ -88,20 +167,214 @@ export class Builder {
 	 * importance when ranking search results. Use a field boost to specify that matches within
 	 * one field are more important than other fields.
 	 *
+	 * Fields searched as the user types, e.g. in an autocomplete box, can also be
+	 * indexed as edge n-grams, every prefix of their terms. A search for a term with
+	 * a trailing wildcard, e.g. `pla*`, then finds the documents with terms starting
+	 * with `pla` with a single lookup, instead of looking up every term starting
+	 * with it. The n-grams are kept apart from the terms of the field, in an index
+	 * of their own that does not change the scores of other searches, and make the
+	 * index larger, see LunrIndex#stats.
+	 *
 	 * @param {string} fieldName - The name of a field to index in all documents.
 	 * @param {object} attributes - Optional attributes associated with this field.
 	 * @param {number} [attributes.boost=1] - Boost applied to all terms within this field.
 	 * @param {fieldExtractor} [attributes.extractor] - Function to extract a field from a document.
+	 * @param {boolean} [attributes.store=false] - Whether the raw value of the field is kept in the index and returned with results.
+	 * @param {string} [attributes.type] - Either 'number' or 'date' for a typed field, typed fields are not tokenized and are matched with range queries.
+	 * @param {boolean} [attributes.facet=false] - Whether the values of the field are counted for the results of a search, see Builder#facetField.
+	 * @param {EdgeNgramOptions} [attributes.edgeNgrams] - The lengths of the edge n-grams of the field, by default edge n-grams are not indexed.
+	 * @param {number} [attributes.edgeNgrams.min=1] - The length of the shortest n-grams.
+	 * @param {number} [attributes.edgeNgrams.max=15] - The length of the longest n-grams, longer prefixes are looked up in the terms of the field.
 	 * @throws {RangeError} fieldName cannot contain unsupported characters '/'
+	 * @example <caption>a title searched as the user types</caption>
+	 * builder.field('title', { edgeNgrams: { min: 2, max: 10 } })
 	 */
-	field(fieldName: string, attributes = {}) {
+	field(
+		fieldName: string,
+		attributes: {
+			boost?: number;
+			extractor?: (doc: LunrDocument) => number;
+			store?: boolean;
+			type?: RangeFieldType;
+			facet?: boolean;
+			edgeNgrams?: EdgeNgramOptions;
+		} = {},
+	) {
 		if (/\//.test(fieldName)) {
 			throw new RangeError(
 				'Field \'' + fieldName + '\' contains illegal character \'/\'',
 			);
 		}
 
-		this._fields[fieldName] = attributes || {};
+		if (attributes && attributes.type) {
+			this._rangeFields[fieldName] = {
+				type: attributes.type,
+				extractor: attributes.extractor,
+			};
+			this.rangeIndexes[fieldName] = new RangeIndex(attributes.type);
+		} else {
+			this._fields[fieldName] = {
+				boost: attributes && attributes.boost,
+				extractor: attributes && attributes.extractor,
+			};
+		}
+
+		if (attributes && attributes.edgeNgrams && !attributes.type) {
+			const edgeNgrams = {
+				min: attributes.edgeNgrams.min || defaultEdgeNgrams.min,
+				max: attributes.edgeNgrams.max || defaultEdgeNgrams.max,
+			};
+
+			this._fields[fieldName].edgeNgrams = edgeNgrams;
+			this._fields[edgeNgramField(fieldName)] = {
+				boost: attributes.boost,
+				extractor: attributes.extractor,
+				edgeNgrams: edgeNgrams,
+				source: fieldName,
+			};
+		}
+
+		if (attributes && attributes.store) {
+			this.storedField(fieldName, { extractor: attributes.extractor });
+		}
+
+		if (attributes && attributes.facet) {
+			this.facetField(fieldName, { extractor: attributes.extractor });
+		}
+	}
+
+	/**
+	 * Adds a field whose raw value is kept in the index, without being indexed. The
+	 * stored values of a document are returned with every result for that document,
+	 * so details needed to display results, e.g. a url, do not have to be looked up
+	 * elsewhere.
+	 *
+	 * Stored values are serialised with the index, keep them small.
+	 *
+	 * @param {string} fieldName - The name of a field to store for all documents.
+	 * @param {object} attributes - Optional attributes associated with this field.
+	 * @param {fieldExtractor} [attributes.extractor] - Function to extract a field from a document.
+	 * @see Builder#field
+	 */
+	storedField(
+		fieldName: string,
+		attributes: { extractor?: (doc: LunrDocument) => unknown } = {},
+	) {
+		this._storedFields[fieldName] = attributes || {};
+	}
+
+	/**
+	 * Adds a keyword field whose values are counted for the documents matching a
+	 * search, e.g. to show how many results there are for each language. Values
+	 * are not tokenized, every value of the field, or every element of an array
+	 * value, is counted as a whole.
+	 *
+	 * @param {string} fieldName - The name of a field to count values of.
+	 * @param {object} attributes - Optional attributes associated with this field.
+	 * @param {fieldExtractor} [attributes.extractor] - Function to extract a field from a document.
+	 * @see LunrIndex#search
+	 */
+	facetField(
+		fieldName: string,
+		attributes: { extractor?: (doc: LunrDocument) => unknown } = {},
+	) {
+		this._facetFields[fieldName] = attributes || {};
+
+		if (this.facetIndex[fieldName] === undefined) {
+			this.facetIndex[fieldName] = Object.create(null);
+		}
+	}
+
+	/**
+	 * Indexes documents in several languages, each document is processed with the
+	 * trimmer, stop word filter and stemmer of its own language instead of the
+	 * pipeline of the builder.
+	 *
+	 * The language of a document is the value of its language field, by default
+	 * `language`, e.g. `'de'` or `'de-AT'`. Documents without a language field, or
+	 * whose language is not one of the passed languages, are passed to the detector,
+	 * and when it does not recognise one of the languages either they are indexed
+	 * in the first language.
+	 *
+	 * Searches process their terms with the stemmers of all the languages, or of a
+	 * single language, see LunrIndex#search. The pipelines of every language can be
+	 * customised after calling this method, through Builder#languagePipelines and
+	 * Builder#languageSearchPipelines.
+	 *
+	 * Like the list of fields this should be set before any documents are added. The
+	 * detector is a function and is not serialised.
+	 *
+	 * @param {Array<Language|string>} languages - The languages of the documents, or their ISO 639-1 codes.
+	 * @param {object} attributes - Optional attributes for telling the language of documents.
+	 * @param {string} [attributes.field='language'] - The document field holding the language of the document.
+	 * @param {function} [attributes.detector] - Function returning the language code of a document without a language field.
+	 * @throws {Error} If a language code is not one of the supported languages.
+	 * @see languages
+	 * @example <caption>an index of english and german pages</caption>
+	 * builder.languages(['en', 'de'], { field: 'lang' })
+	 * builder.add({ id: 'a', lang: 'de', body: 'Die Häuser der Stadt' })
+	 */
+	languages(
+		languages: Array<Language | string>,
+		attributes: {
+			field?: string;
+			detector?: (doc: LunrDocument) => string | undefined;
+		} = {},
+	) {
+		this._languageField = attributes.field || 'language';
+		this._languageDetector = attributes.detector;
+		this.languagePipelines = Object.create(null);
+		this.languageSearchPipelines = Object.create(null);
+
+		for (const entry of languages) {
+			const language = findLanguage(entry),
+				pipeline = new Pipeline(),
+				searchPipeline = new Pipeline();
+
+			pipeline.add(
+				language.trimmer,
+				language.stopWordFilter,
+				language.stemmer,
+			);
+			searchPipeline.add(language.stemmer);
+
+			this.languagePipelines[language.code] = pipeline;
+			this.languageSearchPipelines[language.code] = searchPipeline;
+		}
+	}
+
+	/**
+	 * Tells the language a document is indexed in, see Builder#languages.
+	 *
+	 * @param {object} doc - The document to tell the language of.
+	 * @returns {string|undefined} - The code of the language, undefined when the builder is not set up with languages.
+	 */
+	documentLanguage(doc: LunrDocument): string | undefined {
+		const codes = Object.keys(this.languagePipelines),
+			candidates = [doc[this._languageField]];
+
+		if (codes.length == 0) {
+			return undefined;
+		}
+
+		if (this._languageDetector) {
+			candidates.push(this._languageDetector(doc));
+		}
+
+		for (const candidate of candidates) {
+			if (candidate == null) {
+				continue;
+			}
+
+			// 'de-AT' and 'de_AT' are indexed as 'de'
+			const code = candidate.toString().toLowerCase().split(/[-_]/)[0];
+
+			if (this.languagePipelines[code] !== undefined) {
+				return code;
+			}
+		}
+
+		return codes[0];
 	}
 
 	/**
@@ -133,6 +406,56 @@ export class Builder {
 		this._k1 = number;
 	}
 
+	/**
+	 * Sets the similarity weighing the terms of every field of the documents, from
+	 * which documents are scored. The default is BM25, with the parameters set with
+	 * Builder#b and Builder#k1, which are ignored by other similarities.
+	 *
+	 * Similarities are built in, see bm25, bm25Plus, bm25f and tfIdf, or custom
+	 * objects with a label, parameters and a weight function. The weight function
+	 * gets the statistics of a term in a field of a document, and the weights are
+	 * kept in the field vectors. The score of a document for a search is the sum,
+	 * over the searched terms, of their weights in its fields, times the boost of
+	 * the terms relative to the other terms of the search.
+	 *
+	 * The similarity is serialised with the index by label and parameters, a
+	 * custom similarity must be registered with registerSimilarity to load the
+	 * index again.
+	 *
+	 * @param {Similarity} similarity - The similarity to weigh terms with.
+	 * @see registerSimilarity
+	 * @example <caption>combining the frequencies of terms across fields</caption>
+	 * builder.similarity(bm25f({ k1: 1.5 }))
+	 */
+	similarity(similarity: Similarity) {
+		this._similarity = similarity;
+	}
+
+	/**
+	 * Returns the similarity terms are weighed with, see Builder#similarity.
+	 *
+	 * @private
+	 * @returns {Similarity}
+	 */
+	currentSimilarity(): Similarity {
+		return this._similarity || bm25({ k1: this._k1, b: this._b });
+	}
+
+	/**
+	 * Stores the position of every token within its field in the index, as `index`
+	 * metadata. Positions are required to match phrase queries, at the cost of a
+	 * larger index.
+	 *
+	 * Like the list of fields this should be set before any documents are added.
+	 *
+	 * @see Query#phrase
+	 */
+	storePositions() {
+		if (this.metadataWhitelist.indexOf('index') == -1) {
+			this.metadataWhitelist.push('index');
+		}
+	}
+
 	/**
 	 * Adds a document to the index.
 	 *
@@ -154,20 +477,85 @@ export class Builder {
 		doc: LunrDocument,
 		attributes: { [key: string]: string | number } = {},
 	) {
-		const docRef = doc[this._ref];
+		const docRef = doc[this._ref],
+			language = this.documentLanguage(doc),
+			pipeline = language === undefined
+				? this.pipeline
+				: this.languagePipelines[language];
 
 		this._documents[docRef] = attributes || {};
 		this.documentCount += 1;
 
-		for (const fieldName in this._fields) {
-			const extractor = this._fields[fieldName].extractor,
+		const storedValues: LunrDocument = {};
+
+		for (const fieldName in this._storedFields) {
+			const extractor = this._storedFields[fieldName].extractor,
+				value = extractor ? extractor(doc) : doc[fieldName];
+
+			if (value !== undefined) {
+				storedValues[fieldName] = value;
+			}
+		}
+
+		if (Object.keys(storedValues).length > 0) {
+			this.documentStore[docRef] = storedValues;
+		}
+
+		for (const fieldName in this._facetFields) {
+			const extractor = this._facetFields[fieldName].extractor,
 				field = extractor ? extractor(doc) : doc[fieldName],
+				values = Array.isArray(field) ? field : [field],
+				facetValues: string[] = [];
+
+			for (const value of values) {
+				if (value == null) {
+					continue;
+				}
+
+				const facetValue = value.toString();
+
+				if (facetValues.indexOf(facetValue) == -1) {
+					facetValues.push(facetValue);
+				}
+			}
+
+			if (facetValues.length > 0) {
+				this.facetIndex[fieldName][docRef] = facetValues;
+			}
+		}
+
+		for (const fieldName in this._rangeFields) {
+			const extractor = this._rangeFields[fieldName].extractor,
+				field = extractor ? extractor(doc) : doc[fieldName],
+				rangeIndex = this.rangeIndexes[fieldName],
+				values = Array.isArray(field) ? field : [field];
+
+			for (const value of values) {
+				const parsed = rangeIndex.parse(value);
+
+				if (!isNaN(parsed)) {
+					rangeIndex.insert(parsed, docRef);
+				}
+			}
+		}
+
+		for (const fieldName in this._fields) {
+			const attributes = this._fields[fieldName],
+				source = attributes.source || fieldName,
+				extractor = attributes.extractor,
+				field = extractor ? extractor(doc) : doc[source],
 				tokens = this.tokenizer(field, {
-					fields: [fieldName],
+					fields: [source],
 				}),
-				terms = this.pipeline.run(tokens),
 				fieldRef = new FieldRef(docRef, fieldName),
-				fieldTerms: { [key: string]: number } = Object.create(null);
+				fieldTerms: { [key: string]: number } = Object.create(null),
+				index = this.fieldIndex(fieldName);
+			let terms = pipeline.run(tokens);
+
+			// the edge n-grams of a field are indexed in a field of their own
+			if (attributes.source) {
+				terms = edgeNgrams(terms, attributes.edgeNgrams);
+			}
 
 			this.fieldTermFrequencies[fieldRef.toString()] = fieldTerms;
 			this.fieldLengths[fieldRef.toString()] = 0;
@@ -185,26 +573,27 @@ export class Builder {
 
 				// add to inverted index
 				// create an initial posting if one doesn't exist
-				if (this.invertedIndex[term.toString()] == undefined) {
+				if (index[term.toString()] == undefined) {
 					// deno-lint-ignore no-explicit-any
 					const posting: { [key: string]: any } = Object.create(null);
 					posting['_index'] = this.termIndex;
 					this.termIndex += 1;
 
-					for (const field in this._fields) {
+					for (const field of this.indexedFields(index)) {
 						posting[field] = Object.create(null);
 					}
 
-					this.invertedIndex[term.toString()] = posting;
+					index[term.toString()] = posting;
 				}
 
-				// add an entry for this term/fieldName/docRef to the invertedIndex
+				// add an entry for this term/fieldName/docRef to the index
 				if (
-					this.invertedIndex[term.toString()][fieldName][docRef] ==
+					index[term.toString()][fieldName][docRef] ==
 						undefined
 				) {
-					this.invertedIndex[term.toString()][fieldName][docRef] =
-						Object.create(null);
+					index[term.toString()][fieldName][docRef] = Object.create(
+						null,
+					);
 				}
 
 				// store all whitelisted metadata about this token in the
@@ -213,17 +602,17 @@ export class Builder {
 					const metadata = term.metadata[metadataKey];
 
 					if (
-						this.invertedIndex[term.toString()][fieldName][docRef][
+						index[term.toString()][fieldName][docRef][
 							metadataKey
 						] ==
 							undefined
 					) {
-						this.invertedIndex[term.toString()][fieldName][docRef][
+						index[term.toString()][fieldName][docRef][
 							metadataKey
 						] = [];
 					}
 
-					this.invertedIndex[term.toString()][fieldName][docRef][
+					index[term.toString()][fieldName][docRef][
 						metadataKey
 					].push(
 						metadata,
@@ -233,6 +622,91 @@ export class Builder {
 		}
 	}
 
+	/**
+	 * Removes a document from the index.
+	 *
+	 * All postings, term frequencies and field lengths recorded for the document are
+	 * discarded, terms that are no longer used by any document are dropped from the
+	 * inverted index. Removing a document that has not been added has no effect.
+	 *
+	 * Field vectors and the token set are not updated, they are recalculated the next
+	 * time the index is built.
+	 *
+	 * @param {string} docRef - The reference of the document to remove.
+	 */
+	remove(docRef: string) {
+		if (!(docRef in this._documents)) {
+			return;
+		}
+
+		for (const fieldName in this._fields) {
+			const fieldRef = new FieldRef(docRef, fieldName).toString(),
+				fieldTerms = this.fieldTermFrequencies[fieldRef],
+				index = this.fieldIndex(fieldName);
+
+			for (const term in fieldTerms) {
+				const posting = index[term];
+
+				delete posting[fieldName][docRef];
+
+				// drop the term altogether once no document uses it
+				let used = false;
+				for (const field of this.indexedFields(index)) {
+					if (Object.keys(posting[field]).length > 0) {
+						used = true;
+						break;
+					}
+				}
+
+				if (!used) {
+					delete index[term];
+				}
+			}
+
+			delete this.fieldTermFrequencies[fieldRef];
+			delete this.fieldLengths[fieldRef];
+		}
+
+		for (const fieldName in this.rangeIndexes) {
+			this.rangeIndexes[fieldName].remove(docRef);
+		}
+
+		for (const fieldName in this.facetIndex) {
+			delete this.facetIndex[fieldName][docRef];
+		}
+
+		delete this._documents[docRef];
+		delete this.documentStore[docRef];
+		this.documentCount -= 1;
+	}
+
+	/**
+	 * Returns the inverted index the terms of a field are posted in, the edge
+	 * n-gram index for the edge n-gram fields.
+	 *
+	 * @private
+	 * @param {string} fieldName - The name of the field.
+	 * @returns {object}
+	 */
+	fieldIndex(fieldName: string): LunrDocument {
+		return this._fields[fieldName].source
+			? this.edgeNgramIndex
+			: this.invertedIndex;
+	}
+
+	/**
+	 * Returns the fields whose terms are posted in an inverted index.
+	 *
+	 * @private
+	 * @param {object} index - The inverted index or the edge n-gram index.
+	 * @returns {string[]}
+	 */
+	indexedFields(index: LunrDocument): string[] {
+		return Object.keys(this._fields).filter((fieldName) => {
+			return this.fieldIndex(fieldName) === index;
+		});
+	}
+
 	/**
 	 * Calculates the average document length for this index
 	 *
@@ -269,44 +743,30 @@ export class Builder {
 	createFieldVectors() {
 		const fieldVectors: { [key: string]: Vector } = {};
 		const fieldRefs = Object.keys(this.fieldTermFrequencies);
-		const termIdfCache: { [key: string]: number } = Object.create(null);
+		// terms and edge n-grams are weighed apart, 'pla' may be both
+		const termCache: { [key: string]: TermFrequencies } = Object.create(
+			null,
+		);
+		const edgeNgramCache: { [key: string]: TermFrequencies } = Object
+			.create(null);
+		const similarity = this.currentSimilarity();
 
 		for (const fieldRefStr of fieldRefs) {
 			const fieldRef = FieldRef.fromString(fieldRefStr),
-				fieldName = fieldRef.fieldName,
-				fieldLength = this.fieldLengths[fieldRef.toString()],
 				fieldVector = new Vector(),
 				termFrequencies =
 					this.fieldTermFrequencies[fieldRef.toString()],
-				terms = Object.keys(termFrequencies);
-
-			const fieldBoost = this._fields[fieldName].boost || 1,
-				docBoost = this._documents[fieldRef.docRef].boost || 1;
+				terms = Object.keys(termFrequencies),
+				index = this.fieldIndex(fieldRef.fieldName),
+				cache = index === this.invertedIndex
+					? termCache
+					: edgeNgramCache;
 
 			for (const term of terms) {
-				const tf = termFrequencies[term],
-					termIndex = this.invertedIndex[term]._index;
-				let idf, score;
-
-				if (termIdfCache[term] === undefined) {
-					idf = inverseDocumentFrequency(
-						this.invertedIndex[term],
-						this.documentCount,
+				const termIndex = index[term]._index,
+					score = similarity.weight(
+						this.termStatistics(fieldRef, term, cache),
 					);
-					termIdfCache[term] = idf;
-				} else {
-					idf = termIdfCache[term];
-				}
-
-				score = idf * ((this._k1 + 1) * tf) /
-					(this._k1 *
-							(1 - this._b +
-								this._b *
-									(fieldLength /
-										this.averageFieldLength[fieldName])) +
-						tf);
-				score *= fieldBoost;
-				score *= docBoost;
 				const scoreWithPrecision = Math.round(score * 1000) / 1000;
 				// Converts 1.23456789 to 1.234.
 				// Reducing the precision so that the vectors take up less
@@ -324,6 +784,68 @@ export class Builder {
 		this.fieldVectors = fieldVectors;
 	}
 
+	/**
+	 * Collects the statistics a similarity weighs a term in a field of a document
+	 * from, see Builder#similarity.
+	 *
+	 * @private
+	 * @param {FieldRef} fieldRef - The field of the document.
+	 * @param {string} term - The term to weigh.
+	 * @param {object} [termCache] - The document frequencies of the terms, or of the edge n-grams, already calculated.
+	 * @returns {TermStatistics}
+	 */
+	termStatistics(
+		fieldRef: FieldRef,
+		term: string,
+		termCache: { [term: string]: TermFrequencies } = {},
+	): TermStatistics {
+		const index = this.fieldIndex(fieldRef.fieldName),
+			indexedFields = this.indexedFields(index),
+			posting = index[term],
+			fields: TermStatistics['fields'] = Object.create(null);
+
+		if (termCache[term] === undefined) {
+			let documentFrequency = 0;
+
+			// the postings of the term in every field add up to its document
+			// frequency, as in inverseDocumentFrequency
+			for (const fieldName of indexedFields) {
+				documentFrequency +=
+					Object.keys(posting[fieldName] || {}).length;
+			}
+
+			termCache[term] = {
+				idf: inverseDocumentFrequency(posting, this.documentCount),
+				documentFrequency: documentFrequency,
+			};
+		}
+
+		for (const fieldName of indexedFields) {
+			const docFieldRef = new FieldRef(fieldRef.docRef, fieldName)
+					.toString(),
+				termFrequencies = this.fieldTermFrequencies[docFieldRef];
+
+			if (termFrequencies !== undefined && termFrequencies[term] > 0) {
+				fields[fieldName] = {
+					tf: termFrequencies[term],
+					fieldLength: this.fieldLengths[docFieldRef],
+					averageFieldLength: this.averageFieldLength[fieldName],
+					fieldBoost: this._fields[fieldName].boost || 1,
+				};
+			}
+		}
+
+		return Object.assign({
+			term: term,
+			field: fieldRef.fieldName,
+			idf: termCache[term].idf,
+			documentFrequency: termCache[term].documentFrequency,
+			documentCount: this.documentCount,
+			documentBoost: this._documents[fieldRef.docRef].boost || 1,
+			fields: fields,
+		}, fields[fieldRef.fieldName]);
+	}
+
 	/**
 	 * Creates a token set of all tokens in the index using TokenSet
 	 *
@@ -348,15 +870,198 @@ export class Builder {
 		this.createFieldVectors();
 		this.createTokenSet();
 
+		const edgeNgramFields: {
+			[field: string]: { min: number; max: number };
+		} = Object.create(null);
+
+		for (const fieldName in this._fields) {
+			const attributes = this._fields[fieldName];
+
+			if (attributes.edgeNgrams && !attributes.source) {
+				edgeNgramFields[fieldName] = attributes.edgeNgrams;
+			}
+		}
+
+		const similarity = this.currentSimilarity();
+
 		return new LunrIndex({
 			invertedIndex: this.invertedIndex,
+			edgeNgramIndex: this.edgeNgramIndex,
 			fieldVectors: this.fieldVectors,
 			tokenSet: this.tokenSet,
 			fields: Object.keys(this._fields),
 			pipeline: this.searchPipeline,
+			documentStore: this.documentStore,
+			rangeIndexes: this.rangeIndexes,
+			facetIndex: this.facetIndex,
+			edgeNgramFields: edgeNgramFields,
+			languagePipelines: this.languageSearchPipelines,
+			indexPipeline: this.pipeline,
+			languageIndexPipelines: this.languagePipelines,
+			similarity: {
+				label: similarity.label,
+				parameters: similarity.parameters,
+			},
+			tokenizer: this.tokenizer,
+			builder: this,
 		});
 	}
 
+	/**
+	 * Returns a representation of the document statistics kept by the builder,
+	 * ready for serialisation. These are needed to update an index after it
+	 * has been built.
+	 *
+	 * Field extractors, the tokenizer and the language detector are functions and
+	 * are not serialised.
+	 *
+	 * @returns {SerializedBuilder}
+	 */
+	toJSON(): SerializedBuilder {
+		const fields: {
+			[key: string]: { boost?: number; edgeNgrams?: EdgeNgramOptions };
+		} = {};
+
+		for (const fieldName in this._fields) {
+			const attributes = this._fields[fieldName];
+
+			// edge n-gram fields are set up again along with their field
+			if (attributes.source) {
+				continue;
+			}
+
+			fields[fieldName] = { boost: attributes.boost };
+
+			if (attributes.edgeNgrams) {
+				fields[fieldName].edgeNgrams = attributes.edgeNgrams;
+			}
+		}
+
+		const serialized: SerializedBuilder = {
+			ref: this._ref,
+			fields: fields,
+			storedFields: Object.keys(this._storedFields),
+			facetFields: Object.keys(this._facetFields),
+			documents: this._documents,
+			fieldTermFrequencies: this.fieldTermFrequencies,
+			fieldLengths: this.fieldLengths,
+			b: this._b,
+			k1: this._k1,
+			metadataWhitelist: this.metadataWhitelist,
+			pipeline: this.pipeline.toJSON(),
+		};
+
+		if (this._similarity) {
+			serialized.similarity = {
+				label: this._similarity.label,
+				parameters: this._similarity.parameters,
+			};
+		}
+
+		if (Object.keys(this.languagePipelines).length > 0) {
+			const pipelines: { [code: string]: string[] } = {};
+
+			for (const code in this.languagePipelines) {
+				pipelines[code] = this.languagePipelines[code].toJSON();
+			}
+
+			serialized.languages = {
+				field: this._languageField,
+				pipelines: pipelines,
+			};
+		}
+
+		return serialized;
+	}
+
+	/**
+	 * Restores a builder from previously serialised document statistics, so
+	 * that a loaded LunrIndex can be updated.
+	 *
+	 * @param {SerializedBuilder} serialized - The serialised builder state.
+	 * @param {object} invertedIndex - The inverted index of the loaded LunrIndex.
+	 * @param {Pipeline} searchPipeline - The search pipeline of the loaded LunrIndex.
+	 * @param {object} [edgeNgramIndex] - The edge n-gram index of the loaded LunrIndex.
+	 * @returns {Builder}
+	 */
+	static load(
+		serialized: SerializedBuilder,
+		invertedIndex: LunrDocument,
+		searchPipeline: Pipeline,
+		edgeNgramIndex: LunrDocument = {},
+	) {
+		const builder = new Builder();
+
+		builder.ref(serialized.ref);
+		builder.b(serialized.b);
+		builder.k1(serialized.k1);
+
+		if (serialized.similarity) {
+			builder.similarity(loadSimilarity(serialized.similarity));
+		}
+
+		builder.pipeline = Pipeline.load(serialized.pipeline);
+		builder.searchPipeline = searchPipeline;
+		builder.metadataWhitelist = serialized.metadataWhitelist;
+
+		for (const fieldName in serialized.fields) {
+			builder.field(fieldName, serialized.fields[fieldName]);
+		}
+
+		for (const fieldName of serialized.storedFields || []) {
+			builder.storedField(fieldName);
+		}
+
+		for (const fieldName of serialized.facetFields || []) {
+			builder.facetField(fieldName);
+		}
+
+		if (serialized.languages) {
+			builder._languageField = serialized.languages.field;
+
+			for (const code in serialized.languages.pipelines) {
+				builder.languagePipelines[code] = Pipeline.load(
+					serialized.languages.pipelines[code],
+				);
+			}
+		}
+
+		for (const docRef in serialized.documents) {
+			builder._documents[docRef] = serialized.documents[docRef];
+			builder.documentCount += 1;
+		}
+
+		for (const fieldRef in serialized.fieldTermFrequencies) {
+			const fieldTerms = Object.create(null);
+			Object.assign(
+				fieldTerms,
+				serialized.fieldTermFrequencies[fieldRef],
+			);
+			builder.fieldTermFrequencies[fieldRef] = fieldTerms;
+		}
+
+		Object.assign(builder.fieldLengths, serialized.fieldLengths);
+
+		for (const term in invertedIndex) {
+			builder.invertedIndex[term] = invertedIndex[term];
+			builder.termIndex = Math.max(
+				builder.termIndex,
+				invertedIndex[term]._index + 1,
+			);
+		}
+
+		// terms and edge n-grams share the positions of the vector space
+		for (const ngram in edgeNgramIndex) {
+			builder.edgeNgramIndex[ngram] = edgeNgramIndex[ngram];
+			builder.termIndex = Math.max(
+				builder.termIndex,
+				edgeNgramIndex[ngram]._index + 1,
+			);
+		}
+
+		return builder;
+	}
+
 	/**
 	 * Applies a plugin to the index builder.
 	 *
@@ -1,27 +1,164 @@
 import { Pipeline } from './Pipeline.ts';
-import { TokenSet } from './TokenSet.ts';
+import { FuzzyOptions, TokenSet } from './TokenSet.ts';
 import { TokenSetBuilder } from './TokenSetBuilder.ts';
 import { QueryParser } from './QueryParser.ts';
-import { Query } from './Query.ts';
+import { Query, QueryClause } from './Query.ts';
 import { Vector } from './Vector.ts';
 import { completeLunrSet, emptyLunrSet, LunrSet } from './LunrSet.ts';
 import { lunrVersion } from './version.ts';
 import { FieldRef } from './FieldRef.ts';
 import { MatchData } from './MatchData.ts';
+import { Token } from './Token.ts';
+import { Builder, LunrDocument, SerializedBuilder } from './Builder.ts';
+import { Tokenizer, tokenizer } from './tokenizer.ts';
+import { RangeIndex, SerializedRangeIndex } from './RangeIndex.ts';
+import { edgeNgramField } from './edgeNgrams.ts';
+import { SerializedSimilarity } from './similarity.ts';
 
 export interface DocMatch {
 	ref: string;
 	score: number;
 	matchData: MatchData;
+	stored?: LunrDocument;
 }
 
+export interface FacetCount {
+	value: string;
+	count: number;
+}
+
+export interface SortEntry {
+	ref: string;
+	score: number;
+	stored?: LunrDocument;
+}
+
+export type SortCriterion = string | ((a: SortEntry, b: SortEntry) => number);
+
+export interface SearchOptions {
+	facets?: string[];
+	limit?: number;
+	offset?: number;
+	sort?: SortCriterion[];
+	language?: string;
+	fuzzy?: FuzzyOptions;
+	fuzziness?: number | 'auto';
+	expansionDecay?: number;
+}
+
+export interface SearchResults extends Array<DocMatch> {
+	total?: number;
+	facets?: { [field: string]: FacetCount[] };
+}
+
+interface PhraseSlot {
+	offset: number;
+	terms: string[];
+}
+
+interface ProximityPenalty {
+	field: string;
+	vector: Vector;
+	factors: { [docRef: string]: number };
+}
+
+interface QueryContext {
+	queryVectors: { [field: string]: Vector };
+	matchingFields: { [fieldRef: string]: MatchData };
+	termFieldCache: { [termField: string]: boolean };
+	proximityPenalties: ProximityPenalty[];
+	termBoosts: { [field: string]: { [term: string]: number[] } };
+	unscoredMatches: { [docRef: string]: boolean };
+	language?: string;
+	pipelines: Pipeline[];
+	clauseTokens: Map<QueryClause, Token[]>;
+	fuzzy?: FuzzyOptions;
+	fuzziness?: number | 'auto';
+	expansionDecay?: number;
+}
+
+export interface TermExplanation {
+	term: string;
+	boosts: number[];
+	queryWeight: number;
+	fieldWeight: number;
+	score: number;
+	similarity?: string;
+	parameters?: { [name: string]: number };
+	tf?: number;
+	idf?: number;
+	fieldLength?: number;
+	averageFieldLength?: number;
+	k1?: number;
+	b?: number;
+	fieldBoost?: number;
+	documentBoost?: number;
+}
+
+export interface FieldExplanation {
+	field: string;
+	score: number;
+	queryNorm: number;
+	proximityPenalty: number;
+	terms: TermExplanation[];
+}
+
+export interface Explanation {
+	ref: string;
+	matched: boolean;
+	score: number;
+	fields: FieldExplanation[];
+}
+
+export interface Suggestion {
+	term: string;
+	documentCount: number;
+}
+
+export interface SuggestOptions {
+	limit?: number;
+	field?: string;
+}
+
+export interface FieldStats {
+	termCount: number;
+	postingCount: number;
+	edgeNgrams?: { termCount: number; postingCount: number };
+}
+
+export interface IndexStats {
+	documentCount: number;
+	termCount: number;
+	fields: { [field: string]: FieldStats };
+}
+
+// the weight of the expansions of a term with an 'auto' edit distance, relative
+// to the term itself
+const autoFuzzyWeight = 0.5;
+
 export interface LunrIndexAttrs {
 	// deno-lint-ignore no-explicit-any
 	invertedIndex: { [key: string]: any };
+	// deno-lint-ignore no-explicit-any
+	edgeNgramIndex?: { [key: string]: any };
 	fieldVectors: { [key: string]: Vector };
 	tokenSet: TokenSet;
 	fields: string[];
 	pipeline: Pipeline;
+	documentStore?: { [key: string]: LunrDocument };
+	rangeIndexes?: { [key: string]: RangeIndex };
+	facetIndex?: { [key: string]: { [key: string]: string[] } };
+	edgeNgramFields?: { [field: string]: { min: number; max: number } };
+	languagePipelines?: { [code: string]: Pipeline };
+	indexPipeline?: Pipeline;
+	languageIndexPipelines?: { [code: string]: Pipeline };
+	similarity?: SerializedSimilarity;
+	tokenizer?: Tokenizer;
+	builder?: Builder;
+}
+
+export interface SerializeOptions {
+	updatable?: boolean;
 }
 
 export interface SerializedIndex {
@@ -30,8 +167,19 @@ export interface SerializedIndex {
 	// deno-lint-ignore no-explicit-any
 	invertedIndex: Array<any[2]>;
 	// deno-lint-ignore no-explicit-any
+	edgeNgramIndex?: Array<any[2]>;
+	// deno-lint-ignore no-explicit-any
 	fieldVectors: Array<any[2]>;
 	pipeline: string[];
+	documentStore?: { [key: string]: LunrDocument };
+	rangeIndexes?: { [key: string]: SerializedRangeIndex };
+	facetIndex?: { [key: string]: { [key: string]: string[] } };
+	edgeNgramFields?: { [field: string]: { min: number; max: number } };
+	languagePipelines?: { [code: string]: string[] };
+	indexPipeline?: string[];
+	languageIndexPipelines?: { [code: string]: string[] };
+	similarity?: SerializedSimilarity;
+	builder?: SerializedBuilder;
 }
 
 export class LunrIndex {
@@ -41,6 +189,21 @@ export class LunrIndex {
 	private fieldVectors: { [p: string]: Vector };
 	// deno-lint-ignore no-explicit-any
 	private invertedIndex: { [p: string]: any };
+	// deno-lint-ignore no-explicit-any
+	private edgeNgramIndex: { [p: string]: any };
+	private documentStore: { [key: string]: LunrDocument };
+	private rangeIndexes: { [key: string]: RangeIndex };
+	private facetIndex: { [key: string]: { [key: string]: string[] } };
+	private edgeNgramFields: {
+		[field: string]: { min: number; max: number };
+	};
+	private languagePipelines: { [code: string]: Pipeline };
+	private indexPipeline?: Pipeline;
+	private languageIndexPipelines: { [code: string]: Pipeline };
+	private similarity?: SerializedSimilarity;
+	private tokenizer: Tokenizer;
+	private builder?: Builder;
+	private stale = false;
 	/**
 	 * An index contains the built index of all documents and provides a query interface
 	 * to the index.
@@ -52,17 +215,140 @@ export class LunrIndex {
 	 * @constructor
 	 * @param {Object} attrs - The attributes of the built search index.
 	 * @param {Object} attrs.invertedIndex - An index of term/field to document reference.
+	 * @param {Object} [attrs.edgeNgramIndex] - An index of edge n-gram/field to document reference, for the fields indexed with edge n-grams.
 	 * @param {Object<string, Vector>} attrs.fieldVectors - Field vectors
 	 * @param {TokenSet} attrs.tokenSet - An set of all corpus tokens.
 	 * @param {string[]} attrs.fields - The names of indexed document fields.
 	 * @param {Pipeline} attrs.pipeline - The pipeline to use for search terms.
+	 * @param {Object} [attrs.documentStore] - The stored field values of every document.
+	 * @param {Object<string, RangeIndex>} [attrs.rangeIndexes] - The sorted values of every typed field.
+	 * @param {Object} [attrs.facetIndex] - The values of every facet field, by field and document ref.
+	 * @param {Object} [attrs.edgeNgramFields] - The lengths of the edge n-grams of the fields indexed with them, see Builder#field.
+	 * @param {Object<string, Pipeline>} [attrs.languagePipelines] - The pipelines to use for search terms by language, see Builder#languages.
+	 * @param {Pipeline} [attrs.indexPipeline] - The pipeline documents were indexed with, which the words of phrases are passed through.
+	 * @param {Object<string, Pipeline>} [attrs.languageIndexPipelines] - The pipelines documents were indexed with by language.
+	 * @param {SerializedSimilarity} [attrs.similarity] - The label and parameters of the similarity terms were weighed with.
+	 * @param {Tokenizer} [attrs.tokenizer=tokenizer] - The tokenizer documents were split into tokens with.
+	 * @param {Builder} [attrs.builder] - The builder holding document statistics, required to update the index.
 	 */
 	constructor(attrs: LunrIndexAttrs) {
 		this.invertedIndex = attrs.invertedIndex;
+		this.edgeNgramIndex = attrs.edgeNgramIndex || Object.create(null);
 		this.fieldVectors = attrs.fieldVectors;
 		this.tokenSet = attrs.tokenSet;
 		this.fields = attrs.fields;
 		this.pipeline = attrs.pipeline;
+		this.documentStore = attrs.documentStore || Object.create(null);
+		this.rangeIndexes = attrs.rangeIndexes || Object.create(null);
+		this.facetIndex = attrs.facetIndex || Object.create(null);
+		this.edgeNgramFields = attrs.edgeNgramFields || Object.create(null);
+		this.languagePipelines = attrs.languagePipelines || Object.create(null);
+		this.indexPipeline = attrs.indexPipeline;
+		this.languageIndexPipelines = attrs.languageIndexPipelines ||
+			Object.create(null);
+		this.similarity = attrs.similarity;
+		this.tokenizer = attrs.tokenizer || tokenizer;
+		this.builder = attrs.builder;
+	}
+
+	/**
+	 * Adds a document to an already built index.
+	 *
+	 * The document is processed exactly as it would have been by the Builder the
+	 * index was created with. Inverse document frequencies, average field lengths and
+	 * field vectors are recalculated lazily, before the next query is performed, so
+	 * several documents can be added, removed or updated cheaply in a row.
+	 *
+	 * @param {object} doc - The document to add to the index.
+	 * @param {object} attributes - Optional attributes associated with this document.
+	 * @param {number} [attributes.boost=1] - Boost applied to all terms within this document.
+	 * @throws {Error} If the index cannot be updated or the document is already in the index.
+	 * @see Builder#add
+	 */
+	add(
+		doc: LunrDocument,
+		attributes: { [key: string]: string | number } = {},
+	) {
+		const builder = this.updatableBuilder(),
+			docRef = doc[builder._ref];
+
+		if (docRef in builder._documents) {
+			throw new Error(
+				'Document \'' + docRef + '\' is already in the index',
+			);
+		}
+
+		builder.add(doc, attributes);
+		this.stale = true;
+	}
+
+	/**
+	 * Removes a document from an already built index. Removing a document that is
+	 * not in the index has no effect.
+	 *
+	 * @param {string} ref - The reference of the document to remove.
+	 * @throws {Error} If the index cannot be updated.
+	 * @see Builder#remove
+	 */
+	remove(ref: string) {
+		this.updatableBuilder().remove(ref);
+		this.stale = true;
+	}
+
+	/**
+	 * Replaces a document in an already built index, the document is added if
+	 * it is not yet in the index.
+	 *
+	 * @param {object} doc - The new version of the document.
+	 * @param {object} attributes - Optional attributes associated with this document.
+	 * @param {number} [attributes.boost=1] - Boost applied to all terms within this document.
+	 * @throws {Error} If the index cannot be updated.
+	 */
+	update(
+		doc: LunrDocument,
+		attributes: { [key: string]: string | number } = {},
+	) {
+		const builder = this.updatableBuilder();
+
+		builder.remove(doc[builder._ref]);
+		builder.add(doc, attributes);
+		this.stale = true;
+	}
+
+	/**
+	 * Returns the builder used to update this index.
+	 *
+	 * @private
+	 * @throws {Error} If the index was loaded without document statistics.
+	 */
+	private updatableBuilder(): Builder {
+		if (!this.builder) {
+			throw new Error(
+				'Index cannot be updated, it was loaded without document statistics',
+			);
+		}
+
+		return this.builder;
+	}
+
+	/**
+	 * Recalculates field vectors and the token set after the index has been
+	 * updated.
+	 *
+	 * @private
+	 */
+	private refresh() {
+		if (!this.stale || !this.builder) {
+			return;
+		}
+
+		this.builder.calculateAverageFieldLengths();
+		this.builder.createFieldVectors();
+		this.builder.createTokenSet();
+
+		this.fieldVectors = this.builder.fieldVectors;
+		this.tokenSet = this.builder.tokenSet;
+		this.stale = false;
 	}
 
 	/**
@@ -71,6 +357,45 @@ export class LunrIndex {
 	 * @property {string} ref - The reference of the document this result represents.
 	 * @property {number} score - A number between 0 and 1 representing how similar this document is to the query.
 	 * @property {MatchData} matchData - Contains metadata about this match including which term(s) caused the match.
+	 * @property {Object} [stored] - The values of the stored fields of the document, see Builder#storedField.
+	 */
+
+	/**
+	 * Options for a search of the index.
+	 * @typedef {Object} LunrIndex~SearchOptions
+	 * @property {string[]} [facets] - The facet fields to count values of among the results, see Builder#facetField.
+	 * @property {number} [limit] - The maximum number of results returned, by default every result is returned.
+	 * @property {number} [offset=0] - The number of best results skipped before the returned results.
+	 * @property {LunrIndex~SortCriterion[]} [sort] - The order of the results, by default the highest score first.
+	 * @property {string} [language] - The language of the search, for indexes of documents in several languages, see Builder#languages.
+	 * @property {TokenSet~FuzzyOptions} [fuzzy] - The costs of the edits and prefix length of fuzzy terms, e.g. `foo~2`, matched with a Levenshtein automaton, see TokenSet.fromFuzzyString.
+	 * @property {number|string} [fuzziness] - The edit distance of the terms without an edit distance or wildcards of their own, 'auto' for an edit distance depending on the length of every term, see Query.autoEditDistance.
+	 * @property {number} [expansionDecay] - The factor the weight of an expansion of a wildcard or fuzzy term is multiplied by for every edit or extra character it is away from the term, e.g. 0.8.
+	 */
+
+	/**
+	 * A sort criterion orders results either by a stored field, see Builder#storedField, or by a
+	 * comparator function. A field is given by its name, optionally followed by `asc` or `desc`, e.g.
+	 * `'updatedAt desc'`, fields are sorted ascending by default and documents without a value for the
+	 * field come last. The name `score` refers to the score of the results, which is sorted descending
+	 * by default. A comparator is called with the ref, score and stored values of two results.
+	 *
+	 * Results that are equal by every criterion are ordered by ref.
+	 *
+	 * @typedef {string|function} LunrIndex~SortCriterion
+	 * @example <caption>most recently updated first, then by score</caption>
+	 * idx.search('plant', { sort: ['updatedAt desc', 'score'] })
+	 * @example <caption>comparing titles by locale</caption>
+	 * idx.search('plant', {
+	 *   sort: [(a, b) => a.stored.title.localeCompare(b.stored.title)]
+	 * })
+	 */
+
+	/**
+	 * The number of results with a value of a facet field.
+	 * @typedef {Object} LunrIndex~FacetCount
+	 * @property {string} value - The value of the facet field.
+	 * @property {number} count - The number of results with the value.
 	 */
 
 	/**
@@ -103,6 +428,30 @@ export class LunrIndex {
 	 * term should be prefixed with a '+', e.g. `+foo bar` is a search for documents that must contain 'foo' and
 	 * optionally contain 'bar'. Conversely a leading '-' sets the terms presence to prohibited, i.e. it must not
 	 * appear in a document, e.g. `-foo bar` is a search for documents that do not contain 'foo' but may contain 'bar'.
+	 * A leading '#' makes a term a filter, e.g. `#category:guide plant`, a filter is required like '+' but does not
+	 * contribute to the score or match data of the documents, it only narrows the documents matching the rest of the
+	 * query. A query made only of filters returns every document passing the filters with a score of 0.
+	 *
+	 * Words wrapped in double quotes form a phrase, e.g. `"green plant"` only matches documents where
+	 * 'green' is immediately followed by 'plant' within the same field. Phrases support field, presence
+	 * and boost modifiers like single terms, they require the index to be built with token positions,
+	 * see Builder#storePositions. An edit distance on a phrase is a slop instead, e.g. `"green plant"~2`
+	 * matches documents where the words are at most 2 positions away from forming the phrase, the closer
+	 * the words the higher the score.
+	 *
+	 * Clauses can be grouped with parentheses and combined with the uppercase operators AND, OR and NOT.
+	 * Clauses joined by AND are all required, e.g. `green AND plant`, and AND takes precedence over OR, so
+	 * `a AND b OR c` matches documents containing both 'a' and 'b', or 'c'. OR is the same as leaving the
+	 * clauses next to each other, and NOT prohibits the clause that follows it. A group takes part in the
+	 * query like a single term, it can be scoped to a field, given a presence or boosted, e.g.
+	 * `+title:(green OR plant)^2`. Documents are only returned when they match at least one term or range
+	 * of the query, unless every clause of the query is prohibited.
+	 *
+	 * Fields declared with a type, see Builder#field, are matched with ranges instead of terms. A range
+	 * gives both bounds in brackets, square brackets include the bound and curly brackets exclude it,
+	 * e.g. `price:[10 TO 100}`, and a `*` leaves a bound open, e.g. `price:[10 TO *]`. A comparison gives
+	 * a single bound, e.g. `date:>=2024-01-01`. Ranges support presence modifiers and take part in groups,
+	 * they do not contribute to the score, documents that only match ranges have a score of 0.
 	 *
 	 * To escape special characters the backslash character '\' can be used, this allows searches to include
 	 * characters that would normally be considered modifiers, e.g. `foo\~2` will search for a term "foo~2" instead
@@ -121,6 +470,16 @@ export class LunrIndex {
 	 * hello~2
 	 * @example <caption>terms with presence modifiers</caption>
 	 * -foo +bar baz
+	 * @example <caption>phrase scoped to a field</caption>
+	 * title:"hello world"
+	 * @example <caption>phrase with a slop of 3</caption>
+	 * "hello world"~3
+	 * @example <caption>group combined with operators</caption>
+	 * (title:api OR body:api) AND NOT deprecated
+	 * @example <caption>term filtered by category</caption>
+	 * #category:guide plant
+	 * @example <caption>range combined with a term</caption>
+	 * +price:[10 TO 100] plant
 	 */
 
 	/**
@@ -132,15 +491,52 @@ export class LunrIndex {
 	 *
 	 * For more programmatic querying use LunrIndex#query.
 	 *
+	 * With a limit or offset only a page of the results is returned, the
+	 * results then have a `total` property with the number of documents
+	 * matching the query. Only the returned results are sorted and have their
+	 * match data combined, which keeps pages of broad queries cheap.
+	 *
+	 * When facets are requested the results have a `facets` property, with the
+	 * values of every requested facet field among all the matching documents,
+	 * not only the returned page, and the number of documents with each value,
+	 * most frequent first.
+	 *
+	 * The terms of a search of an index of documents in several languages are
+	 * processed with the search pipeline of every language, and documents
+	 * matching the terms processed by any of them are returned. With a language
+	 * only the search pipeline of that language is used. The language option is
+	 * ignored by indexes of documents in a single language.
+	 *
+	 * With the fuzziness option terms match documents with misspellings of them,
+	 * as if they had an edit distance, e.g. with an 'auto' fuzziness 'plont'
+	 * matches 'plant'. With an 'auto' fuzziness documents matching the terms as
+	 * they were searched score higher than documents matching misspellings only.
+	 * With an expansion decay the terms wildcards and edit distances expand into
+	 * score lower the further they are from the term as it was searched, e.g.
+	 * 'test*' scores 'test' higher than 'testing'. The prefixes of fields with
+	 * edge n-grams are matched as they are, and are not decayed.
+	 *
+	 * Terms are split with the tokenizer the documents were indexed with. A term
+	 * split into several tokens, e.g. a Chinese word split into bigrams by
+	 * cjkTokenizer, matches the documents containing every one of them.
+	 *
 	 * @param {LunrIndex~QueryString} queryString - A string containing a lunr query.
+	 * @param {LunrIndex~SearchOptions} [options] - Pagination and facets of the results.
 	 * @throws {QueryParseError} If the passed query string cannot be parsed.
+	 * @throws {Error} If a requested facet is not a facet field of the index, a sort criterion cannot be parsed, or the language is not one of the languages of the index.
 	 * @returns {LunrIndex~Result[]}
+	 * @example <caption>the second page of 10 results</caption>
+	 * const results = idx.search('plant', { limit: 10, offset: 10 })
+	 * results.total // the number of matching documents
+	 * @example <caption>counting the languages of the results</caption>
+	 * const results = idx.search('plant', { facets: ['language'] })
+	 * results.facets.language // [{ value: 'en', count: 2 }, ...]
 	 */
-	search(queryString: string) {
+	search(queryString: string, options: SearchOptions = {}) {
 		return this.query(function (query: Query) {
 			const parser = new QueryParser(queryString, query);
 			parser.parse();
-		});
+		}, options);
 	}
 
 	/**
@@ -166,9 +562,14 @@ export class LunrIndex {
 	 * customized.
 	 *
 	 * @param {LunrIndex~queryBuilder} fn - A function that is used to build the query.
+	 * @param {LunrIndex~SearchOptions} [options] - Pagination and facets of the results.
+	 * @throws {Error} If a requested facet is not a facet field of the index, a sort criterion cannot be parsed, or the language is not one of the languages of the index.
 	 * @returns {LunrIndex~Result[]}
 	 */
-	query(fn: (query: Query) => void): DocMatch[] {
+	query(
+		fn: (query: Query) => void,
+		options: SearchOptions = {},
+	): SearchResults {
 		// for each query clause
 		// * process terms
 		// * expand terms from token set
@@ -176,244 +577,18 @@ export class LunrIndex {
 		// * get document vectors
 		// * score documents
 
-		const query = new Query(this.fields),
-			matchingFields: { [key: string]: MatchData } = {},
-			queryVectors: { [key: string]: Vector } = {},
-			termFieldCache: { [key: string]: boolean } = {},
-			prohibitedMatches: { [key: string]: LunrSet } = {};
-
-		const requiredMatches: { [key: string]: LunrSet } = {};
-
-		/*
-     * To support field level boosts a query vector is created per
-     * field. An empty vector is eagerly created to support negated
-     * queries.
-     */
-		for (const field of this.fields) {
-			queryVectors[field] = new Vector();
-		}
-
-		fn.call(query, query);
-
-		for (const clause of query.clauses) {
-			/*
-       * Unless the pipeline has been disabled for this term, which is
-       * the case for terms with wildcards, we need to pass the clause
-       * term through the search pipeline. A pipeline returns an array
-       * of processed terms. Pipeline functions may expand the passed
-       * term, which means we may end up performing multiple index lookups
-       * for a single query term.
-       */
-			let terms = null;
-			let clauseMatches = emptyLunrSet;
-
-			if (clause.usePipeline) {
-				terms = this.pipeline.runString(clause.term || '', {
-					fields: clause.fields,
-				});
-			} else {
-				terms = [clause.term];
-			}
-
-			for (const term of terms) {
-				/*
-         * Each term returned from the pipeline needs to use the same query
-         * clause object, e.g. the same boost and or edit distance. The
-         * simplest way to do this is to re-use the clause object but mutate
-         * its term property.
-         */
-				clause.term = term;
-
-				/*
-         * From the term in the clause we create a token set which will then
-         * be used to intersect the indexes token set to get a list of terms
-         * to lookup in the inverted index
-         */
-				const termTokenSet = TokenSet.fromClause(clause),
-					expandedTerms = this.tokenSet.intersect(termTokenSet)
-						.toArray();
-
-				/*
-         * If a term marked as required does not exist in the tokenSet it is
-         * impossible for the search to return any matches. We set all the field
-         * scoped required matches set to empty and stop examining any further
-         * clauses.
-         */
-				if (
-					expandedTerms.length === 0 &&
-					clause.presence === Query.presence.REQUIRED
-				) {
-					for (const field of clause.fields || []) {
-						requiredMatches[field] = emptyLunrSet;
-					}
-
-					break;
-				}
-
-				for (const expandedTerm of expandedTerms) {
-					/*
-           * For each term get the posting and termIndex, this is required for
-           * building the query vector.
-           */
-					const posting = this.invertedIndex[expandedTerm],
-						termIndex = posting._index;
-
-					for (const field of clause.fields || []) {
-						/*
-             * For each field that this query term is scoped by (by default
-             * all fields are in scope) we need to get all the document refs
-             * that have this term in that field.
-             *
-             * The posting is the entry in the invertedIndex for the matching
-             * term from above.
-             */
-						const fieldPosting = posting[field],
-							matchingDocumentRefs = Object.keys(fieldPosting),
-							termField = expandedTerm + '/' + field,
-							matchingDocumentsSet = new LunrSet(
-								matchingDocumentRefs,
-							);
-
-						/*
-             * if the presence of this term is required ensure that the matching
-             * documents are added to the set of required matches for this clause.
-             *
-             */
-						if (clause.presence == Query.presence.REQUIRED) {
-							clauseMatches = clauseMatches.union(
-								matchingDocumentsSet,
-							);
-
-							if (requiredMatches[field] === undefined) {
-								requiredMatches[field] = completeLunrSet;
-							}
-						}
-
-						/*
-             * if the presence of this term is prohibited ensure that the matching
-             * documents are added to the set of prohibited matches for this field,
-             * creating that set if it does not yet exist.
-             */
-						if (clause.presence == Query.presence.PROHIBITED) {
-							if (prohibitedMatches[field] === undefined) {
-								prohibitedMatches[field] = emptyLunrSet;
-							}
-
-							prohibitedMatches[field] = prohibitedMatches[field]
-								.union(
-									matchingDocumentsSet,
-								);
-
-							/*
-               * Prohibited matches should not be part of the query vector used for
-               * similarity scoring and no metadata should be extracted so we continue
-               * to the next field
-               */
-							continue;
-						}
-
-						/*
-             * The query field vector is populated using the termIndex found for
-             * the term and a unit value with the appropriate boost applied.
-             * Using upsert because there could already be an entry in the vector
-             * for the term we are working with. In that case we just add the scores
-             * together.
-             */
-						queryVectors[field].upsert(
-							termIndex,
-							clause.boost || 1,
-							function (a, b) {
-								return 'string' === typeof a
-									? parseFloat(a)
-									: a + b;
-							},
-						);
-
-						/**
-						 * If we've already seen this term, field combo then we've already collected
-						 * the matching documents and metadata, no need to go through all that again
-						 */
-						if (termFieldCache[termField]) {
-							continue;
-						}
-
-						for (
-							const matchingDocumentRef of matchingDocumentRefs
-						) {
-							/*
-               * All metadata for this term/field/document triple
-               * are then extracted and collected into an instance
-               * of MatchData ready to be returned in the query
-               * results
-               */
-							const matchingFieldRef = new FieldRef(
-									matchingDocumentRef,
-									field,
-								),
-								metadata = fieldPosting[matchingDocumentRef];
-							let fieldMatch;
-
-							if (
-								(fieldMatch = matchingFields[
-									matchingFieldRef.toString()
-								]) === undefined
-							) {
-								matchingFields[matchingFieldRef.toString()] =
-									new MatchData(
-										expandedTerm,
-										field,
-										metadata,
-									);
-							} else {
-								fieldMatch.add(expandedTerm, field, metadata);
-							}
-						}
-
-						termFieldCache[termField] = true;
-					}
-				}
-			}
-
-			/**
-			 * If the presence was required we need to update the requiredMatches field sets.
-			 * We do this after all fields for the term have collected their matches because
-			 * the clause terms presence is required in _any_ of the fields not _all_ of the
-			 * fields.
-			 */
-			if (clause.presence === Query.presence.REQUIRED) {
-				for (const field of clause.fields || []) {
-					requiredMatches[field] = requiredMatches[field].intersect(
-						clauseMatches,
-					);
-				}
-			}
-		}
-
-		/**
-		 * Need to combine the field scoped required and prohibited
-		 * matching documents into a global set of required and prohibited
-		 * matches
-		 */
-		let allRequiredMatches = completeLunrSet;
-		let allProhibitedMatches = emptyLunrSet;
-
-		for (const field of this.fields) {
-			if (requiredMatches[field]) {
-				allRequiredMatches = allRequiredMatches.intersect(
-					requiredMatches[field],
-				);
-			}
-
-			if (prohibitedMatches[field]) {
-				allProhibitedMatches = allProhibitedMatches.union(
-					prohibitedMatches[field],
-				);
-			}
-		}
+		const prepared = this.prepareQuery(fn, options),
+			query = prepared.query,
+			queryMatches = prepared.queryMatches,
+			context = prepared.context,
+			matchingFields = context.matchingFields,
+			queryVectors = context.queryVectors,
+			proximityPenalties = context.proximityPenalties;
 
 		let matchingFieldRefs = Object.keys(matchingFields);
-		const results: DocMatch[] = [];
-		const matches: { [key: string]: DocMatch } = {};
+		const docRefs: string[] = [],
+			scores: { [docRef: string]: number } = Object.create(null),
+			docFieldRefs: { [docRef: string]: string[] } = Object.create(null);
 
 		/*
      * If the query is negated (contains only prohibited terms)
@@ -436,8 +611,9 @@ export class LunrIndex {
 		for (const fieldRefStr of matchingFieldRefs) {
 			/*
        * Currently we have document fields that match the query, but we
-       * need to return documents. The matchData and scores are combined
-       * from multiple fields belonging to the same document.
+       * need to return documents. The scores are combined from multiple
+       * fields belonging to the same document, the matchData is only
+       * combined for the documents that are returned.
        *
        * Scores are calculated by field, using the query vectors created
        * above, and combined into a final document score using addition.
@@ -445,104 +621,1838 @@ export class LunrIndex {
 			const fieldRef = FieldRef.fromString(fieldRefStr),
 				docRef = fieldRef.docRef;
 
-			if (!allRequiredMatches.contains(docRef)) {
+			if (!queryMatches.contains(docRef)) {
 				continue;
 			}
 
-			if (allProhibitedMatches.contains(docRef)) {
-				continue;
+			const fieldVector = this.fieldVectors[fieldRefStr],
+				queryVector = queryVectors[fieldRef.fieldName];
+			let score = queryVector.similarity(fieldVector);
+
+			for (const penalty of proximityPenalties) {
+				if (
+					penalty.field == fieldRef.fieldName &&
+					docRef in penalty.factors
+				) {
+					score -= (1 - penalty.factors[docRef]) *
+						penalty.vector.dot(fieldVector) /
+						queryVector.magnitude();
+				}
 			}
 
-			const fieldVector = this.fieldVectors[fieldRefStr],
-				score = queryVectors[fieldRef.fieldName].similarity(
-					fieldVector,
-				);
-			let docMatch: DocMatch;
+			if (docFieldRefs[docRef] === undefined) {
+				docFieldRefs[docRef] = [];
+				scores[docRef] = 0;
+				docRefs.push(docRef);
+			}
 
-			if ((docMatch = matches[docRef]) !== undefined) {
-				docMatch.score += score;
-				docMatch.matchData.combine(matchingFields[fieldRefStr]);
-			} else {
-				const match = {
-					ref: docRef,
-					score: score,
-					matchData: matchingFields[fieldRefStr],
-				};
-				matches[docRef] = match;
-				results.push(match);
+			docFieldRefs[docRef].push(fieldRefStr);
+			scores[docRef] += score;
+		}
+
+		/*
+     * Documents only matched by clauses that do not contribute to
+     * the score, e.g. ranges, are returned with a score of zero.
+     */
+		for (const docRef in context.unscoredMatches) {
+			if (
+				docFieldRefs[docRef] === undefined &&
+				queryMatches.contains(docRef)
+			) {
+				docFieldRefs[docRef] = [];
+				scores[docRef] = 0;
+				docRefs.push(docRef);
 			}
 		}
 
 		/*
-     * Sort the results objects by score, highest first.
+     * Select the documents to return, highest score first unless
+     * another sort order was requested. Documents with equal scores
+     * keep the order in which they were matched.
      */
-		return results.sort(function (a, b) {
-			return b.score - a.score;
-		});
-	}
+		const offset = Math.max(options.offset || 0, 0),
+			count = options.limit === undefined
+				? docRefs.length
+				: offset + Math.max(options.limit, 0),
+			compare = options.sort === undefined
+				? function (a: string, b: string) {
+					return scores[b] - scores[a];
+				}
+				: this.resultComparator(options.sort, scores),
+			results: SearchResults = [];
 
-	/**
-	 * Prepares the index for JSON serialization.
-	 *
-	 * The schema for this JSON blob will be described in a
-	 * separate JSON schema file.
-	 *
-	 * @returns {Object}
-	 */
-	toJSON() {
-		const invertedIndex = Object.keys(this.invertedIndex)
-			.sort()
-			.map((term) => {
-				return [term, this.invertedIndex[term]];
-			});
+		for (
+			const docRef of topDocRefs(docRefs, compare, count).slice(offset)
+		) {
+			const fieldRefs = docFieldRefs[docRef],
+				matchData = fieldRefs.length > 0
+					? matchingFields[fieldRefs[0]]
+					: new MatchData();
 
-		const fieldVectors = Object.keys(this.fieldVectors)
-			.map((ref) => {
-				return [ref, this.fieldVectors[ref].toJSON()];
-			});
+			for (let i = 1; i < fieldRefs.length; i++) {
+				matchData.combine(matchingFields[fieldRefs[i]]);
+			}
 
-		return {
-			version: lunrVersion,
-			fields: this.fields,
-			fieldVectors: fieldVectors,
-			invertedIndex: invertedIndex,
-			pipeline: this.pipeline.toJSON(),
-		};
+			results.push(this.docMatch(docRef, scores[docRef], matchData));
+		}
+
+		if (options.limit !== undefined || options.offset !== undefined) {
+			results.total = docRefs.length;
+		}
+
+		if (options.facets !== undefined) {
+			results.facets = this.countFacets(docRefs, options.facets);
+		}
+
+		return results;
 	}
 
 	/**
-	 * Loads a previously serialized LunrIndex
+	 * Creates a function comparing the refs of matching documents by the passed
+	 * sort criteria, with ties broken by ref.
 	 *
-	 * @param {Object} serializedIndex - A previously serialized LunrIndex
-	 * @returns {LunrIndex}
+	 * @private
+	 * @param {LunrIndex~SortCriterion[]} sort - The sort criteria, in order of precedence.
+	 * @param {Object<string, number>} scores - The score of every matching document.
+	 * @throws {Error} If a sort criterion cannot be parsed.
+	 * @returns {function}
 	 */
-	static load(serializedIndex: SerializedIndex) {
-		const fieldVectors: { [key: string]: Vector } = {},
-			serializedVectors = serializedIndex.fieldVectors,
-			// deno-lint-ignore no-explicit-any
-			invertedIndex: { [key: string]: any } = {},
-			serializedInvertedIndex = serializedIndex.invertedIndex,
-			tokenSetBuilder = new TokenSetBuilder(),
-			pipeline = Pipeline.load(serializedIndex.pipeline);
+	private resultComparator(
+		sort: SortCriterion[],
+		scores: { [docRef: string]: number },
+	) {
+		const documentStore = this.documentStore,
+			entries: { [docRef: string]: SortEntry } = Object.create(null),
+			entry = function (docRef: string) {
+				if (entries[docRef] === undefined) {
+					entries[docRef] = {
+						ref: docRef,
+						score: scores[docRef],
+						stored: docRef in documentStore
+							? Object.assign({}, documentStore[docRef])
+							: undefined,
+					};
+				}
 
-		if (serializedIndex.version != lunrVersion) {
-			console.warn(
-				'Version mismatch when loading serialised index. Current version of lunr \'' +
-					lunrVersion + '\' does not match serialized index \'' +
-					serializedIndex.version + '\'',
-			);
-		}
+				return entries[docRef];
+			};
 
-		for (const tuple of serializedVectors) {
-			const ref = tuple[0];
-			const elements = tuple[1];
+		const comparators = sort.map(function (criterion) {
+			if (typeof criterion == 'function') {
+				return function (a: string, b: string) {
+					return criterion(entry(a), entry(b));
+				};
+			}
 
-			fieldVectors[ref] = new Vector(elements);
-		}
+			const parts = /^\s*(\S+)(?:\s+(asc|desc))?\s*$/.exec(criterion);
 
-		for (const tuple of serializedInvertedIndex) {
-			const term = tuple[0],
-				posting = tuple[1];
+			if (parts === null) {
+				throw new Error(
+					'unrecognised sort criterion \'' + criterion + '\'',
+				);
+			}
+
+			const field = parts[1];
+
+			if (field == 'score') {
+				const direction = parts[2] == 'asc' ? 1 : -1;
+
+				return function (a: string, b: string) {
+					return direction * (scores[a] - scores[b]);
+				};
+			}
+
+			const direction = parts[2] == 'desc' ? -1 : 1;
+
+			return function (a: string, b: string) {
+				const storedA = documentStore[a],
+					storedB = documentStore[b],
+					valueA = storedA === undefined ? undefined : storedA[field],
+					valueB = storedB === undefined ? undefined : storedB[field];
+
+				// documents without a value come last in either direction
+				if (valueA == null || valueB == null) {
+					return (valueA == null ? 1 : 0) - (valueB == null ? 1 : 0);
+				}
+
+				return direction * compareValues(valueA, valueB);
+			};
+		});
+
+		return function (a: string, b: string) {
+			for (const comparator of comparators) {
+				const result = comparator(a, b);
+
+				if (result != 0) {
+					return result;
+				}
+			}
+
+			return a < b ? -1 : a > b ? 1 : 0;
+		};
+	}
+
+	/**
+	 * Counts the values of facet fields among the results of a query.
+	 *
+	 * @private
+	 * @param {string[]} docRefs - The refs of every document matching a query.
+	 * @param {string[]} fields - The facet fields to count values of.
+	 * @returns {Object<string, LunrIndex~FacetCount[]>}
+	 */
+	private countFacets(docRefs: string[], fields: string[]) {
+		const facets: { [field: string]: FacetCount[] } = {};
+
+		for (const field of fields) {
+			const fieldIndex = this.facetIndex[field],
+				counts: { [value: string]: number } = Object.create(null);
+
+			if (fieldIndex === undefined) {
+				throw new Error('unrecognised facet field \'' + field + '\'');
+			}
+
+			for (const docRef of docRefs) {
+				for (const value of fieldIndex[docRef] || []) {
+					counts[value] = (counts[value] || 0) + 1;
+				}
+			}
+
+			facets[field] = Object.keys(counts)
+				.map(function (value) {
+					return { value: value, count: counts[value] };
+				})
+				.sort(function (a, b) {
+					return b.count - a.count ||
+						(a.value < b.value ? -1 : a.value > b.value ? 1 : 0);
+				});
+		}
+
+		return facets;
+	}
+
+	/**
+	 * Creates a result for a matching document.
+	 *
+	 * @private
+	 * @param {string} ref - The reference of the matching document.
+	 * @param {number} score - The score of the document.
+	 * @param {MatchData} matchData - The metadata about the match.
+	 * @returns {LunrIndex~Result}
+	 */
+	private docMatch(ref: string, score: number, matchData: MatchData) {
+		const match: DocMatch = {
+			ref: ref,
+			score: score,
+			matchData: matchData,
+		};
+
+		if (ref in this.documentStore) {
+			match.stored = Object.assign({}, this.documentStore[ref]);
+		}
+
+		return match;
+	}
+
+	/**
+	 * Returns the pipelines the terms of a search are passed through, the
+	 * pipeline of the language of the search, or of every language when none is
+	 * passed.
+	 *
+	 * @private
+	 * @param {string} [language] - The language of the search.
+	 * @throws {Error} If the language is not one of the languages of the index.
+	 * @returns {Pipeline[]}
+	 */
+	private searchPipelines(language?: string): Pipeline[] {
+		const codes = Object.keys(this.languagePipelines);
+
+		if (codes.length > 0 && language !== undefined) {
+			if (this.languagePipelines[language] === undefined) {
+				throw new Error('unrecognised language \'' + language + '\'');
+			}
+
+			return [this.languagePipelines[language]];
+		} else if (codes.length > 0) {
+			return codes.map((code) => this.languagePipelines[code]);
+		}
+
+		return [this.pipeline];
+	}
+
+	/**
+	 * Builds a query with the passed function and matches it against the index.
+	 *
+	 * @private
+	 * @param {LunrIndex~queryBuilder} fn - A function that is used to build the query.
+	 * @param {LunrIndex~SearchOptions} [options] - The language and fuzzy matching of the query.
+	 * @throws {Error} If the language is not one of the languages of the index.
+	 */
+	private prepareQuery(
+		fn: (query: Query) => void,
+		options: SearchOptions = {},
+	) {
+		this.refresh();
+
+		const pipelines = this.searchPipelines(options.language);
+
+		const query = new Query(
+				this.queryFields(),
+				Object.keys(this.rangeIndexes),
+			),
+			context: QueryContext = {
+				queryVectors: {},
+				matchingFields: {},
+				termFieldCache: {},
+				proximityPenalties: [],
+				termBoosts: Object.create(null),
+				unscoredMatches: Object.create(null),
+				language: options.language,
+				pipelines: pipelines,
+				clauseTokens: new Map(),
+				fuzzy: options.fuzzy,
+				fuzziness: options.fuzziness,
+				expansionDecay: options.expansionDecay,
+			};
+
+		/*
+     * To support field level boosts a query vector is created per
+     * field. An empty vector is eagerly created to support negated
+     * queries.
+     */
+		for (const field of this.fields) {
+			context.queryVectors[field] = new Vector();
+		}
+
+		fn.call(query, query);
+		this.runClausePipelines(query, context);
+
+		return {
+			query: query,
+			context: context,
+			queryMatches: this.matchQuery(query, context, 1, true),
+		};
+	}
+
+	/**
+	 * Passes runs of adjacent term clauses through the search pipelines together,
+	 * so that pipeline functions matching several tokens, e.g. multi-word
+	 * synonyms, see every word of the run rather than each word on its own.
+	 * Clauses are in the same run when they search the same fields with the same
+	 * presence. Every processed token is matched by the clause of the token it
+	 * came from, tokens spanning several clauses by the first of them.
+	 *
+	 * @private
+	 * @param {Query} query - The query whose clauses are processed.
+	 * @param {QueryContext} context - The pipelines and processed tokens of the query.
+	 */
+	private runClausePipelines(query: Query, context: QueryContext) {
+		const runs: QueryClause[][] = [];
+		let previous: QueryClause | undefined;
+
+		for (const clause of query.clauses) {
+			if (clause.group) {
+				this.runClausePipelines(clause.group, context);
+			}
+
+			if (
+				!clause.usePipeline || clause.term === undefined ||
+				clause.phrase || clause.group || clause.range
+			) {
+				previous = undefined;
+				continue;
+			}
+
+			const sameRun = previous !== undefined &&
+				previous.presence === clause.presence &&
+				String(previous.fields) == String(clause.fields);
+
+			if (sameRun) {
+				runs[runs.length - 1].push(clause);
+			} else {
+				runs.push([clause]);
+			}
+
+			previous = clause;
+		}
+
+		for (const run of runs) {
+			// single clauses are passed through the pipelines by matchTerm
+			if (run.length < 2) {
+				continue;
+			}
+
+			const seen: { [term: string]: boolean }[] = run.map(function () {
+				return Object.create(null);
+			});
+
+			for (const clause of run) {
+				context.clauseTokens.set(clause, []);
+			}
+
+			for (const pipeline of context.pipelines) {
+				const processed = pipeline.run(run.map(function (clause, i) {
+					return new Token(clause.term || '', {
+						fields: clause.fields,
+						clause: i,
+					});
+				}));
+
+				for (const token of processed) {
+					const i = token.metadata.clause || 0,
+						tokens = context.clauseTokens.get(run[i]);
+
+					if (tokens !== undefined && !seen[i][token.toString()]) {
+						seen[i][token.toString()] = true;
+						tokens.push(token);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * An explanation of how the score of a document was calculated.
+	 *
+	 * The score of every field is the dot product of the query vector and the field vector,
+	 * normalised by the magnitude of the query vector, less any proximity penalty of phrases
+	 * whose words are apart. The weight of a term in the field vector is its weight under the
+	 * similarity of the index, BM25 by default, see Builder#similarity. The similarity is
+	 * always included, the values the weight was calculated from only when the index holds
+	 * document statistics, i.e. it was built in this process or serialised with them.
+	 *
+	 * @typedef {Object} LunrIndex~Explanation
+	 * @property {string} ref - The reference of the explained document.
+	 * @property {boolean} matched - Whether the document is part of the results of the query.
+	 * @property {number} score - The score of the document, the sum of its field scores.
+	 * @property {Object[]} fields - The score of every field of the document matching the query.
+	 * @property {string} fields.field - The name of the field.
+	 * @property {number} fields.score - The score of the field.
+	 * @property {number} fields.queryNorm - The magnitude of the query vector of the field.
+	 * @property {number} fields.proximityPenalty - The score taken off for phrases whose words are apart.
+	 * @property {Object[]} fields.terms - The query terms found in the field.
+	 * @property {string} fields.terms.term - The term as it was indexed.
+	 * @property {number[]} fields.terms.boosts - The boosts of the clauses that matched the term.
+	 * @property {number} fields.terms.queryWeight - The weight of the term in the query vector.
+	 * @property {number} fields.terms.fieldWeight - The weight of the term in the field vector.
+	 * @property {number} fields.terms.score - The contribution of the term to the field score.
+	 * @property {string} [fields.terms.similarity] - The label of the similarity the term was weighed with.
+	 * @property {Object<string, number>} [fields.terms.parameters] - The parameters of the similarity.
+	 * @property {number} [fields.terms.tf] - The number of times the term appears in the field.
+	 * @property {number} [fields.terms.idf] - The inverse document frequency of the term.
+	 * @property {number} [fields.terms.fieldLength] - The number of terms in the field.
+	 * @property {number} [fields.terms.averageFieldLength] - The average number of terms in the field across documents.
+	 * @property {number} [fields.terms.k1] - The term frequency saturation parameter, of the BM25 similarities.
+	 * @property {number} [fields.terms.b] - The field length normalisation parameter, of the BM25 similarities.
+	 * @property {number} [fields.terms.fieldBoost] - The build time boost of the field.
+	 * @property {number} [fields.terms.documentBoost] - The build time boost of the document.
+	 */
+
+	/**
+	 * Explains the score a document gets for a query, to help understand why results are
+	 * ranked the way they are.
+	 *
+	 * @param {LunrIndex~QueryString|LunrIndex~queryBuilder} query - A query string or a function that is used to build the query.
+	 * @param {string} ref - The reference of the document to explain.
+	 * @param {LunrIndex~SearchOptions} [options] - The options of the search, only those changing scores are used.
+	 * @throws {QueryParseError} If the passed query string cannot be parsed.
+	 * @returns {LunrIndex~Explanation}
+	 * @example <caption>explaining the score of a document</caption>
+	 * idx.explain('title:plant^10 green', 'b')
+	 */
+	explain(
+		query: string | ((query: Query) => void),
+		ref: string,
+		options: SearchOptions = {},
+	): Explanation {
+		if (typeof query == 'string') {
+			const queryString = query;
+
+			return this.explain(
+				function (q: Query) {
+					const parser = new QueryParser(queryString, q);
+					parser.parse();
+				},
+				ref,
+				options,
+			);
+		}
+
+		const prepared = this.prepareQuery(query, options),
+			context = prepared.context,
+			builder = this.builder,
+			explanation: Explanation = {
+				ref: ref,
+				matched: false,
+				score: 0,
+				fields: [],
+			};
+
+		if (builder) {
+			builder.calculateAverageFieldLengths();
+		}
+
+		if (
+			prepared.queryMatches.contains(ref) && context.unscoredMatches[ref]
+		) {
+			explanation.matched = true;
+		}
+
+		for (const field of this.fields) {
+			const fieldRef = new FieldRef(ref, field).toString(),
+				fieldVector = this.fieldVectors[fieldRef],
+				queryVector = context.queryVectors[field],
+				termBoosts = context.termBoosts[field] || {};
+
+			// only the fields matching the query are scored, as by query
+			if (
+				fieldVector === undefined ||
+				(!prepared.query.isNegated() &&
+					context.matchingFields[fieldRef] === undefined)
+			) {
+				continue;
+			}
+
+			if (
+				prepared.queryMatches.contains(ref) &&
+				(prepared.query.isNegated() ||
+					context.matchingFields[fieldRef] !== undefined)
+			) {
+				explanation.matched = true;
+			}
+
+			const fieldExplanation: FieldExplanation = {
+				field: field,
+				score: queryVector.similarity(fieldVector),
+				queryNorm: queryVector.magnitude(),
+				proximityPenalty: 0,
+				terms: [],
+			};
+
+			for (const penalty of context.proximityPenalties) {
+				if (penalty.field == field && ref in penalty.factors) {
+					fieldExplanation.proximityPenalty +=
+						(1 - penalty.factors[ref]) *
+						penalty.vector.dot(fieldVector) /
+						queryVector.magnitude();
+				}
+			}
+
+			fieldExplanation.score -= fieldExplanation.proximityPenalty;
+
+			for (const term of Object.keys(termBoosts)) {
+				const posting = this.fieldIndex(field)[term];
+
+				if (!Object.hasOwn(posting[field], ref)) {
+					continue;
+				}
+
+				// the weight of a single term is the dot product with a
+				// vector holding only that term
+				const termVector = new Vector([posting._index, 1]),
+					queryWeight = queryVector.dot(termVector),
+					fieldWeight = fieldVector.dot(termVector),
+					termExplanation: TermExplanation = {
+						term: term,
+						boosts: termBoosts[term],
+						queryWeight: queryWeight,
+						fieldWeight: fieldWeight,
+						score: queryWeight * fieldWeight /
+							queryVector.magnitude(),
+					};
+
+				if (this.similarity) {
+					termExplanation.similarity = this.similarity.label;
+					termExplanation.parameters = this.similarity.parameters;
+					termExplanation.k1 = this.similarity.parameters.k1;
+					termExplanation.b = this.similarity.parameters.b;
+				}
+
+				if (builder) {
+					const statistics = builder.termStatistics(
+						new FieldRef(ref, field),
+						term,
+					);
+
+					termExplanation.tf = statistics.tf;
+					termExplanation.idf = statistics.idf;
+					termExplanation.fieldLength = statistics.fieldLength;
+					termExplanation.averageFieldLength =
+						statistics.averageFieldLength;
+					termExplanation.fieldBoost = statistics.fieldBoost;
+					termExplanation.documentBoost = statistics.documentBoost;
+				}
+
+				fieldExplanation.terms.push(termExplanation);
+			}
+
+			explanation.score += fieldExplanation.score;
+			explanation.fields.push(fieldExplanation);
+		}
+
+		return explanation;
+	}
+
+	/**
+	 * Matches the clauses of a query, or of a group nested within a query,
+	 * against the index.
+	 *
+	 * A document matches when it matches every required clause, or at least one
+	 * optional clause if there are no required clauses, and none of the
+	 * prohibited clauses. Terms of clauses that can contribute to a match are
+	 * added to the query vectors and match data collected in the context.
+	 *
+	 * @private
+	 * @param {Query} query - The query, or group, whose clauses are matched.
+	 * @param {QueryContext} context - The query vectors and match data being collected.
+	 * @param {number} boost - The boost of the enclosing group.
+	 * @param {boolean} scoring - Whether matching terms contribute to the score, false within prohibited clauses.
+	 * @returns {LunrSet} The refs of the matching documents.
+	 */
+	private matchQuery(
+		query: Query,
+		context: QueryContext,
+		boost: number,
+		scoring: boolean,
+	): LunrSet {
+		let requiredMatches: LunrSet | undefined,
+			optionalMatches: LunrSet | undefined,
+			prohibitedMatches = emptyLunrSet;
+
+		for (const clause of query.clauses) {
+			const clauseBoost = boost * (clause.boost || 1),
+				clauseScoring = scoring &&
+					clause.presence !== Query.presence.PROHIBITED &&
+					clause.presence !== Query.presence.FILTER;
+			const rewritten = this.edgeNgramQuery(clause) ||
+				this.segmentTerm(clause);
+			let clauseMatches;
+
+			if (rewritten) {
+				clauseMatches = this.matchQuery(
+					rewritten,
+					context,
+					clauseBoost,
+					clauseScoring,
+				);
+			} else if (clause.group) {
+				clauseMatches = this.matchQuery(
+					clause.group,
+					context,
+					clauseBoost,
+					clauseScoring,
+				);
+			} else if (clause.range) {
+				clauseMatches = this.matchRange(clause, context, clauseScoring);
+			} else if (clause.phrase) {
+				clauseMatches = this.matchPhrase(
+					clause,
+					context,
+					clauseBoost,
+					clauseScoring,
+				);
+			} else {
+				clauseMatches = this.matchTerm(
+					clause,
+					context,
+					clauseBoost,
+					clauseScoring,
+				);
+			}
+
+			switch (clause.presence) {
+				case Query.presence.REQUIRED:
+				case Query.presence.FILTER:
+					requiredMatches = requiredMatches
+						? requiredMatches.intersect(clauseMatches)
+						: clauseMatches;
+					break;
+				case Query.presence.PROHIBITED:
+					prohibitedMatches = prohibitedMatches.union(clauseMatches);
+					break;
+				default:
+					optionalMatches = optionalMatches
+						? optionalMatches.union(clauseMatches)
+						: clauseMatches;
+			}
+		}
+
+		const matches = requiredMatches || optionalMatches || completeLunrSet;
+
+		return matches.intersect(prohibitedMatches.complement());
+	}
+
+	/**
+	 * Returns the fields searched by the terms of a query, every field but the
+	 * edge n-gram fields.
+	 *
+	 * @private
+	 * @returns {string[]}
+	 */
+	private queryFields(): string[] {
+		const edgeNgramFields = Object.keys(this.edgeNgramFields)
+			.map(edgeNgramField);
+
+		return this.fields.filter(function (field) {
+			return edgeNgramFields.indexOf(field) == -1;
+		});
+	}
+
+	/**
+	 * Returns the inverted index the terms of a field are looked up in, the edge
+	 * n-gram index for the edge n-gram fields.
+	 *
+	 * @private
+	 * @param {string} field - The name of the field.
+	 * @returns {Object}
+	 */
+	// deno-lint-ignore no-explicit-any
+	private fieldIndex(field: string): { [p: string]: any } {
+		return this.queryFields().indexOf(field) == -1
+			? this.edgeNgramIndex
+			: this.invertedIndex;
+	}
+
+	/**
+	 * Looks up a term with a trailing wildcard, e.g. `pla*`, in the edge n-grams
+	 * of the clause fields indexed with them, see Builder#field. The clause is
+	 * then matched as a group of a clause for the n-grams, and a clause expanding
+	 * the wildcard in the other fields.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - A clause of a query.
+	 * @returns {Query|undefined} The group of clauses, undefined when no field of the clause has edge n-grams of the length of the term.
+	 */
+	private edgeNgramQuery(clause: QueryClause): Query | undefined {
+		if (
+			clause.term === undefined || clause.editDistance ||
+			!/^[^*]+\*$/.test(clause.term)
+		) {
+			return undefined;
+		}
+
+		const prefix = clause.term.slice(0, -1),
+			length = Array.from(prefix).length,
+			ngramFields: string[] = [],
+			otherFields: string[] = [];
+
+		for (const field of clause.fields || []) {
+			const lengths = this.edgeNgramFields[field];
+
+			if (lengths && lengths.min <= length && length <= lengths.max) {
+				ngramFields.push(edgeNgramField(field));
+			} else {
+				otherFields.push(field);
+			}
+		}
+
+		if (ngramFields.length == 0) {
+			return undefined;
+		}
+
+		const group = new Query(
+			this.queryFields(),
+			Object.keys(this.rangeIndexes),
+		);
+
+		group.clause({ term: prefix, fields: ngramFields, usePipeline: false });
+
+		if (otherFields.length > 0) {
+			group.clause({
+				term: clause.term,
+				fields: otherFields,
+				usePipeline: false,
+			});
+		}
+
+		return group;
+	}
+
+	/**
+	 * Splits the term of a clause with the tokenizer of the index, for tokenizers
+	 * splitting words into several tokens, e.g. cjkTokenizer. The clause is then
+	 * matched as a group of clauses requiring every token, the way the term was
+	 * split in the documents containing it.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - A clause of a query.
+	 * @returns {Query|undefined} The group of tokens, undefined when the clause is not split.
+	 */
+	private segmentTerm(clause: QueryClause): Query | undefined {
+		if (
+			!clause.usePipeline || clause.phrase || clause.group || clause.range
+		) {
+			return undefined;
+		}
+
+		const tokens = this.tokenizer(clause.term);
+
+		if (tokens.length < 2) {
+			return undefined;
+		}
+
+		const segments = new Query(
+			this.queryFields(),
+			Object.keys(this.rangeIndexes),
+		);
+
+		for (const token of tokens) {
+			const segment: QueryClause = {
+				term: token.toString(),
+				fields: clause.fields,
+				presence: Query.presence.REQUIRED,
+			};
+
+			if (clause.editDistance) {
+				segment.editDistance = clause.editDistance;
+			}
+
+			segments.clause(segment);
+		}
+
+		return segments;
+	}
+
+	/**
+	 * Matches a single term clause against the index.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - A term clause.
+	 * @param {QueryContext} context - The query vectors and match data being collected.
+	 * @param {number} boost - The boost of the clause, including the boost of enclosing groups.
+	 * @param {boolean} scoring - Whether matching terms contribute to the score.
+	 * @returns {LunrSet} The refs of the documents containing the term in any of the clause fields.
+	 */
+	private matchTerm(
+		clause: QueryClause,
+		context: QueryContext,
+		boost: number,
+		scoring: boolean,
+	): LunrSet {
+		const matchingDocuments: { [docRef: string]: boolean } = Object
+			.create(null);
+
+		/*
+     * Unless the pipeline has been disabled for this term, which is
+     * the case for terms with wildcards, we need to pass the clause
+     * term through the search pipeline. A pipeline returns an array
+     * of processed terms. Pipeline functions may expand the passed
+     * term, which means we may end up performing multiple index lookups
+     * for a single query term. In an index of several languages the
+     * term is passed through the pipeline of every language searched.
+     * The terms of adjacent clauses have already been passed through the
+     * pipelines together, see runClausePipelines.
+     */
+		let tokens: Token[] = [];
+		const pipelined = context.clauseTokens.get(clause);
+
+		if (pipelined !== undefined) {
+			tokens = pipelined;
+		} else if (clause.usePipeline) {
+			const seen: { [term: string]: boolean } = Object.create(null);
+
+			for (const pipeline of context.pipelines) {
+				const processed = pipeline.run([
+					new Token(clause.term || '', { fields: clause.fields }),
+				]);
+
+				for (const token of processed) {
+					if (!seen[token.toString()]) {
+						seen[token.toString()] = true;
+						tokens.push(token);
+					}
+				}
+			}
+		} else {
+			tokens = [new Token(clause.term)];
+		}
+
+		for (const token of tokens) {
+			/*
+       * Each term returned from the pipeline needs to use the same query
+       * clause object, e.g. the same boost and or edit distance. The
+       * simplest way to do this is to re-use the clause object but mutate
+       * its term property. Pipeline functions can lower or raise the
+       * boost of the terms they return, e.g. for synonyms.
+       */
+			const termBoost = token.metadata.boost === undefined
+				? boost
+				: boost * token.metadata.boost;
+
+			clause.term = token.toString();
+
+			/*
+			 * Terms without an edit distance or wildcards of their own take the
+			 * fuzziness of the search. The expansions of terms with an 'auto' edit
+			 * distance score lower than the term itself, so that documents with the
+			 * term as it was searched come first. A fuzziness of 0 leaves terms as
+			 * they are.
+			 */
+			const fuzzyClause =
+				!('editDistance' in clause) && clause.usePipeline &&
+					context.fuzziness !== undefined && context.fuzziness !== 0
+					? Object.assign({}, clause, {
+						editDistance: context.fuzziness,
+					})
+					: clause;
+
+			/*
+			 * From the term in the clause we create a token set which will then
+			 * be used to intersect the indexes token set to get a list of terms
+			 * to lookup in the inverted index. Clauses of edge n-gram fields,
+			 * see edgeNgramQuery, look up their n-gram as it is in the edge
+			 * n-gram index.
+			 */
+			const index = this.fieldIndex((clause.fields || [])[0]);
+			let expandedTerms: string[];
+
+			if (index === this.edgeNgramIndex) {
+				expandedTerms = Object.hasOwn(index, clause.term)
+					? [clause.term]
+					: [];
+			} else {
+				expandedTerms = this.tokenSet.intersect(
+					TokenSet.fromClause(fuzzyClause, context.fuzzy),
+				).toArray();
+			}
+
+			/*
+       * If a term marked as required does not exist in the tokenSet, and
+       * the pipeline did not expand it into other terms, it is impossible
+       * for the clause to match any documents.
+       */
+			if (
+				expandedTerms.length === 0 && tokens.length === 1 &&
+				clause.presence === Query.presence.REQUIRED
+			) {
+				return emptyLunrSet;
+			}
+
+			for (const expandedTerm of expandedTerms) {
+				/*
+         * For each term get the posting and termIndex, this is required for
+         * building the query vector.
+         */
+				const posting = index[expandedTerm],
+					termIndex = posting._index,
+					expansionBoost = termBoost *
+						this.expansionWeight(
+							fuzzyClause,
+							expandedTerm,
+							context,
+						);
+
+				for (const field of clause.fields || []) {
+					/*
+           * For each field that this query term is scoped by (by default
+           * all fields are in scope) we need to get all the document refs
+           * that have this term in that field.
+           *
+           * The posting is the entry in the invertedIndex for the matching
+           * term from above.
+           */
+					const fieldPosting = posting[field],
+						matchingDocumentRefs = Object.keys(fieldPosting),
+						termField = expandedTerm + '/' + field;
+
+					for (const matchingDocumentRef of matchingDocumentRefs) {
+						matchingDocuments[matchingDocumentRef] = true;
+					}
+
+					/*
+           * Prohibited and filter matches should not be part of the query vector used for
+           * similarity scoring and no metadata should be extracted so we continue
+           * to the next field
+           */
+					if (!scoring) {
+						continue;
+					}
+
+					/*
+           * The query field vector is populated using the termIndex found for
+           * the term and a unit value with the appropriate boost applied.
+           * Using upsert because there could already be an entry in the vector
+           * for the term we are working with. In that case we just add the scores
+           * together.
+           */
+					context.queryVectors[field].upsert(
+						termIndex,
+						expansionBoost,
+						function (a, b) {
+							return 'string' === typeof a
+								? parseFloat(a)
+								: a + b;
+						},
+					);
+					addTermBoost(context, field, expandedTerm, expansionBoost);
+
+					/**
+					 * If we've already seen this term, field combo then we've already collected
+					 * the matching documents and metadata, no need to go through all that again
+					 */
+					if (context.termFieldCache[termField]) {
+						continue;
+					}
+
+					for (const matchingDocumentRef of matchingDocumentRefs) {
+						/*
+             * All metadata for this term/field/document triple
+             * are then extracted and collected into an instance
+             * of MatchData ready to be returned in the query
+             * results
+             */
+						const matchingFieldRef = new FieldRef(
+								matchingDocumentRef,
+								field,
+							).toString(),
+							metadata = fieldPosting[matchingDocumentRef],
+							fieldMatch =
+								context.matchingFields[matchingFieldRef];
+
+						if (fieldMatch === undefined) {
+							context.matchingFields[matchingFieldRef] =
+								new MatchData(
+									expandedTerm,
+									field,
+									metadata,
+								);
+						} else {
+							fieldMatch.add(expandedTerm, field, metadata);
+						}
+					}
+
+					context.termFieldCache[termField] = true;
+				}
+			}
+		}
+
+		return new LunrSet(Object.keys(matchingDocuments));
+	}
+
+	/**
+	 * Returns the weight of a term a clause was expanded into, relative to the
+	 * term of the clause. With an expansion decay the weight decreases with
+	 * every edit from a fuzzy term, or every character matched by the wildcards
+	 * of a term, so that documents with the term as it was searched come first.
+	 * Without an expansion decay only the expansions of terms with an 'auto' edit
+	 * distance weigh less.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - The term clause, with the edit distance it is matched with.
+	 * @param {string} expandedTerm - A term of the index the clause matches.
+	 * @param {QueryContext} context - The options of the query.
+	 * @returns {number}
+	 */
+	private expansionWeight(
+		clause: QueryClause,
+		expandedTerm: string,
+		context: QueryContext,
+	): number {
+		const term = clause.term || '';
+
+		if (expandedTerm == term) {
+			return 1;
+		}
+
+		if (context.expansionDecay === undefined) {
+			return clause.editDistance == 'auto' ? autoFuzzyWeight : 1;
+		}
+
+		const distance = term.indexOf('*') != -1
+			? Array.from(expandedTerm).length -
+				Array.from(term.replace(/\*/g, '')).length
+			: editDistance(term, expandedTerm);
+
+		return Math.pow(context.expansionDecay, distance);
+	}
+
+	/**
+	 * Matches a range clause against the typed fields of the index. Bounds that
+	 * are not of the field type match no documents.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - A range clause.
+	 * @param {QueryContext} context - The query vectors and match data being collected.
+	 * @param {boolean} scoring - Whether matching documents are returned when they match no terms.
+	 * @returns {LunrSet} The refs of the documents with a value within the range.
+	 */
+	private matchRange(
+		clause: QueryClause,
+		context: QueryContext,
+		scoring: boolean,
+	): LunrSet {
+		const range = clause.range || {},
+			matchingDocumentRefs: string[] = [];
+
+		for (const field of clause.fields || []) {
+			const rangeIndex = this.rangeIndexes[field];
+
+			if (rangeIndex === undefined) {
+				continue;
+			}
+
+			const min = range.min === undefined
+					? undefined
+					: rangeIndex.parse(range.min),
+				max = range.max === undefined
+					? undefined
+					: rangeIndex.parse(range.max);
+
+			if (
+				(min !== undefined && isNaN(min)) ||
+				(max !== undefined && isNaN(max))
+			) {
+				continue;
+			}
+
+			for (
+				const docRef of rangeIndex.range(
+					min,
+					max,
+					range.minInclusive !== false,
+					range.maxInclusive !== false,
+				)
+			) {
+				matchingDocumentRefs.push(docRef);
+
+				if (scoring) {
+					context.unscoredMatches[docRef] = true;
+				}
+			}
+		}
+
+		return new LunrSet(matchingDocumentRefs);
+	}
+
+	/**
+	 * Matches a phrase clause against the index.
+	 *
+	 * Every word of the phrase contributes to the query vector, metadata is only
+	 * collected for the documents containing the whole phrase.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - A phrase clause.
+	 * @param {QueryContext} context - The query vectors and match data being collected.
+	 * @param {number} boost - The boost of the clause, including the boost of enclosing groups.
+	 * @param {boolean} scoring - Whether matching terms contribute to the score.
+	 * @returns {LunrSet} The refs of the documents containing the phrase in any of the clause fields.
+	 */
+	private matchPhrase(
+		clause: QueryClause,
+		context: QueryContext,
+		boost: number,
+		scoring: boolean,
+	): LunrSet {
+		const slots = this.phraseSlots(clause, context),
+			phraseTerms: string[] = [],
+			matchingDocuments: { [docRef: string]: boolean } = Object
+				.create(null);
+
+		for (const slot of slots) {
+			for (const term of slot.terms) {
+				if (
+					Object.hasOwn(this.invertedIndex, term) &&
+					phraseTerms.indexOf(term) == -1
+				) {
+					phraseTerms.push(term);
+				}
+			}
+		}
+
+		for (const field of clause.fields || []) {
+			const distances = this.phraseMatches(
+					slots,
+					field,
+					clause.slop || 0,
+				),
+				matchingDocumentRefs = Object.keys(distances);
+
+			for (const matchingDocumentRef of matchingDocumentRefs) {
+				matchingDocuments[matchingDocumentRef] = true;
+			}
+
+			if (!scoring) {
+				continue;
+			}
+
+			const penalty: ProximityPenalty = {
+				field: field,
+				vector: new Vector(),
+				factors: Object.create(null),
+			};
+
+			for (const term of phraseTerms) {
+				const posting = this.invertedIndex[term];
+
+				penalty.vector.insert(posting._index, boost);
+
+				context.queryVectors[field].upsert(
+					posting._index,
+					boost,
+					function (a, b) {
+						return 'string' === typeof a ? parseFloat(a) : a + b;
+					},
+				);
+				addTermBoost(context, field, term, boost);
+
+				for (const docRef of matchingDocumentRefs) {
+					const metadata = posting[field][docRef],
+						fieldRef = new FieldRef(docRef, field).toString();
+
+					if (metadata === undefined) {
+						continue;
+					}
+
+					if (context.matchingFields[fieldRef] === undefined) {
+						context.matchingFields[fieldRef] = new MatchData(
+							term,
+							field,
+							metadata,
+						);
+					} else {
+						context.matchingFields[fieldRef].add(
+							term,
+							field,
+							metadata,
+						);
+					}
+				}
+			}
+
+			// The further apart the words of a phrase are the less they
+			// contribute to the score of a document.
+			for (const docRef of matchingDocumentRefs) {
+				if (distances[docRef] > 0) {
+					penalty.factors[docRef] = 1 / (1 + distances[docRef]);
+				}
+			}
+
+			if (Object.keys(penalty.factors).length > 0) {
+				context.proximityPenalties.push(penalty);
+			}
+		}
+
+		return new LunrSet(Object.keys(matchingDocuments));
+	}
+
+	/**
+	 * Splits the phrase of a clause into the terms expected at each position of
+	 * the phrase. The phrase is processed the same way document fields were when
+	 * they were indexed, a pipeline function may expand a word into several terms
+	 * sharing the same position.
+	 *
+	 * In an index of several languages the phrase is processed the way documents
+	 * of every language searched were, the words removed by any of them, e.g.
+	 * stop words, are left out of the phrase.
+	 *
+	 * @private
+	 * @param {Query~Clause} clause - A phrase clause.
+	 * @param {QueryContext} context - The languages being searched.
+	 * @returns {PhraseSlot[]}
+	 */
+	private phraseSlots(
+		clause: QueryClause,
+		context: QueryContext,
+	): PhraseSlot[] {
+		const slots: { [offset: number]: PhraseSlot } = {},
+			kept: { [offset: number]: number } = {};
+		let pipelines: Array<Pipeline | undefined> = context.pipelines;
+
+		if (!clause.usePipeline) {
+			pipelines = [undefined];
+		} else if (this.indexPipeline) {
+			const languagePipelines = this.languageIndexPipelines,
+				codes = Object.keys(languagePipelines);
+
+			if (codes.length == 0) {
+				pipelines = [this.indexPipeline];
+			} else if (context.language !== undefined) {
+				pipelines = [languagePipelines[context.language]];
+			} else {
+				pipelines = codes.map(function (code) {
+					return languagePipelines[code];
+				});
+			}
+		}
+
+		for (const pipeline of pipelines) {
+			let tokens = this.tokenizer(clause.term, { fields: clause.fields });
+
+			if (pipeline) {
+				tokens = pipeline.run(tokens);
+			}
+
+			const offsets: { [offset: number]: boolean } = {};
+
+			for (const token of tokens) {
+				const offset = token.metadata['index'];
+
+				if (slots[offset] === undefined) {
+					slots[offset] = { offset: offset, terms: [] };
+					kept[offset] = 0;
+				}
+
+				if (!offsets[offset]) {
+					offsets[offset] = true;
+					kept[offset] += 1;
+				}
+
+				if (slots[offset].terms.indexOf(token.toString()) == -1) {
+					slots[offset].terms.push(token.toString());
+				}
+			}
+		}
+
+		return Object.values(slots).filter(function (slot) {
+			return kept[slot.offset] == pipelines.length;
+		}).sort(function (a, b) {
+			return a.offset - b.offset;
+		});
+	}
+
+	/**
+	 * Finds the documents containing a phrase in a field. Phrases can only be
+	 * matched in documents whose token positions were stored in the index.
+	 *
+	 * Each word of the phrase suggests where the phrase starts in the document,
+	 * its position minus its offset within the phrase. The distance of a match is
+	 * how far apart the closest suggestions of all the words are, zero when the
+	 * words appear exactly as in the phrase.
+	 *
+	 * @private
+	 * @param {PhraseSlot[]} slots - The terms expected at each position of the phrase.
+	 * @param {string} field - The field to look for the phrase in.
+	 * @param {number} slop - The maximum distance of a match.
+	 * @returns {Object<string, number>} - The distance of the phrase in every matching document.
+	 */
+	private phraseMatches(
+		slots: PhraseSlot[],
+		field: string,
+		slop: number,
+	): { [docRef: string]: number } {
+		const matches: { [docRef: string]: number } = Object.create(null);
+		let candidates: { [docRef: string]: number[][] } | undefined;
+
+		for (const slot of slots) {
+			const starts: { [docRef: string]: number[] } = Object.create(null);
+
+			for (const term of slot.terms) {
+				if (!Object.hasOwn(this.invertedIndex, term)) {
+					continue;
+				}
+
+				const fieldPosting = this.invertedIndex[term][field];
+
+				for (const docRef in fieldPosting) {
+					const positions: number[] = fieldPosting[docRef]['index'];
+
+					if (positions === undefined) {
+						continue;
+					}
+
+					if (starts[docRef] === undefined) {
+						starts[docRef] = [];
+					}
+
+					for (const position of positions) {
+						starts[docRef].push(position - slot.offset);
+					}
+				}
+			}
+
+			// only documents containing every word of the phrase remain
+			const next: { [docRef: string]: number[][] } = Object.create(null);
+
+			for (const docRef in starts) {
+				if (candidates === undefined) {
+					next[docRef] = [starts[docRef]];
+				} else if (docRef in candidates) {
+					next[docRef] = candidates[docRef].concat([starts[docRef]]);
+				}
+			}
+
+			candidates = next;
+		}
+
+		for (const docRef in candidates) {
+			const distance = smallestRange(candidates[docRef]);
+
+			if (distance <= slop) {
+				matches[docRef] = distance;
+			}
+		}
+
+		return matches;
+	}
+
+	/**
+	 * A term of the index completing a prefix.
+	 * @typedef {Object} LunrIndex~Suggestion
+	 * @property {string} term - The term as it was indexed.
+	 * @property {number} documentCount - The number of documents containing the term.
+	 */
+
+	/**
+	 * Options for the suggestions of a prefix.
+	 * @typedef {Object} LunrIndex~SuggestOptions
+	 * @property {number} [limit=10] - The maximum number of suggestions returned.
+	 * @property {string} [field] - The field the suggested terms must appear in, by default any field.
+	 */
+
+	/**
+	 * Suggests the terms of the index starting with a prefix, e.g. to complete the
+	 * words of a search as they are typed. The terms are found by walking the token
+	 * set of the index from the prefix, and are ranked by the number of documents
+	 * containing them, the most frequent first.
+	 *
+	 * Suggestions are terms as they were indexed, i.e. processed by the pipeline,
+	 * the prefix is only lower cased, it is not processed by the search pipeline
+	 * since a stemmer would not recognise an incomplete word.
+	 *
+	 * @param {string} prefix - The beginning of the terms to suggest.
+	 * @param {LunrIndex~SuggestOptions} [options] - The number of suggestions and the field they come from.
+	 * @throws {Error} If the field is not one of the fields of the index.
+	 * @returns {LunrIndex~Suggestion[]}
+	 * @example
+	 * idx.suggest('pla', { limit: 5 }) // [{ term: 'plant', documentCount: 12 }, ...]
+	 */
+	suggest(prefix: string, options: SuggestOptions = {}): Suggestion[] {
+		this.refresh();
+
+		const fields = options.field === undefined
+				? this.queryFields()
+				: [options.field],
+			limit = options.limit === undefined ? 10 : options.limit,
+			documentCounts: { [term: string]: number } = Object.create(null),
+			start = prefix.toLowerCase();
+
+		if (this.queryFields().indexOf(fields[0]) == -1) {
+			throw new Error('unrecognised field \'' + options.field + '\'');
+		}
+
+		let node: TokenSet | undefined = this.tokenSet;
+
+		for (let i = 0; i < start.length && node; i++) {
+			node = node.edges[start.charAt(i)];
+		}
+
+		const stack = node ? [{ term: start, node: node }] : [];
+
+		while (stack.length > 0) {
+			const frame = stack.pop();
+
+			if (!frame) {
+				break;
+			}
+
+			// the terms found only in edge n-grams, or in other fields, are not
+			// suggested
+			const count = frame.node.final
+				? this.documentCount(frame.term, fields)
+				: 0;
+
+			if (count > 0) {
+				documentCounts[frame.term] = count;
+			}
+
+			for (const edge in frame.node.edges) {
+				stack.push({
+					term: frame.term + edge,
+					node: frame.node.edges[edge],
+				});
+			}
+		}
+
+		return topDocRefs(
+			Object.keys(documentCounts),
+			function (a, b) {
+				return documentCounts[b] - documentCounts[a] ||
+					(a < b ? -1 : a > b ? 1 : 0);
+			},
+			Math.max(limit, 0),
+		).map(function (term) {
+			return { term: term, documentCount: documentCounts[term] };
+		});
+	}
+
+	/**
+	 * Corrects the misspelled terms of a query string with the terms of the index,
+	 * e.g. to ask "did you mean" when a search finds no or few documents.
+	 *
+	 * A term matching no document in the fields it is searched in is replaced by the
+	 * closest term of the index that does. Terms within one edit of the misspelling
+	 * are preferred to terms within two edits, and among them the term contained in
+	 * the most documents. Terms of up to four characters are only corrected within
+	 * one edit. The fields, boosts, edit distances and presence of the corrected
+	 * terms are kept, and so are terms with wildcards, phrases and ranges.
+	 *
+	 * Corrections are terms as they were indexed, i.e. processed by the pipeline, so
+	 * a correction may be stemmed.
+	 *
+	 * @param {string} queryString - A string containing a lunr query.
+	 * @throws {QueryParseError} If the passed query string cannot be parsed.
+	 * @returns {string} The query string with its misspelled terms corrected, the
+	 * passed query string when none is misspelled.
+	 * @example
+	 * idx.spellcheck('title:plnt^10 +gardn') // 'title:plant^10 +garden'
+	 */
+	spellcheck(queryString: string): string {
+		this.refresh();
+
+		const query = new Query(
+				this.queryFields(),
+				Object.keys(this.rangeIndexes),
+			),
+			parser = new QueryParser(queryString, query),
+			pipelines = this.searchPipelines();
+
+		parser.parse();
+
+		let corrected = '', end = 0;
+
+		for (const term of parser.terms) {
+			const correction = this.correctTerm(term.clause, pipelines);
+
+			if (correction !== undefined) {
+				corrected += queryString.slice(end, term.lexeme.start) +
+					escapeTerm(correction);
+				end = term.lexeme.end;
+			}
+		}
+
+		return corrected + queryString.slice(end);
+	}
+
+	/**
+	 * Finds the correction of a term clause matching no document, see
+	 * LunrIndex#spellcheck.
+	 *
+	 * @private
+	 * @param {QueryClause} clause - The clause of the term.
+	 * @param {Pipeline[]} pipelines - The pipelines the term is passed through.
+	 * @returns {string|undefined} The correction, undefined when the term matches
+	 * documents or no close term does.
+	 */
+	private correctTerm(
+		clause: QueryClause,
+		pipelines: Pipeline[],
+	): string | undefined {
+		if (!clause.usePipeline || !clause.term) {
+			return;
+		}
+
+		const fields = clause.fields || [],
+			terms: string[] = [];
+
+		for (const pipeline of pipelines) {
+			const processed = pipeline.run([
+				new Token(clause.term, { fields: fields }),
+			]);
+
+			for (const token of processed) {
+				terms.push(token.toString());
+			}
+		}
+
+		for (const term of terms) {
+			const termTokenSet = TokenSet.fromClause(
+					Object.assign({}, clause, { term: term }),
+				),
+				matches = this.tokenSet.intersect(termTokenSet).toArray();
+
+			for (const match of matches) {
+				if (this.documentCount(match, fields) > 0) {
+					return;
+				}
+			}
+		}
+
+		for (let distance = 1; distance <= 2; distance++) {
+			const documentCounts: { [term: string]: number } = Object.create(
+				null,
+			);
+
+			for (const term of terms) {
+				if (distance > 1 && Array.from(term).length <= 4) {
+					continue;
+				}
+
+				const candidates = this.tokenSet
+					.intersect(TokenSet.fromFuzzyString(term, distance))
+					.toArray();
+
+				for (const candidate of candidates) {
+					const count = this.documentCount(candidate, fields);
+
+					if (count > 0) {
+						documentCounts[candidate] = count;
+					}
+				}
+			}
+
+			const best = topDocRefs(
+				Object.keys(documentCounts),
+				function (a, b) {
+					return documentCounts[b] - documentCounts[a] ||
+						(a < b ? -1 : a > b ? 1 : 0);
+				},
+				1,
+			);
+
+			if (best.length > 0) {
+				return best[0];
+			}
+		}
+	}
+
+	/**
+	 * Counts the distinct documents containing a term in any of the passed fields.
+	 *
+	 * @private
+	 * @param {string} term - The term as it was indexed.
+	 * @param {string[]} fields - The fields the term is looked up in.
+	 * @returns {number}
+	 */
+	private documentCount(term: string, fields: string[]): number {
+		const posting = this.invertedIndex[term],
+			documents: { [docRef: string]: boolean } = Object.create(null);
+
+		if (posting === undefined) {
+			return 0;
+		}
+
+		for (const field of fields) {
+			for (const docRef in posting[field]) {
+				documents[docRef] = true;
+			}
+		}
+
+		return Object.keys(documents).length;
+	}
+
+	/**
+	 * Statistics about the size of the index.
+	 *
+	 * @typedef {Object} LunrIndex~Stats
+	 * @property {number} documentCount - The number of documents in the index.
+	 * @property {number} termCount - The number of distinct terms in the index, edge n-grams included.
+	 * @property {Object<string, Object>} fields - The statistics of every field.
+	 * @property {number} fields.termCount - The number of distinct terms in the field.
+	 * @property {number} fields.postingCount - The number of documents of every term in the field, added up.
+	 * @property {Object} [fields.edgeNgrams] - The number of distinct edge n-grams and of their postings, for fields indexed with edge n-grams.
+	 */
+
+	/**
+	 * Returns statistics about the size of the index, e.g. to weigh the space taken by
+	 * the edge n-grams of a field against the space taken by its terms.
+	 *
+	 * @returns {LunrIndex~Stats}
+	 */
+	stats(): IndexStats {
+		this.refresh();
+
+		const documents: { [docRef: string]: boolean } = Object.create(null),
+			fields: { [field: string]: FieldStats } = Object.create(null),
+			sources: { [field: string]: string } = Object.create(null);
+
+		for (const fieldRef in this.fieldVectors) {
+			documents[FieldRef.fromString(fieldRef).docRef] = true;
+		}
+
+		for (const field of this.queryFields()) {
+			fields[field] = { termCount: 0, postingCount: 0 };
+		}
+
+		for (const field in this.edgeNgramFields) {
+			fields[field].edgeNgrams = { termCount: 0, postingCount: 0 };
+			sources[edgeNgramField(field)] = field;
+		}
+
+		for (const index of [this.invertedIndex, this.edgeNgramIndex]) {
+			for (const term in index) {
+				const posting = index[term];
+
+				for (const field of this.fields) {
+					const postingCount =
+							Object.keys(posting[field] || {}).length,
+						stats = sources[field] === undefined
+							? fields[field]
+							: fields[sources[field]].edgeNgrams;
+
+					if (postingCount > 0 && stats) {
+						stats.termCount += 1;
+						stats.postingCount += postingCount;
+					}
+				}
+			}
+		}
+
+		return {
+			documentCount: Object.keys(documents).length,
+			termCount: Object.keys(this.invertedIndex).length +
+				Object.keys(this.edgeNgramIndex).length,
+			fields: fields,
+		};
+	}
+
+	/**
+	 * Prepares the index for JSON serialization.
+	 *
+	 * The schema for this JSON blob will be described in a
+	 * separate JSON schema file.
+	 *
+	 * By default the serialised index is read only, an index that is updated after
+	 * it is loaded must be serialised with its document statistics, which roughly
+	 * doubles its size.
+	 *
+	 * @param {Object} [options] - Options for the serialised index.
+	 * @param {boolean} [options.updatable=false] - Whether the document statistics needed to add, remove and update documents are serialised.
+	 * @returns {Object}
+	 * @example <caption>serialising an index that is updated after loading</caption>
+	 * JSON.stringify(idx.toJSON({ updatable: true }))
+	 */
+	toJSON(options: SerializeOptions = {}): SerializedIndex {
+		this.refresh();
+
+		const invertedIndex = Object.keys(this.invertedIndex)
+			.sort()
+			.map((term) => {
+				return [term, this.invertedIndex[term]];
+			});
+
+		const fieldVectors = Object.keys(this.fieldVectors)
+			.map((ref) => {
+				return [ref, this.fieldVectors[ref].toJSON()];
+			});
+
+		const serialized: SerializedIndex = {
+			version: lunrVersion,
+			fields: this.fields,
+			fieldVectors: fieldVectors,
+			invertedIndex: invertedIndex,
+			pipeline: this.pipeline.toJSON(),
+		};
+
+		if (Object.keys(this.documentStore).length > 0) {
+			serialized.documentStore = this.documentStore;
+		}
+
+		if (Object.keys(this.rangeIndexes).length > 0) {
+			serialized.rangeIndexes = {};
+
+			for (const field in this.rangeIndexes) {
+				serialized.rangeIndexes[field] = this.rangeIndexes[field]
+					.toJSON();
+			}
+		}
+
+		if (Object.keys(this.facetIndex).length > 0) {
+			serialized.facetIndex = this.facetIndex;
+		}
+
+		if (Object.keys(this.edgeNgramFields).length > 0) {
+			serialized.edgeNgramFields = this.edgeNgramFields;
+			serialized.edgeNgramIndex = Object.keys(this.edgeNgramIndex)
+				.sort()
+				.map((ngram) => {
+					return [ngram, this.edgeNgramIndex[ngram]];
+				});
+		}
+
+		if (Object.keys(this.languagePipelines).length > 0) {
+			serialized.languagePipelines = {};
+
+			for (const code in this.languagePipelines) {
+				serialized.languagePipelines[code] = this
+					.languagePipelines[code]
+					.toJSON();
+			}
+		}
+
+		if (this.indexPipeline) {
+			serialized.indexPipeline = this.indexPipeline.toJSON();
+		}
+
+		if (Object.keys(this.languageIndexPipelines).length > 0) {
+			serialized.languageIndexPipelines = {};
+
+			for (const code in this.languageIndexPipelines) {
+				serialized.languageIndexPipelines[code] = this
+					.languageIndexPipelines[code]
+					.toJSON();
+			}
+		}
+
+		if (this.similarity) {
+			serialized.similarity = this.similarity;
+		}
+
+		// JSON.stringify passes the key of the index as options, which is read
+		// only as well
+		if (options.updatable && this.builder) {
+			serialized.builder = this.builder.toJSON();
+		}
+
+		return serialized;
+	}
+
+	/**
+	 * Loads a previously serialized LunrIndex
+	 *
+	 * Tokenizers are functions and are not serialised, an index built with
+	 * another tokenizer than the default one must be loaded with it, so that
+	 * searches and updated documents are split into tokens the same way.
+	 *
+	 * @param {Object} serializedIndex - A previously serialized LunrIndex
+	 * @param {Object} [options] - Options for the loaded index.
+	 * @param {Tokenizer} [options.tokenizer=tokenizer] - The tokenizer the index was built with.
+	 * @returns {LunrIndex}
+	 * @example
+	 * const idx = LunrIndex.load(serializedIndex, { tokenizer: cjkTokenizer })
+	 */
+	static load(
+		serializedIndex: SerializedIndex,
+		options: { tokenizer?: Tokenizer } = {},
+	) {
+		const fieldVectors: { [key: string]: Vector } = {},
+			serializedVectors = serializedIndex.fieldVectors,
+			// deno-lint-ignore no-explicit-any
+			invertedIndex: { [key: string]: any } = {},
+			serializedInvertedIndex = serializedIndex.invertedIndex,
+			// deno-lint-ignore no-explicit-any
+			edgeNgramIndex: { [key: string]: any } = {},
+			tokenSetBuilder = new TokenSetBuilder(),
+			pipeline = Pipeline.load(serializedIndex.pipeline),
+			documentStore = Object.assign(
+				Object.create(null),
+				serializedIndex.documentStore,
+			),
+			rangeIndexes: { [key: string]: RangeIndex } = Object.create(null),
+			facetIndex: { [key: string]: { [key: string]: string[] } } = Object
+				.create(null),
+			languagePipelines: { [code: string]: Pipeline } = Object.create(
+				null,
+			),
+			languageIndexPipelines: { [code: string]: Pipeline } = Object
+				.create(null);
+
+		if (serializedIndex.version != lunrVersion) {
+			console.warn(
+				'Version mismatch when loading serialised index. Current version of lunr \'' +
+					lunrVersion + '\' does not match serialized index \'' +
+					serializedIndex.version + '\'',
+			);
+		}
+
+		for (const tuple of serializedVectors) {
+			const ref = tuple[0];
+			const elements = tuple[1];
+
+			fieldVectors[ref] = new Vector(elements);
+		}
+
+		for (const tuple of serializedInvertedIndex) {
+			const term = tuple[0],
+				posting = tuple[1];
 
 			tokenSetBuilder.insert(term);
 			invertedIndex[term] = posting;
@@ -550,14 +2460,315 @@ export class LunrIndex {
 
 		tokenSetBuilder.finish();
 
+		for (const tuple of serializedIndex.edgeNgramIndex || []) {
+			edgeNgramIndex[tuple[0]] = tuple[1];
+		}
+
+		for (const field in serializedIndex.facetIndex) {
+			facetIndex[field] = Object.assign(
+				Object.create(null),
+				serializedIndex.facetIndex[field],
+			);
+		}
+
+		for (const field in serializedIndex.rangeIndexes) {
+			rangeIndexes[field] = RangeIndex.load(
+				serializedIndex.rangeIndexes[field],
+			);
+		}
+
+		for (const code in serializedIndex.languagePipelines) {
+			languagePipelines[code] = Pipeline.load(
+				serializedIndex.languagePipelines[code],
+			);
+		}
+
+		for (const code in serializedIndex.languageIndexPipelines) {
+			languageIndexPipelines[code] = Pipeline.load(
+				serializedIndex.languageIndexPipelines[code],
+			);
+		}
+
 		const attrs: LunrIndexAttrs = {
 			fields: serializedIndex.fields,
 			fieldVectors: fieldVectors,
 			invertedIndex: invertedIndex,
+			edgeNgramIndex: edgeNgramIndex,
 			tokenSet: tokenSetBuilder.root,
 			pipeline: pipeline,
+			documentStore: documentStore,
+			rangeIndexes: rangeIndexes,
+			facetIndex: facetIndex,
+			edgeNgramFields: Object.assign(
+				Object.create(null),
+				serializedIndex.edgeNgramFields,
+			),
+			languagePipelines: languagePipelines,
+			indexPipeline: serializedIndex.indexPipeline &&
+				Pipeline.load(serializedIndex.indexPipeline),
+			languageIndexPipelines: languageIndexPipelines,
+			similarity: serializedIndex.similarity,
+			tokenizer: options.tokenizer,
 		};
 
+		// Document statistics are only present in indexes serialised as
+		// updatable, without them the loaded index is read only.
+		if (serializedIndex.builder) {
+			const builder = Builder.load(
+				serializedIndex.builder,
+				invertedIndex,
+				pipeline,
+				edgeNgramIndex,
+			);
+
+			builder.fieldVectors = fieldVectors;
+			builder.tokenSet = attrs.tokenSet;
+			builder.documentStore = documentStore;
+			builder.rangeIndexes = rangeIndexes;
+			builder.facetIndex = facetIndex;
+			builder.languageSearchPipelines = languagePipelines;
+			builder.tokenizer = attrs.tokenizer || tokenizer;
+
+			for (const field in rangeIndexes) {
+				builder._rangeFields[field] = {
+					type: rangeIndexes[field].type,
+				};
+			}
+
+			attrs.invertedIndex = builder.invertedIndex;
+			attrs.edgeNgramIndex = builder.edgeNgramIndex;
+			attrs.indexPipeline = builder.pipeline;
+			attrs.languageIndexPipelines = builder.languagePipelines;
+			attrs.similarity = attrs.similarity || {
+				label: builder.currentSimilarity().label,
+				parameters: builder.currentSimilarity().parameters,
+			};
+			attrs.builder = builder;
+		}
+
 		return new LunrIndex(attrs);
 	}
 }
+
+/**
+ * Escapes the characters of a term that have a meaning in query strings, so
+ * that the term can be written into a query string.
+ *
+ * @private
+ * @param {string} term - The term to escape.
+ * @returns {string}
+ */
+function escapeTerm(term: string): string {
+	return term.replace(/[\\:~^*()"+\-#[{<>]/g, '\\$&');
+}
+
+/**
+ * Selects the refs of the first documents in the order of the passed compare
+ * function, sorted. Documents that compare equal keep their order. When fewer
+ * documents than there are refs are needed they are selected with a bounded
+ * heap, so only the selected documents are sorted.
+ *
+ * @private
+ * @param {string[]} docRefs - The refs of the matching documents.
+ * @param {function} compare - Compares two refs, negative when the first comes first.
+ * @param {number} count - The number of documents to select.
+ * @returns {string[]}
+ */
+function topDocRefs(
+	docRefs: string[],
+	compare: (a: string, b: string) => number,
+	count: number,
+): string[] {
+	if (count >= docRefs.length) {
+		return docRefs.slice().sort(compare);
+	}
+
+	// positions rank by the compare function, then by their order in docRefs
+	const ranksBefore = function (a: number, b: number) {
+			const result = compare(docRefs[a], docRefs[b]);
+			return result < 0 || (result == 0 && a < b);
+		},
+		heap: number[] = [];
+
+	// the heap keeps the best positions seen so far,
+	// with the worst of them at the root
+	for (let i = 0; i < docRefs.length && count > 0; i++) {
+		if (heap.length < count) {
+			let pos = heap.length;
+			heap.push(i);
+
+			while (pos > 0) {
+				const parent = (pos - 1) >> 1;
+
+				if (!ranksBefore(heap[parent], heap[pos])) {
+					break;
+				}
+
+				heap[pos] = heap[parent];
+				heap[parent] = i;
+				pos = parent;
+			}
+		} else if (ranksBefore(i, heap[0])) {
+			let pos = 0;
+			heap[0] = i;
+
+			while (true) {
+				const left = 2 * pos + 1, right = left + 1;
+				let worst = pos;
+
+				if (left < count && ranksBefore(heap[worst], heap[left])) {
+					worst = left;
+				}
+
+				if (right < count && ranksBefore(heap[worst], heap[right])) {
+					worst = right;
+				}
+
+				if (worst == pos) {
+					break;
+				}
+
+				heap[pos] = heap[worst];
+				heap[worst] = i;
+				pos = worst;
+			}
+		}
+	}
+
+	return heap.sort(function (a, b) {
+		return ranksBefore(a, b) ? -1 : 1;
+	}).map(function (i) {
+		return docRefs[i];
+	});
+}
+
+/**
+ * Compares two stored values, numbers and dates by their value and anything
+ * else by its string representation.
+ *
+ * @private
+ * @param {*} a - The first value.
+ * @param {*} b - The second value.
+ * @returns {number} - Negative when a comes before b.
+ */
+function compareValues(a: unknown, b: unknown): number {
+	const valueA = a instanceof Date ? a.getTime() : a,
+		valueB = b instanceof Date ? b.getTime() : b;
+
+	if (typeof valueA == 'number' && typeof valueB == 'number') {
+		return valueA - valueB;
+	}
+
+	const stringA = String(valueA), stringB = String(valueB);
+
+	return stringA < stringB ? -1 : stringA > stringB ? 1 : 0;
+}
+
+/**
+ * Counts the edits between two strings, insertions, deletions, substitutions
+ * and transpositions of adjacent characters, as matched by fuzzy terms.
+ *
+ * @private
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {number}
+ */
+function editDistance(a: string, b: string): number {
+	const distances: number[][] = [];
+
+	for (let i = 0; i <= a.length; i++) {
+		distances[i] = [i];
+	}
+
+	for (let j = 1; j <= b.length; j++) {
+		distances[0][j] = j;
+	}
+
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			distances[i][j] = Math.min(
+				distances[i - 1][j] + 1,
+				distances[i][j - 1] + 1,
+				distances[i - 1][j - 1] +
+					(a.charAt(i - 1) == b.charAt(j - 1) ? 0 : 1),
+			);
+
+			if (
+				i > 1 && j > 1 && a.charAt(i - 1) == b.charAt(j - 2) &&
+				a.charAt(i - 2) == b.charAt(j - 1)
+			) {
+				distances[i][j] = Math.min(
+					distances[i][j],
+					distances[i - 2][j - 2] + 1,
+				);
+			}
+		}
+	}
+
+	return distances[a.length][b.length];
+}
+
+/**
+ * Finds the smallest range of numbers that includes at least one number from
+ * each of the passed lists, walking the sorted lists in step.
+ *
+ * @private
+ * @param {number[][]} lists - The lists of numbers.
+ * @returns {number} - The size of the smallest range.
+ */
+function smallestRange(lists: number[][]): number {
+	const sorted = lists.map(function (list) {
+			return list.slice().sort(function (a, b) {
+				return a - b;
+			});
+		}),
+		pointers = sorted.map(function () {
+			return 0;
+		});
+	let best = Infinity;
+
+	while (true) {
+		let lowest = 0, highest = -Infinity;
+
+		for (let i = 0; i < sorted.length; i++) {
+			const value = sorted[i][pointers[i]];
+
+			if (value < sorted[lowest][pointers[lowest]]) {
+				lowest = i;
+			}
+
+			if (value > highest) {
+				highest = value;
+			}
+		}
+
+		best = Math.min(best, highest - sorted[lowest][pointers[lowest]]);
+		pointers[lowest] += 1;
+
+		if (best == 0 || pointers[lowest] == sorted[lowest].length) {
+			return best;
+		}
+	}
+}
+
+/**
+ * Records the boost of a clause that added a term to the query vector of a
+ * field, so that the weight of the term can be explained.
+ *
+ * @private
+ */
+function addTermBoost(
+	context: QueryContext,
+	field: string,
+	term: string,
+	boost: number,
+) {
+	const termBoosts = context.termBoosts[field] ||
+		(context.termBoosts[field] = Object.create(null));
+
+	if (termBoosts[term] === undefined) {
+		termBoosts[term] = [];
+	}
+
+	termBoosts[term].push(boost);
+}
@@ -1,5 +1,5 @@
 export class LunrSet {
-	private readonly elements: { [k: string]: boolean } = {};
+	protected readonly elements: { [k: string]: boolean } = {};
 	private length: number;
 
 	constructor(elements?: string[]) {
@@ -44,6 +44,10 @@ export class LunrSet {
 			return other;
 		}
 
+		if (other instanceof ComplementLunrSet) {
+			return other.intersect(this);
+		}
+
 		if (this.length < other.length) {
 			a = this;
 			b = other;
@@ -79,10 +83,75 @@ export class LunrSet {
 			return this;
 		}
 
+		if (other instanceof ComplementLunrSet) {
+			return other.union(this);
+		}
+
 		return new LunrSet(
 			Object.keys(this.elements).concat(Object.keys(other.elements)),
 		);
 	}
+
+	/**
+	 * Returns a new set containing the elements of this set that are not present
+	 * in the specified set.
+	 *
+	 * @param {LunrSet} other - set whose elements are removed from this set.
+	 * @return {LunrSet} a new set that is the difference of this and the specified set.
+	 */
+	difference(other: LunrSet): LunrSet {
+		return new LunrSet(
+			Object.keys(this.elements).filter(function (element) {
+				return !other.contains(element);
+			}),
+		);
+	}
+
+	/**
+	 * Returns a set containing every element that is not present in this set.
+	 *
+	 * @return {LunrSet} the complement of this set.
+	 */
+	complement(): LunrSet {
+		return new ComplementLunrSet(this);
+	}
+}
+
+/**
+ * A set that contains all elements except the elements of another set.
+ */
+class ComplementLunrSet extends LunrSet {
+	constructor(private readonly excluded: LunrSet) {
+		super();
+	}
+
+	intersect(other: LunrSet): LunrSet {
+		if (other instanceof ComplementLunrSet) {
+			return this.excluded.union(other.excluded).complement();
+		}
+
+		return other.difference(this.excluded);
+	}
+
+	union(other: LunrSet): LunrSet {
+		if (other instanceof ComplementLunrSet) {
+			return this.excluded.intersect(other.excluded).complement();
+		}
+
+		return this.excluded.difference(other).complement();
+	}
+
+	difference(other: LunrSet): LunrSet {
+		return this.excluded.union(other).complement();
+	}
+
+	complement(): LunrSet {
+		return this.excluded;
+	}
+
+	contains(object: string): boolean {
+		return !this.excluded.contains(object);
+	}
 }
 
 /**
@@ -97,6 +166,14 @@ class EmptyLunrSet extends LunrSet {
 		return other;
 	}
 
+	difference(other: LunrSet): LunrSet {
+		return this;
+	}
+
+	complement(): LunrSet {
+		return completeLunrSet;
+	}
+
 	contains(object: string): boolean {
 		return false;
 	}
@@ -114,6 +191,14 @@ class CompleteLunrSet extends LunrSet {
 		return this;
 	}
 
+	difference(other: LunrSet): LunrSet {
+		return other.complement();
+	}
+
+	complement(): LunrSet {
+		return emptyLunrSet;
+	}
+
 	contains(object: string): boolean {
 		return true;
 	}
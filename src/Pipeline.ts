@@ -46,6 +46,9 @@ export class Pipeline {
 	 * Multiple tokens can be returned by returning an array of tokens. Each token will be passed
 	 * to any downstream pipeline functions and all will returned tokens will be added to the index.
 	 *
+	 * When searching, a token with `boost` metadata weights the terms it matches by that boost,
+	 * e.g. to score synonyms of a word lower than the word itself.
+	 *
 	 * Any number of pipeline functions may be chained together using a Pipeline.
 	 *
 	 * @interface PipelineFunction
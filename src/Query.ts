@@ -22,6 +22,7 @@
  * })
  */
 import { Token } from './Token.ts';
+import { FuzzyOptions } from './TokenSet.ts';
 
 export enum QueryWildCard {
 	NONE = 0,
@@ -29,14 +30,26 @@ export enum QueryWildCard {
 	TRAILING = 1 << 1,
 }
 
+export interface QueryRange {
+	min?: number | string | Date;
+	max?: number | string | Date;
+	minInclusive?: boolean;
+	maxInclusive?: boolean;
+}
+
 export interface QueryClause {
-	editDistance?: number;
+	editDistance?: number | 'auto';
+	fuzzy?: FuzzyOptions;
 	wildcard?: QueryWildCard;
 	fields?: string[];
 	boost?: number;
 	usePipeline?: boolean;
 	term?: string;
 	presence?: number;
+	phrase?: boolean;
+	slop?: number;
+	group?: Query;
+	range?: QueryRange;
 }
 
 /**
@@ -49,13 +62,16 @@ export interface QueryClause {
  * @constructor
  * @property {Query~Clause[]} clauses - An array of query clauses.
  * @property {string[]} allFields - An array of all available fields in a LunrIndex.
+ * @property {string[]} rangeFields - An array of the typed fields in a LunrIndex, which support range queries.
  */
 export class Query {
 	public readonly clauses: QueryClause[] = [];
 	public readonly allFields: string[];
+	public readonly rangeFields: string[];
 
-	constructor(allFields: string[]) {
+	constructor(allFields: string[], rangeFields: string[] = []) {
 		this.allFields = allFields;
+		this.rangeFields = rangeFields;
 	}
 
 	/**
@@ -86,8 +102,33 @@ export class Query {
 		 * this term will not be returned.
 		 */
 		PROHIBITED: 3,
+
+		/**
+		 * Term's presence in a document is required, like REQUIRED, but the term
+		 * does not contribute to the score or match data of the document.
+		 */
+		FILTER: 4,
 	};
 
+	/**
+	 * Returns the edit distance of a term with an 'auto' edit distance, from the
+	 * length of the term: no edits for terms of up to two characters, one edit
+	 * for terms of up to five characters, and two edits for longer terms.
+	 *
+	 * @param {string} term - The term of a clause.
+	 * @returns {number}
+	 * @see Query~Clause
+	 */
+	static autoEditDistance(term: string): number {
+		const length = Array.from(term).length;
+
+		if (length <= 2) {
+			return 0;
+		}
+
+		return length <= 5 ? 1 : 2;
+	}
+
 	/**
 	 * A single clause in a {@link Query} contains a term and details on how to
 	 * match that term against a {@link LunrIndex}.
@@ -95,10 +136,26 @@ export class Query {
 	 * @typedef {Object} Query~Clause
 	 * @property {string[]} fields - The fields in an index this clause should be matched against.
 	 * @property {number} [boost=1] - Any boost that should be applied when matching this clause.
-	 * @property {number} [editDistance] - Whether the term should have fuzzy matching applied, and how fuzzy the match should be.
+	 * @property {number|string} [editDistance] - Whether the term should have fuzzy matching applied, and how fuzzy the match should be, 'auto' for an edit distance depending on the length of the term, see Query.autoEditDistance.
+	 * @property {TokenSet~FuzzyOptions} [fuzzy] - The costs of the edits and prefix length of the fuzzy matching, see TokenSet.fromFuzzyString.
 	 * @property {boolean} [usePipeline] - Whether the term should be passed through the search pipeline.
 	 * @property {number} [wildcard=QueryWildCard.NONE] - Whether the term should have wildcards appended or prepended.
 	 * @property {number} [presence=Query.presence.OPTIONAL] - The terms presence in any matching documents.
+	 * @property {boolean} [phrase=false] - Whether the term is a phrase whose words must appear consecutively.
+	 * @property {number} [slop=0] - How many positions the words of a phrase may be moved by and still match.
+	 * @property {Query} [group] - A nested query whose clauses are matched together in place of a term.
+	 * @property {Query~Range} [range] - The range the value of a typed field must be within, in place of a term.
+	 */
+
+	/**
+	 * The bounds of a range clause. Bounds are numbers for number fields, and dates, timestamps
+	 * or date strings for date fields, a missing bound leaves that side of the range open.
+	 *
+	 * @typedef {Object} Query~Range
+	 * @property {number|string|Date} [min] - The lower bound of the range.
+	 * @property {number|string|Date} [max] - The upper bound of the range.
+	 * @property {boolean} [minInclusive=true] - Whether values equal to the lower bound are within the range.
+	 * @property {boolean} [maxInclusive=true] - Whether values equal to the upper bound are within the range.
 	 */
 
 	/**
@@ -128,7 +185,10 @@ export class Query {
 			clause.wildcard = QueryWildCard.NONE;
 		}
 
-		const wildcard = clause.wildcard || QueryWildCard.NONE;
+		// wildcards are not supported within phrases, groups and ranges
+		const wildcard = clause.phrase || clause.group || clause.range
+			? QueryWildCard.NONE
+			: clause.wildcard || QueryWildCard.NONE;
 
 		if (
 			(wildcard & QueryWildCard.LEADING) &&
@@ -156,14 +216,22 @@ export class Query {
 
 	/**
 	 * A negated query is one in which every clause has a presence of
-	 * prohibited. These queries require some special processing to return
-	 * the expected results.
+	 * prohibited or filter, or is a group that is itself negated. These
+	 * queries have no clause that contributes to the score and require
+	 * some special processing to return the expected results.
 	 *
 	 * @returns boolean
 	 */
 	isNegated(): boolean {
 		for (const clause of this.clauses) {
-			if (clause.presence !== Query.presence.PROHIBITED) {
+			if (
+				clause.presence === Query.presence.PROHIBITED ||
+				clause.presence === Query.presence.FILTER
+			) {
+				continue;
+			}
+
+			if (!clause.group || !clause.group.isNegated()) {
 				return false;
 			}
 		}
@@ -212,4 +280,100 @@ export class Query {
 
 		return this;
 	}
+
+	/**
+	 * Adds a phrase to the current query. A phrase matches documents where all of
+	 * its words appear consecutively, in the same order, within a single field.
+	 *
+	 * A slop relaxes the phrase into a proximity query, the words may then appear
+	 * in any order as long as the total number of positions they have to be moved
+	 * by to form the phrase does not exceed the slop. Documents where the words
+	 * appear closer together score higher.
+	 *
+	 * The phrase is tokenized and passed through the same pipeline that was used
+	 * to index documents, so the words are compared as they were indexed. Phrase
+	 * matching relies on token positions, only indexes built with
+	 * {@link Builder#storePositions} can match phrases.
+	 *
+	 * @param {string} phrase - The phrase to add to the query.
+	 * @param {object} [options] - Any additional properties to add to the query clause.
+	 * @returns {Query}
+	 * @see Query#clause
+	 * @see Query~Clause
+	 * @example <caption>adding a phrase scoped to the title field</caption>
+	 * query.phrase("colonel mustard", { fields: ["title"] })
+	 * @example <caption>words within three positions of each other</caption>
+	 * query.phrase("quick fox", { slop: 3 })
+	 */
+	phrase(phrase: string, options?: QueryClause) {
+		const clause: QueryClause = options || {};
+		clause.term = phrase;
+		clause.phrase = true;
+
+		this.clause(clause);
+
+		return this;
+	}
+
+	/**
+	 * Adds a group of clauses to the current query. The clauses of a group are
+	 * matched together and the group takes part in the query like a single term,
+	 * so a group can be required, prohibited or boosted as a whole.
+	 *
+	 * A query builder function is yielded a new Query for the group, which
+	 * should be used to add the clauses of the group, including further nested
+	 * groups.
+	 *
+	 * @param {LunrIndex~queryBuilder} fn - A function that is used to build the group.
+	 * @param {object} [options] - Any additional properties to add to the query clause.
+	 * @returns {Query}
+	 * @see Query#clause
+	 * @see Query~Clause
+	 * @example <caption>requiring a term in either the title or the body</caption>
+	 * query.group(function (group) {
+	 *   group.term("api", { fields: ["title"] })
+	 *   group.term("api", { fields: ["body"] })
+	 * }, { presence: Query.presence.REQUIRED })
+	 */
+	group(fn: (query: Query) => void, options?: QueryClause) {
+		const clause: QueryClause = options || {},
+			group = new Query(this.allFields, this.rangeFields);
+
+		fn.call(group, group);
+		clause.group = group;
+
+		this.clause(clause);
+
+		return this;
+	}
+
+	/**
+	 * Adds a range clause to the current query. A range matches documents whose
+	 * value of a typed field, see {@link Builder#field}, is within the range.
+	 *
+	 * Ranges do not contribute to the score of documents, combined with terms
+	 * they narrow or widen the matching documents depending on their presence.
+	 *
+	 * @param {string} field - The typed field the range applies to.
+	 * @param {Query~Range} range - The bounds of the range.
+	 * @param {object} [options] - Any additional properties to add to the query clause.
+	 * @returns {Query}
+	 * @see Query#clause
+	 * @see Query~Clause
+	 * @example <caption>prices between 10 and 100</caption>
+	 * query.range("price", { min: 10, max: 100 })
+	 * @example <caption>documents published this year</caption>
+	 * query.range("date", { min: new Date("2024-01-01") }, {
+	 *   presence: Query.presence.REQUIRED
+	 * })
+	 */
+	range(field: string, range: QueryRange, options?: QueryClause) {
+		const clause: QueryClause = options || {};
+		clause.fields = [field];
+		clause.range = range;
+
+		this.clause(clause);
+
+		return this;
+	}
 }
@@ -12,6 +12,7 @@ export class QueryLexer {
 	pos = 0;
 	start = 0;
 	escapeCharPositions: number[] = [];
+	groupDepth = 0;
 	private length: number;
 
 	constructor(private str: string) {
@@ -54,6 +55,27 @@ export class QueryLexer {
 		this.start = this.pos;
 	}
 
+	// Boolean operators are only recognised when they are not
+	// escaped, e.g. `\AND` is a search for the term "and".
+	emitTerm() {
+		const str = this.str.slice(this.start, this.pos);
+
+		if (QueryLexer.operators.indexOf(str) != -1) {
+			this.emit(QueryLexer.OPERATOR);
+		} else {
+			this.emit(QueryLexer.TERM);
+		}
+	}
+
+	// Ranges are only recognised directly after a field, e.g.
+	// `price:[10 TO 20]` or `date:>2020-01-01`.
+	afterField() {
+		const lexeme = this.lexemes[this.lexemes.length - 1];
+
+		return lexeme !== undefined && lexeme.type == QueryLexer.FIELD &&
+			lexeme.end + 1 == this.start;
+	}
+
 	escapeCharacter() {
 		this.escapeCharPositions.push(this.pos - 1);
 		this.pos += 1;
@@ -108,6 +130,13 @@ export class QueryLexer {
 	static EDIT_DISTANCE = 'EDIT_DISTANCE';
 	static BOOST = 'BOOST';
 	static PRESENCE = 'PRESENCE';
+	static PHRASE = 'PHRASE';
+	static OPERATOR = 'OPERATOR';
+	static GROUP_START = 'GROUP_START';
+	static GROUP_END = 'GROUP_END';
+	static RANGE = 'RANGE';
+
+	static operators = ['AND', 'OR', 'NOT'];
 
 	static lexField(lexer: QueryLexer) {
 		lexer.backup();
@@ -119,7 +148,7 @@ export class QueryLexer {
 	static lexTerm(lexer: QueryLexer) {
 		if (lexer.width() > 1) {
 			lexer.backup();
-			lexer.emit(QueryLexer.TERM);
+			lexer.emitTerm();
 		}
 
 		lexer.ignore();
@@ -143,9 +172,78 @@ export class QueryLexer {
 		return QueryLexer.lexText;
 	}
 
+	static lexPhrase(lexer: QueryLexer) {
+		// skip the opening quote
+		lexer.ignore();
+
+		while (true) {
+			const char = lexer.next();
+
+			// an unterminated phrase runs to the end of the query
+			if (char == QueryLexer.EOS) {
+				lexer.emit(QueryLexer.PHRASE);
+				return;
+			}
+
+			// Escape character is '\'
+			if (char.charCodeAt(0) == 92) {
+				lexer.escapeCharacter();
+				continue;
+			}
+
+			if (char == '"') {
+				lexer.backup();
+				lexer.emit(QueryLexer.PHRASE);
+				lexer.next();
+				lexer.ignore();
+				return QueryLexer.lexText;
+			}
+		}
+	}
+
+	static lexGroupEnd(lexer: QueryLexer) {
+		lexer.backup();
+		if (lexer.width() > 0) {
+			lexer.emitTerm();
+		}
+
+		lexer.next();
+		lexer.emit(QueryLexer.GROUP_END);
+		lexer.groupDepth -= 1;
+		return QueryLexer.lexText;
+	}
+
+	static lexRange(lexer: QueryLexer) {
+		const open = lexer.str.charAt(lexer.start);
+
+		while (true) {
+			const char = lexer.next();
+
+			if (char == QueryLexer.EOS) {
+				lexer.emit(QueryLexer.RANGE);
+				return;
+			}
+
+			// a bracketed range runs to its closing bracket, a
+			// comparison to the end of the value
+			if (open == '[' || open == '{') {
+				if (char == ']' || char == '}') {
+					lexer.emit(QueryLexer.RANGE);
+					return QueryLexer.lexText;
+				}
+			} else if (
+				char.match(/\s/) || (char == ')' && lexer.groupDepth > 0)
+			) {
+				lexer.backup();
+				lexer.emit(QueryLexer.RANGE);
+				return QueryLexer.lexText;
+			}
+		}
+	}
+
 	static lexEOS(lexer: QueryLexer) {
 		if (lexer.width() > 0) {
-			lexer.emit(QueryLexer.TERM);
+			lexer.emitTerm();
 		}
 	}
 
@@ -212,6 +310,40 @@ export class QueryLexer {
 				return QueryLexer.lexText;
 			}
 
+			// "#" indicates term presence is a filter
+			// checking for length to ensure that only
+			// leading "#" are considered
+			if (char == '#' && lexer.width() === 1) {
+				lexer.emit(QueryLexer.PRESENCE);
+				return QueryLexer.lexText;
+			}
+
+			// a '"' at the start of a term opens a phrase
+			if (char == '"' && lexer.width() === 1) {
+				return QueryLexer.lexPhrase;
+			}
+
+			// '[', '{', '<' and '>' right after a field start a range
+			if (
+				'[{<>'.indexOf(char) != -1 && lexer.width() === 1 &&
+				lexer.afterField()
+			) {
+				return QueryLexer.lexRange;
+			}
+
+			// a '(' at the start of a term opens a group
+			if (char == '(' && lexer.width() === 1) {
+				lexer.emit(QueryLexer.GROUP_START);
+				lexer.groupDepth += 1;
+				return QueryLexer.lexText;
+			}
+
+			// a ')' closes the innermost open group, outside of
+			// a group it is part of the term
+			if (char == ')' && lexer.groupDepth > 0) {
+				return QueryLexer.lexGroupEnd;
+			}
+
 			if (char.match(QueryLexer.termSeparator)) {
 				return QueryLexer.lexTerm;
 			}
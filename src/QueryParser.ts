@@ -2,11 +2,26 @@ import { Lexem, QueryLexer } from './QueryLexer.ts';
 import { QueryParseError } from './QueryParseError.ts';
 import { Query, QueryClause } from './Query.ts';
 
+interface QueryParserGroup {
+	clauses: QueryClause[];
+	operators: string[];
+	operator?: string;
+	clause: QueryClause;
+	fields?: string[];
+	lexeme?: Lexem;
+}
+
 export class QueryParser {
 	currentClause: QueryClause = {};
 	lexemeIdx = 0;
+	// the clause of every term along with its lexeme, in the order of the
+	// query string, e.g. to rewrite the terms of a query string
+	terms: { clause: QueryClause; lexeme: Lexem }[] = [];
 	private lexer: QueryLexer;
 	private lexemes: Lexem[] = [];
+	private groups: QueryParserGroup[] = [
+		{ clauses: [], operators: [], clause: {} },
+	];
 
 	constructor(str: string, private query: Query) {
 		this.lexer = new QueryLexer(str);
@@ -26,6 +41,17 @@ export class QueryParser {
 			state = newState;
 		}
 
+		if (this.groups.length > 1) {
+			const lexeme = this.currentGroup().lexeme as Lexem;
+			throw new QueryParseError(
+				'unclosed group',
+				lexeme.start,
+				lexeme.end,
+			);
+		}
+
+		this.addClauses(this.query, this.groups[0]);
+
 		return this.query;
 	}
 
@@ -40,11 +66,66 @@ export class QueryParser {
 	}
 
 	nextClause() {
-		const completedClause = this.currentClause;
-		this.query.clause(completedClause);
+		const completedClause = this.currentClause,
+			group = this.currentGroup();
+
+		// clauses within a field scoped group default to that field
+		if (!('fields' in completedClause) && group.fields) {
+			completedClause.fields = group.fields;
+		}
+
+		group.clauses.push(completedClause);
+		group.operators.push(group.operator || '');
+		group.operator = undefined;
 		this.currentClause = {};
 	}
 
+	private currentGroup() {
+		return this.groups[this.groups.length - 1];
+	}
+
+	// Clauses joined by AND form a conjunction, every clause of a
+	// conjunction is required unless it has an explicit presence.
+	// Conjunctions are joined by OR, either explicitly or by being
+	// adjacent, a conjunction next to other clauses is nested in
+	// its own group so that it can be optional as a whole.
+	private addClauses(query: Query, group: QueryParserGroup) {
+		const conjunctions: QueryClause[][] = [];
+
+		for (let i = 0; i < group.clauses.length; i++) {
+			if (group.operators[i] == 'AND') {
+				conjunctions[conjunctions.length - 1].push(group.clauses[i]);
+			} else {
+				conjunctions.push([group.clauses[i]]);
+			}
+		}
+
+		for (const conjunction of conjunctions) {
+			if (conjunction.length == 1) {
+				query.clause(conjunction[0]);
+				continue;
+			}
+
+			for (const clause of conjunction) {
+				if (!('presence' in clause)) {
+					clause.presence = Query.presence.REQUIRED;
+				}
+			}
+
+			if (conjunctions.length == 1) {
+				for (const clause of conjunction) {
+					query.clause(clause);
+				}
+			} else {
+				query.group(function (conjunctionGroup) {
+					for (const clause of conjunction) {
+						conjunctionGroup.clause(clause);
+					}
+				});
+			}
+		}
+	}
+
 	static parseClause(parser: QueryParser) {
 		const lexeme = parser.peekLexeme();
 
@@ -59,6 +140,12 @@ export class QueryParser {
 				return QueryParser.parseField;
 			case QueryLexer.TERM:
 				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				return QueryParser.parsePhrase;
+			case QueryLexer.OPERATOR:
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				return QueryParser.parseGroupStart;
 			default:
 				throw new QueryParseError(
 					'expected either a field or a term, found ' + lexeme.type +
@@ -85,6 +172,9 @@ export class QueryParser {
 			case '+':
 				parser.currentClause.presence = Query.presence.REQUIRED;
 				break;
+			case '#':
+				parser.currentClause.presence = Query.presence.FILTER;
+				break;
 			default:
 				throw new QueryParseError(
 					'unrecognised presence operator\'' + lexeme.str + '\'',
@@ -105,6 +195,10 @@ export class QueryParser {
 				return QueryParser.parseField;
 			case QueryLexer.TERM:
 				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				return QueryParser.parsePhrase;
+			case QueryLexer.GROUP_START:
+				return QueryParser.parseGroupStart;
 			default:
 				throw new QueryParseError(
 					'expecting term or field, found \'' +
@@ -122,10 +216,14 @@ export class QueryParser {
 			return;
 		}
 
-		if (parser.query.allFields.indexOf(lexeme.str) == -1) {
-			const possibleFields = parser.query.allFields.map(function (f) {
-					return '\'' + f + '\'';
-				}).join(', '),
+		const rangeField = parser.query.rangeFields.indexOf(lexeme.str) != -1;
+
+		if (parser.query.allFields.indexOf(lexeme.str) == -1 && !rangeField) {
+			const possibleFields = parser.query.allFields
+					.concat(parser.query.rangeFields)
+					.map(function (f) {
+						return '\'' + f + '\'';
+					}).join(', '),
 				errorMessage = 'unrecognised field \'' + lexeme.str +
 					'\', possible fields: ' + possibleFields;
 
@@ -141,9 +239,26 @@ export class QueryParser {
 			throw new QueryParseError(errorMessage, lexeme.start, lexeme.end);
 		}
 
+		// typed fields can only be matched by ranges, and ranges
+		// only apply to typed fields
+		if (rangeField != (nextLexeme.type == QueryLexer.RANGE)) {
+			throw new QueryParseError(
+				'expecting ' + (rangeField ? 'range' : 'term') + ', found \'' +
+					nextLexeme.type + '\'',
+				nextLexeme.start,
+				nextLexeme.end,
+			);
+		}
+
 		switch (nextLexeme.type) {
 			case QueryLexer.TERM:
 				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				return QueryParser.parsePhrase;
+			case QueryLexer.GROUP_START:
+				return QueryParser.parseGroupStart;
+			case QueryLexer.RANGE:
+				return QueryParser.parseRange;
 			default:
 				throw new QueryParseError(
 					'expecting term, found \'' + nextLexeme.type + '\'',
@@ -161,6 +276,7 @@ export class QueryParser {
 		}
 
 		parser.currentClause.term = lexeme.str.toLowerCase();
+		parser.terms.push({ clause: parser.currentClause, lexeme: lexeme });
 
 		if (lexeme.str.indexOf('*') != -1) {
 			parser.currentClause.usePipeline = false;
@@ -177,6 +293,9 @@ export class QueryParser {
 			case QueryLexer.TERM:
 				parser.nextClause();
 				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				parser.nextClause();
+				return QueryParser.parsePhrase;
 			case QueryLexer.FIELD:
 				parser.nextClause();
 				return QueryParser.parseField;
@@ -187,6 +306,285 @@ export class QueryParser {
 			case QueryLexer.PRESENCE:
 				parser.nextClause();
 				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				parser.nextClause();
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				parser.nextClause();
+				return QueryParser.parseGroupStart;
+			case QueryLexer.GROUP_END:
+				parser.nextClause();
+				return QueryParser.parseGroupEnd;
+			default:
+				throw new QueryParseError(
+					'Unexpected lexeme type \'' + nextLexeme.type + '\'',
+					nextLexeme.start,
+					nextLexeme.end,
+				);
+		}
+	}
+
+	static parsePhrase(parser: QueryParser) {
+		const lexeme = parser.consumeLexeme();
+
+		if (lexeme == undefined) {
+			return;
+		}
+
+		parser.currentClause.term = lexeme.str.toLowerCase();
+		parser.currentClause.phrase = true;
+
+		const nextLexeme = parser.peekLexeme();
+
+		if (nextLexeme == undefined) {
+			parser.nextClause();
+			return;
+		}
+
+		switch (nextLexeme.type) {
+			case QueryLexer.TERM:
+				parser.nextClause();
+				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				parser.nextClause();
+				return QueryParser.parsePhrase;
+			case QueryLexer.FIELD:
+				parser.nextClause();
+				return QueryParser.parseField;
+			case QueryLexer.EDIT_DISTANCE:
+				return QueryParser.parseEditDistance;
+			case QueryLexer.BOOST:
+				return QueryParser.parseBoost;
+			case QueryLexer.PRESENCE:
+				parser.nextClause();
+				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				parser.nextClause();
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				parser.nextClause();
+				return QueryParser.parseGroupStart;
+			case QueryLexer.GROUP_END:
+				parser.nextClause();
+				return QueryParser.parseGroupEnd;
+			default:
+				throw new QueryParseError(
+					'Unexpected lexeme type \'' + nextLexeme.type + '\'',
+					nextLexeme.start,
+					nextLexeme.end,
+				);
+		}
+	}
+
+	static parseOperator(parser: QueryParser) {
+		const lexeme = parser.consumeLexeme();
+
+		if (lexeme == undefined) {
+			return;
+		}
+
+		const group = parser.currentGroup();
+
+		if (lexeme.str == 'NOT') {
+			parser.currentClause.presence = Query.presence.PROHIBITED;
+		} else if (
+			group.clauses.length == 0 || group.operator !== undefined ||
+			'presence' in parser.currentClause
+		) {
+			throw new QueryParseError(
+				'unexpected operator \'' + lexeme.str + '\'',
+				lexeme.start,
+				lexeme.end,
+			);
+		} else {
+			group.operator = lexeme.str;
+		}
+
+		const nextLexeme = parser.peekLexeme();
+
+		if (nextLexeme == undefined) {
+			const errorMessage =
+				'expecting term, field or group, found nothing';
+			throw new QueryParseError(errorMessage, lexeme.start, lexeme.end);
+		}
+
+		switch (nextLexeme.type) {
+			case QueryLexer.FIELD:
+				return QueryParser.parseField;
+			case QueryLexer.TERM:
+				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				return QueryParser.parsePhrase;
+			case QueryLexer.PRESENCE:
+				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				return QueryParser.parseGroupStart;
+			default:
+				throw new QueryParseError(
+					'expecting term, field or group, found \'' +
+						nextLexeme.type + '\'',
+					nextLexeme.start,
+					nextLexeme.end,
+				);
+		}
+	}
+
+	static parseGroupStart(parser: QueryParser) {
+		const lexeme = parser.consumeLexeme();
+
+		if (lexeme == undefined) {
+			return;
+		}
+
+		parser.groups.push({
+			clauses: [],
+			operators: [],
+			clause: parser.currentClause,
+			fields: parser.currentClause.fields || parser.currentGroup().fields,
+			lexeme: lexeme,
+		});
+		parser.currentClause = {};
+
+		const nextLexeme = parser.peekLexeme();
+
+		if (nextLexeme == undefined) {
+			const errorMessage =
+				'expecting term, field or group, found nothing';
+			throw new QueryParseError(errorMessage, lexeme.start, lexeme.end);
+		}
+
+		if (nextLexeme.type == QueryLexer.GROUP_END) {
+			const errorMessage = 'empty group';
+			throw new QueryParseError(
+				errorMessage,
+				lexeme.start,
+				nextLexeme.end,
+			);
+		}
+
+		return QueryParser.parseClause;
+	}
+
+	static parseGroupEnd(parser: QueryParser) {
+		const lexeme = parser.consumeLexeme();
+
+		if (lexeme == undefined) {
+			return;
+		}
+
+		const group = parser.groups.pop() as QueryParserGroup;
+
+		group.clause.group = new Query(
+			parser.query.allFields,
+			parser.query.rangeFields,
+		);
+		parser.addClauses(group.clause.group, group);
+		parser.currentClause = group.clause;
+
+		const nextLexeme = parser.peekLexeme();
+
+		if (nextLexeme == undefined) {
+			parser.nextClause();
+			return;
+		}
+
+		switch (nextLexeme.type) {
+			case QueryLexer.TERM:
+				parser.nextClause();
+				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				parser.nextClause();
+				return QueryParser.parsePhrase;
+			case QueryLexer.FIELD:
+				parser.nextClause();
+				return QueryParser.parseField;
+			case QueryLexer.BOOST:
+				return QueryParser.parseBoost;
+			case QueryLexer.PRESENCE:
+				parser.nextClause();
+				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				parser.nextClause();
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				parser.nextClause();
+				return QueryParser.parseGroupStart;
+			case QueryLexer.GROUP_END:
+				parser.nextClause();
+				return QueryParser.parseGroupEnd;
+			default:
+				throw new QueryParseError(
+					'Unexpected lexeme type \'' + nextLexeme.type + '\'',
+					nextLexeme.start,
+					nextLexeme.end,
+				);
+		}
+	}
+
+	static parseRange(parser: QueryParser) {
+		const lexeme = parser.consumeLexeme();
+
+		if (lexeme == undefined) {
+			return;
+		}
+
+		const bounds = /^([[{])\s*(\S+)\s+TO\s+(\S+?)\s*([\]}])$/.exec(
+				lexeme.str,
+			),
+			comparison = /^([<>]=?)(.+)$/.exec(lexeme.str),
+			bound = function (value: string) {
+				return value == '*' ? undefined : value;
+			};
+
+		if (bounds) {
+			parser.currentClause.range = {
+				min: bound(bounds[2]),
+				max: bound(bounds[3]),
+				minInclusive: bounds[1] == '[',
+				maxInclusive: bounds[4] == ']',
+			};
+		} else if (comparison) {
+			const inclusive = comparison[1].length == 2;
+
+			parser.currentClause.range = comparison[1].charAt(0) == '>'
+				? { min: comparison[2], minInclusive: inclusive }
+				: { max: comparison[2], maxInclusive: inclusive };
+		} else {
+			const errorMessage = 'unrecognised range \'' + lexeme.str + '\'';
+			throw new QueryParseError(errorMessage, lexeme.start, lexeme.end);
+		}
+
+		const nextLexeme = parser.peekLexeme();
+
+		if (nextLexeme == undefined) {
+			parser.nextClause();
+			return;
+		}
+
+		switch (nextLexeme.type) {
+			case QueryLexer.TERM:
+				parser.nextClause();
+				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				parser.nextClause();
+				return QueryParser.parsePhrase;
+			case QueryLexer.FIELD:
+				parser.nextClause();
+				return QueryParser.parseField;
+			case QueryLexer.PRESENCE:
+				parser.nextClause();
+				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				parser.nextClause();
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				parser.nextClause();
+				return QueryParser.parseGroupStart;
+			case QueryLexer.GROUP_END:
+				parser.nextClause();
+				return QueryParser.parseGroupEnd;
 			default:
 				throw new QueryParseError(
 					'Unexpected lexeme type \'' + nextLexeme.type + '\'',
@@ -210,7 +608,12 @@ export class QueryParser {
 			throw new QueryParseError(errorMessage, lexeme.start, lexeme.end);
 		}
 
-		parser.currentClause.editDistance = editDistance;
+		// on a phrase the edit distance is the allowed slop between its words
+		if (parser.currentClause.phrase) {
+			parser.currentClause.slop = editDistance;
+		} else {
+			parser.currentClause.editDistance = editDistance;
+		}
 
 		const nextLexeme = parser.peekLexeme();
 
@@ -223,6 +626,9 @@ export class QueryParser {
 			case QueryLexer.TERM:
 				parser.nextClause();
 				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				parser.nextClause();
+				return QueryParser.parsePhrase;
 			case QueryLexer.FIELD:
 				parser.nextClause();
 				return QueryParser.parseField;
@@ -233,6 +639,15 @@ export class QueryParser {
 			case QueryLexer.PRESENCE:
 				parser.nextClause();
 				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				parser.nextClause();
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				parser.nextClause();
+				return QueryParser.parseGroupStart;
+			case QueryLexer.GROUP_END:
+				parser.nextClause();
+				return QueryParser.parseGroupEnd;
 			default:
 				throw new QueryParseError(
 					'Unexpected lexeme type \'' + nextLexeme.type + '\'',
@@ -269,6 +684,9 @@ export class QueryParser {
 			case QueryLexer.TERM:
 				parser.nextClause();
 				return QueryParser.parseTerm;
+			case QueryLexer.PHRASE:
+				parser.nextClause();
+				return QueryParser.parsePhrase;
 			case QueryLexer.FIELD:
 				parser.nextClause();
 				return QueryParser.parseField;
@@ -279,6 +697,15 @@ export class QueryParser {
 			case QueryLexer.PRESENCE:
 				parser.nextClause();
 				return QueryParser.parsePresence;
+			case QueryLexer.OPERATOR:
+				parser.nextClause();
+				return QueryParser.parseOperator;
+			case QueryLexer.GROUP_START:
+				parser.nextClause();
+				return QueryParser.parseGroupStart;
+			case QueryLexer.GROUP_END:
+				parser.nextClause();
+				return QueryParser.parseGroupEnd;
 			default:
 				throw new QueryParseError(
 					'Unexpected lexeme type \'' + nextLexeme.type + '\'',
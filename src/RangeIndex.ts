@@ -0,0 +1,155 @@
+export type RangeFieldType = 'number' | 'date';
+
+export interface SerializedRangeIndex {
+	type: RangeFieldType;
+	entries: Array<[number, string]>;
+}
+
+/**
+ * A range index keeps the values of a typed field, numbers or dates,
+ * sorted so that documents with a value within a range can be found
+ * without going through every document.
+ *
+ * Values are kept as numbers, dates are converted to the number of
+ * milliseconds since the epoch. Entries with equal values are kept in
+ * the order they were inserted.
+ *
+ * @constructor
+ * @param {string} type - The type of the field, either 'number' or 'date'.
+ * @param {Array} [entries] - Sorted pairs of value and document ref.
+ */
+export class RangeIndex {
+	constructor(
+		public readonly type: RangeFieldType,
+		private entries: Array<[number, string]> = [],
+	) {
+	}
+
+	/**
+	 * Converts a value of the field type to the number it is indexed by. Numbers
+	 * can be given as strings, dates as Date instances, timestamps or strings
+	 * understood by Date.parse.
+	 *
+	 * @param {*} value - The value to convert.
+	 * @returns {number} - The converted value, NaN if it is not of the field type.
+	 */
+	parse(value: unknown): number {
+		if (this.type == 'date') {
+			if (value instanceof Date) {
+				return value.getTime();
+			}
+
+			if (typeof value == 'string') {
+				return Date.parse(value);
+			}
+		}
+
+		if (typeof value == 'number') {
+			return value;
+		}
+
+		if (typeof value == 'string' && value.trim() !== '') {
+			return Number(value);
+		}
+
+		return NaN;
+	}
+
+	/**
+	 * Finds the position of the first entry whose value is greater than, or
+	 * greater than or equal to, the passed value.
+	 *
+	 * @private
+	 * @param {number} value - The value to look for.
+	 * @param {boolean} inclusive - Whether entries equal to the value come after the position.
+	 * @returns {number}
+	 */
+	private position(value: number, inclusive: boolean): number {
+		let start = 0, end = this.entries.length;
+
+		while (start < end) {
+			const pivot = (start + end) >> 1,
+				pivotValue = this.entries[pivot][0];
+
+			if (pivotValue < value || (!inclusive && pivotValue == value)) {
+				start = pivot + 1;
+			} else {
+				end = pivot;
+			}
+		}
+
+		return start;
+	}
+
+	/**
+	 * Adds the value of a document to the index.
+	 *
+	 * @param {number} value - The value, as returned by RangeIndex#parse.
+	 * @param {string} ref - The reference of the document.
+	 */
+	insert(value: number, ref: string) {
+		this.entries.splice(this.position(value, false), 0, [value, ref]);
+	}
+
+	/**
+	 * Removes all values of a document from the index.
+	 *
+	 * @param {string} ref - The reference of the document.
+	 */
+	remove(ref: string) {
+		this.entries = this.entries.filter(function (entry) {
+			return entry[1] !== ref;
+		});
+	}
+
+	/**
+	 * Returns the references of the documents with a value within a range. A
+	 * missing bound leaves that side of the range open.
+	 *
+	 * @param {number} [min] - The lower bound of the range.
+	 * @param {number} [max] - The upper bound of the range.
+	 * @param {boolean} [minInclusive=true] - Whether values equal to the lower bound are within the range.
+	 * @param {boolean} [maxInclusive=true] - Whether values equal to the upper bound are within the range.
+	 * @returns {string[]}
+	 */
+	range(
+		min?: number,
+		max?: number,
+		minInclusive = true,
+		maxInclusive = true,
+	): string[] {
+		const start = min === undefined ? 0 : this.position(min, minInclusive),
+			end = max === undefined
+				? this.entries.length
+				: this.position(max, !maxInclusive),
+			refs: string[] = [];
+
+		for (let i = start; i < end; i++) {
+			refs.push(this.entries[i][1]);
+		}
+
+		return refs;
+	}
+
+	/**
+	 * Returns a representation of the range index ready for serialisation.
+	 *
+	 * @returns {SerializedRangeIndex}
+	 */
+	toJSON(): SerializedRangeIndex {
+		return {
+			type: this.type,
+			entries: this.entries,
+		};
+	}
+
+	/**
+	 * Loads a previously serialised range index.
+	 *
+	 * @param {SerializedRangeIndex} serialized - A previously serialised range index.
+	 * @returns {RangeIndex}
+	 */
+	static load(serialized: SerializedRangeIndex) {
+		return new RangeIndex(serialized.type, serialized.entries.slice());
+	}
+}
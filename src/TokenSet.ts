@@ -21,11 +21,31 @@
  */
 import { TokenSetBuilder } from './TokenSetBuilder.ts';
 import { Vector } from './Vector.ts';
-import { QueryClause } from './Query.ts';
+import { Query, QueryClause } from './Query.ts';
+
+export interface EditCosts {
+	insertion?: number;
+	deletion?: number;
+	substitution?: number;
+	transposition?: number;
+}
+
+export interface FuzzyOptions {
+	costs?: EditCosts;
+	prefixLength?: number;
+}
+
+// the edits remaining, by position in the string, of the states of a
+// Levenshtein automaton, the positions waiting for the second character of a
+// transposition are prefixed with 't'
+type LevenshteinState = { [position: string]: number };
 
 export class TokenSet {
 	final = false;
 	edges: { [key: string]: TokenSet } = {};
+	// whether the '*' edge only matches the characters without an edge of their
+	// own, as in Levenshtein automata, rather than every character
+	exclusiveWildcard = false;
 	private id: number;
 	public _str = '';
 
@@ -66,14 +86,25 @@ export class TokenSet {
 	 * @private
 	 * @param {Object} clause - A single clause from Query.
 	 * @param {string} clause.term - The query clause term.
-	 * @param {number} [clause.editDistance] - The optional edit distance for the term.
+	 * @param {number|string} [clause.editDistance] - The optional edit distance for the term, or 'auto'.
+	 * @param {TokenSet~FuzzyOptions} [clause.fuzzy] - The optional costs of the edits and prefix length.
+	 * @param {TokenSet~FuzzyOptions} [fuzzy] - The costs of the edits and prefix length of clauses without their own.
 	 * @returns {TokenSet}
 	 */
-	static fromClause(clause: QueryClause) {
-		if ('editDistance' in clause) {
+	static fromClause(clause: QueryClause, fuzzy?: FuzzyOptions) {
+		// an edit distance of 0, or an 'auto' edit distance of short terms, matches
+		// the term exactly
+		const editDistance = clause.editDistance == 'auto'
+			? Query.autoEditDistance(clause.term || '')
+			: clause.editDistance === undefined
+			? 1
+			: clause.editDistance;
+
+		if ('editDistance' in clause && editDistance > 0) {
 			return TokenSet.fromFuzzyString(
 				clause.term || '',
-				clause.editDistance || 1,
+				editDistance,
+				clause.fuzzy || fuzzy,
 			);
 		} else {
 			return TokenSet.fromString(clause.term || '');
@@ -91,11 +122,36 @@ export class TokenSet {
 	 * on the performance of both creating and intersecting these TokenSets.
 	 * It is advised to keep the edit distance less than 3.
 	 *
+	 * With options the token set is a deterministic Levenshtein automaton
+	 * instead, matching exactly the strings within the edit distance, with
+	 * transpositions of any two adjacent characters. The edit distance is then
+	 * the highest total cost of the edits, and the first characters of the
+	 * string, up to the prefix length, cannot be edited. Every string is
+	 * matched through a single path of the automaton, which makes it much
+	 * cheaper to intersect with large token sets.
+	 *
 	 * @param {string} str - The string to create the token set from.
 	 * @param {number} editDistance - The allowed edit distance to match.
-	 * @returns {Vector}
+	 * @param {TokenSet~FuzzyOptions} [options] - The costs of the edits and prefix length of a Levenshtein automaton.
+	 * @returns {TokenSet}
+	 * @example <caption>matching 'bar' but not 'car' for 'baz~1'</caption>
+	 * TokenSet.fromFuzzyString('baz', 1, { prefixLength: 1 })
+	 * @example <caption>matching 'bra' but not 'ba' for 'bar~1'</caption>
+	 * TokenSet.fromFuzzyString('bar', 1, { costs: { deletion: 2 } })
 	 */
-	static fromFuzzyString(str: string, editDistance: number): TokenSet {
+	static fromFuzzyString(
+		str: string,
+		editDistance: number,
+		options?: FuzzyOptions,
+	): TokenSet {
+		if (options !== undefined) {
+			return TokenSet.fromLevenshteinAutomaton(
+				str,
+				editDistance,
+				options,
+			);
+		}
+
 		const root = new TokenSet();
 
 		const stack = [{
@@ -227,6 +283,172 @@ export class TokenSet {
 		return root;
 	}
 
+	/**
+	 * The costs of the edits and the prefix length of a fuzzy match.
+	 *
+	 * @typedef {Object} TokenSet~FuzzyOptions
+	 * @property {Object} [costs] - The cost of every kind of edit.
+	 * @property {number} [costs.insertion=1] - The cost of a character missing from the string.
+	 * @property {number} [costs.deletion=1] - The cost of a character of the string missing from a match.
+	 * @property {number} [costs.substitution=1] - The cost of a character replaced with another.
+	 * @property {number} [costs.transposition=1] - The cost of two adjacent characters swapped.
+	 * @property {number} [prefixLength=0] - The number of characters at the start of the string that cannot be edited.
+	 */
+
+	/**
+	 * Builds the deterministic Levenshtein automaton of a string, see
+	 * TokenSet.fromFuzzyString. Its states are the sets of positions in the
+	 * string reachable by the characters matched so far, along with the lowest
+	 * cost of reaching them. The '*' edge of a state is followed by the
+	 * characters absent from the string.
+	 *
+	 * @private
+	 * @param {string} str - The string to create the token set from.
+	 * @param {number} editDistance - The highest total cost of the edits.
+	 * @param {TokenSet~FuzzyOptions} options - The costs of the edits and prefix length.
+	 * @returns {TokenSet}
+	 */
+	static fromLevenshteinAutomaton(
+		str: string,
+		editDistance: number,
+		options: FuzzyOptions,
+	): TokenSet {
+		const costs = Object.assign({
+				insertion: 1,
+				deletion: 1,
+				substitution: 1,
+				transposition: 1,
+			}, options.costs),
+			prefixLength = options.prefixLength || 0,
+			alphabet: string[] = [],
+			nodes: { [key: string]: TokenSet } = Object.create(null),
+			queue: { state: LevenshteinState; node: TokenSet }[] = [];
+
+		for (const char of str.split('')) {
+			if (alphabet.indexOf(char) == -1) {
+				alphabet.push(char);
+			}
+		}
+
+		// adds the state a character leads to, from an edit of the given cost
+		const reach = function (
+			state: LevenshteinState,
+			position: string,
+			cost: number,
+		) {
+			if (
+				cost <= editDistance &&
+				(!(position in state) || cost < state[position])
+			) {
+				state[position] = cost;
+			}
+		};
+
+		// deletions do not consume a character of the match, they are applied
+		// to every state before following its edges
+		const close = function (state: LevenshteinState) {
+			for (let i = prefixLength; i < str.length; i++) {
+				if (String(i) in state) {
+					reach(state, String(i + 1), state[i] + costs.deletion);
+				}
+			}
+
+			return state;
+		};
+
+		const step = function (state: LevenshteinState, char?: string) {
+			const next: LevenshteinState = Object.create(null);
+
+			for (const position in state) {
+				const cost = state[position];
+
+				if (position.charAt(0) == 't') {
+					const i = Number(position.slice(1));
+
+					if (char === str.charAt(i)) {
+						reach(next, String(i + 2), cost);
+					}
+
+					continue;
+				}
+
+				const i = Number(position);
+
+				if (i < str.length && char === str.charAt(i)) {
+					reach(next, String(i + 1), cost);
+				}
+
+				if (i < prefixLength) {
+					continue;
+				}
+
+				reach(next, position, cost + costs.insertion);
+
+				if (i < str.length && char !== str.charAt(i)) {
+					reach(next, String(i + 1), cost + costs.substitution);
+				}
+
+				if (
+					i + 1 < str.length && char === str.charAt(i + 1) &&
+					str.charAt(i) !== str.charAt(i + 1)
+				) {
+					reach(next, 't' + i, cost + costs.transposition);
+				}
+			}
+
+			return close(next);
+		};
+
+		const stateKey = function (state: LevenshteinState) {
+			return Object.keys(state).sort().map(function (position) {
+				return position + ':' + state[position];
+			}).join(',');
+		};
+
+		const nodeFor = function (state: LevenshteinState) {
+			const key = stateKey(state);
+
+			if (!(key in nodes)) {
+				nodes[key] = new TokenSet();
+				nodes[key].exclusiveWildcard = true;
+				nodes[key].final = String(str.length) in state;
+				queue.push({ state: state, node: nodes[key] });
+			}
+
+			return nodes[key];
+		};
+
+		const root = nodeFor(close({ '0': 0 }));
+
+		while (queue.length) {
+			const frame = queue.pop();
+
+			if (!frame) {
+				break;
+			}
+
+			// characters leading to the same state as any other character
+			// follow the '*' edge
+			const other = step(frame.state),
+				otherKey = stateKey(other);
+
+			if (otherKey !== '') {
+				frame.node.edges['*'] = nodeFor(other);
+			}
+
+			for (const char of alphabet) {
+				const next = step(frame.state, char),
+					key = stateKey(next);
+
+				if (key !== '' && key !== otherKey) {
+					frame.node.edges[char] = nodeFor(next);
+				}
+			}
+		}
+
+		return root;
+	}
+
 	/**
 	 * Creates a TokenSet from a string.
 	 *
@@ -400,7 +622,11 @@ export class TokenSet {
 				for (let n = 0; n < nLen; n++) {
 					const nEdge = nEdges[n];
 
-					if (nEdge == qEdge || qEdge == '*') {
+					const wildcard = qEdge == '*' &&
+						!(frame.qNode.exclusiveWildcard &&
+							nEdge in frame.qNode.edges);
+
+					if (nEdge == qEdge || wildcard) {
 						const node = frame.node.edges[nEdge],
 							qNode = frame.qNode.edges[qEdge],
 							final = node.final && qNode.final;
@@ -0,0 +1,171 @@
+import { LunrDocument } from './Builder.ts';
+import { Token } from './Token.ts';
+import { HasToString, Tokenizer, tokenizer } from './tokenizer.ts';
+
+export interface CjkTokenizerOptions {
+	dictionary?: string[];
+}
+
+// Han, Hiragana, Katakana and Hangul characters, and the prolonged sound mark
+// written within Katakana words
+const cjkCharacter =
+	/^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]$/u;
+
+/**
+ * generateCjkTokenizer builds a tokenizer for text in Chinese, Japanese or
+ * Korean, whose words are not separated by spaces.
+ *
+ * Strings are first split on `tokenizer.separator` like the default tokenizer.
+ * Every run of Han, Hiragana, Katakana or Hangul characters is then split into
+ * overlapping bigrams, pairs of adjacent characters, e.g. '東京都' into '東京' and
+ * '京都', and a run of a single character is kept as it is. Other characters
+ * are kept together, so that 'iphone手机' is split into 'iphone' and '手机'.
+ *
+ * With a dictionary, runs are segmented into the longest words of the dictionary
+ * found from their start, and only the characters between them are split into
+ * bigrams.
+ *
+ * Every token has the same `position` and `index` metadata as the tokens of the
+ * default tokenizer, bigrams are given consecutive indexes so that phrases can
+ * be matched. Searches for a term that the tokenizer of the index splits into
+ * several tokens match the documents containing all of them, see
+ * LunrIndex#search.
+ *
+ * The default trimmer, unicodeTrimmer, keeps the letters of every script, CJK
+ * characters included, so the pipeline of a builder indexing CJK text can be
+ * left as it is. The latin `trimmer` removes them, it should not be added to
+ * such a pipeline.
+ *
+ * @function
+ * @param {object} [options] - Options for the tokenizer.
+ * @param {string[]} [options.dictionary] - The words to segment runs of CJK characters into.
+ * @returns {Tokenizer}
+ * @see tokenizer
+ * @example
+ * builder.tokenizer = generateCjkTokenizer({ dictionary: ['東京', '大学'] })
+ */
+export function generateCjkTokenizer(
+	options: CjkTokenizerOptions = {},
+): Tokenizer {
+	const dictionary: { [word: string]: boolean } = Object.create(null);
+	let maxLength = 0;
+
+	for (const word of options.dictionary || []) {
+		const lowerCaseWord = word.toLowerCase();
+
+		dictionary[lowerCaseWord] = true;
+		maxLength = Math.max(maxLength, Array.from(lowerCaseWord).length);
+	}
+
+	return function (
+		obj?: string | number | boolean | HasToString | null | HasToString[],
+		metadata?: LunrDocument,
+	): Token[] {
+		if (obj == null || Array.isArray(obj)) {
+			return tokenizer(obj, metadata);
+		}
+
+		const str = obj.toString().toLowerCase(),
+			chars = Array.from(str),
+			offsets = [0],
+			tokens: Token[] = [];
+
+		// the position metadata counts UTF-16 code units, like the default
+		// tokenizer, not characters
+		for (const char of chars) {
+			offsets.push(offsets[offsets.length - 1] + char.length);
+		}
+
+		const push = function (start: number, end: number) {
+			const tokenMetadata = structuredClone(metadata) || {};
+			tokenMetadata['position'] = [
+				offsets[start],
+				offsets[end] - offsets[start],
+			];
+			tokenMetadata['index'] = tokens.length;
+
+			tokens.push(
+				new Token(
+					str.slice(offsets[start], offsets[end]),
+					tokenMetadata,
+				),
+			);
+		};
+
+		const pushBigrams = function (start: number, end: number) {
+			if (end - start == 1) {
+				push(start, end);
+			}
+
+			for (let i = start; i < end - 1; i++) {
+				push(i, i + 2);
+			}
+		};
+
+		const segment = function (start: number, end: number) {
+			let unknownStart = start, i = start;
+
+			while (i < end) {
+				let length = Math.min(maxLength, end - i);
+
+				while (
+					length > 0 &&
+					!dictionary[chars.slice(i, i + length).join('')]
+				) {
+					length--;
+				}
+
+				if (length == 0) {
+					i++;
+					continue;
+				}
+
+				pushBigrams(unknownStart, i);
+				push(i, i + length);
+
+				i += length;
+				unknownStart = i;
+			}
+
+			pushBigrams(unknownStart, end);
+		};
+
+		for (let start = 0; start < chars.length;) {
+			if (chars[start].match(tokenizer.separator)) {
+				start++;
+				continue;
+			}
+
+			const cjk = cjkCharacter.test(chars[start]);
+			let end = start + 1;
+
+			while (
+				end < chars.length &&
+				!chars[end].match(tokenizer.separator) &&
+				cjkCharacter.test(chars[end]) == cjk
+			) {
+				end++;
+			}
+
+			if (cjk) {
+				segment(start, end);
+			} else {
+				push(start, end);
+			}
+
+			start = end;
+		}
+
+		return tokens;
+	};
+}
+
+/**
+ * cjkTokenizer is a tokenizer splitting runs of Chinese, Japanese and Korean
+ * characters into overlapping bigrams, without a dictionary.
+ *
+ * @static
+ * @type {Tokenizer}
+ * @see generateCjkTokenizer
+ */
+export const cjkTokenizer = generateCjkTokenizer();
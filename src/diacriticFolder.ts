@@ -0,0 +1,152 @@
+import { Pipeline } from './Pipeline.ts';
+import { PipelineFunction } from './PipelineFunction.ts';
+import { Token } from './Token.ts';
+
+export interface DiacriticFolderOptions {
+	preserveOriginal?: boolean;
+	weight?: number;
+	label?: string;
+}
+
+// the letters that are not decomposed into a base letter and combining marks
+const ligatures: { [letter: string]: string } = {
+	'æ': 'ae',
+	'Æ': 'AE',
+	'œ': 'oe',
+	'Œ': 'OE',
+	'ß': 'ss',
+	'ẞ': 'SS',
+	'ø': 'o',
+	'Ø': 'O',
+	'đ': 'd',
+	'Đ': 'D',
+	'ð': 'd',
+	'Ð': 'D',
+	'þ': 'th',
+	'Þ': 'TH',
+	'ł': 'l',
+	'Ł': 'L',
+	'ħ': 'h',
+	'Ħ': 'H',
+	'ŧ': 't',
+	'Ŧ': 'T',
+	'ı': 'i',
+	'ĳ': 'ij',
+	'Ĳ': 'IJ',
+	'ﬀ': 'ff',
+	'ﬁ': 'fi',
+	'ﬂ': 'fl',
+};
+
+const ligatureRegex = new RegExp(
+		'[' + Object.keys(ligatures).join('') + ']',
+		'g',
+	),
+	// only the blocks of combining diacritical marks, the marks of other scripts,
+	// e.g. the vowel signs of Devanagari or the voicing marks of kana, are kept
+	diacriticRegex =
+		/[\u0300-\u036f\u1ab0-\u1aff\u1dc0-\u1dff\u20d0-\u20ff\ufe20-\ufe2f]/g;
+
+/**
+ * Removes the diacritics from the letters of a string, e.g. 'Zürich' is folded
+ * into 'Zurich' and 'Straße' into 'Strasse'.
+ *
+ * Letters are decomposed into a base letter and combining marks, the combining
+ * diacritical marks are removed, and ligatures and letters that have no
+ * decomposition, like 'æ' or 'ø', are replaced with their usual latin spelling.
+ *
+ * @function
+ * @param {string} str - The string to fold.
+ * @returns {string}
+ */
+export function foldDiacritics(str: string): string {
+	return str.normalize('NFD')
+		.replace(diacriticRegex, '')
+		.replace(ligatureRegex, function (letter) {
+			return ligatures[letter];
+		})
+		.normalize('NFC');
+}
+
+/**
+ * generateDiacriticFolder builds a pipeline function that folds the diacritics
+ * of tokens, so that searching for 'resume' matches 'résumé'. It should be part
+ * of both the pipeline and the search pipeline of a builder, before the stemmer,
+ * so that a word is stemmed the same whether it is spelled with diacritics or
+ * not.
+ *
+ * With the preserveOriginal option tokens with diacritics are followed by their
+ * folded form, instead of being replaced by it. Documents are then indexed with
+ * both forms, and a search spelled with the same diacritics as a document
+ * matches both of them and scores higher than a search matching only the
+ * folded form. The folded form has a `boost` metadata of the passed weight.
+ *
+ * The built function is registered with Pipeline under the passed label, so
+ * that pipelines using it can be serialised. When loading such a pipeline the
+ * function must be generated again, with the same label, beforehand.
+ *
+ * @function
+ * @param {object} [options] - Options for the folder.
+ * @param {boolean} [options.preserveOriginal=false] - Whether tokens are kept along with their folded form.
+ * @param {number} [options.weight=0.5] - The boost of the folded form relative to the original token, when both are kept.
+ * @param {string} [options.label] - The label the function is registered with, by default 'diacriticFolder', or 'diacriticFolder-preserveOriginal' when preserving the original tokens.
+ * @returns {PipelineFunction}
+ * @see Pipeline
+ * @see foldDiacritics
+ * @example <caption>ranking exact spellings higher</caption>
+ * const folder = generateDiacriticFolder({ preserveOriginal: true })
+ * builder.pipeline.before(stemmer, folder)
+ * builder.searchPipeline.before(stemmer, folder)
+ */
+export function generateDiacriticFolder(
+	options: DiacriticFolderOptions = {},
+) {
+	const preserveOriginal = options.preserveOriginal || false,
+		weight = options.weight === undefined ? 0.5 : options.weight,
+		label = options.label ||
+			(preserveOriginal
+				? 'diacriticFolder-preserveOriginal'
+				: 'diacriticFolder');
+
+	const diacriticFolder = function (token: Token) {
+		const folded = foldDiacritics(token.toString());
+
+		if (!preserveOriginal) {
+			return token.update(function () {
+				return folded;
+			});
+		}
+
+		if (folded == token.toString()) {
+			return token;
+		}
+
+		const boost =
+			(token.metadata.boost === undefined ? 1 : token.metadata.boost) *
+			weight;
+
+		return [
+			token,
+			new Token(
+				folded,
+				Object.assign({}, token.metadata, { boost: boost }),
+			),
+		];
+	};
+
+	Pipeline.registerFunction(<PipelineFunction> diacriticFolder, label);
+
+	return <PipelineFunction> diacriticFolder;
+}
+
+/**
+ * diacriticFolder is a pipeline function replacing tokens with their folded
+ * form, without diacritics.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The token to fold.
+ * @returns {Token}
+ * @see generateDiacriticFolder
+ */
+export const diacriticFolder = generateDiacriticFolder();
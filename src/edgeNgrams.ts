@@ -0,0 +1,63 @@
+import { Token } from './Token.ts';
+
+export interface EdgeNgramOptions {
+	min?: number;
+	max?: number;
+}
+
+/**
+ * The shortest and longest edge n-grams indexed by default, see Builder#field.
+ *
+ * @constant
+ * @type {object}
+ */
+export const defaultEdgeNgrams = { min: 1, max: 15 };
+
+/**
+ * Returns the name of the field the edge n-grams of a field are indexed in.
+ * Edge n-gram fields are not searched by terms, only by trailing wildcards of
+ * their field.
+ *
+ * @function
+ * @param {string} fieldName - The name of the field with edge n-grams.
+ * @returns {string}
+ */
+export function edgeNgramField(fieldName: string): string {
+	return fieldName + ':edgeNgrams';
+}
+
+/**
+ * Expands tokens into their edge n-grams, the prefixes of every token from
+ * `min` to `max` characters long, e.g. 'plant' into 'p', 'pl', 'pla', 'plan'
+ * and 'plant'. Tokens shorter than `min` characters are left out. Every
+ * n-gram has the metadata of its token.
+ *
+ * @function
+ * @param {Token[]} tokens - The tokens to expand.
+ * @param {EdgeNgramOptions} [options] - The lengths of the n-grams.
+ * @param {number} [options.min=1] - The length of the shortest n-grams.
+ * @param {number} [options.max=15] - The length of the longest n-grams.
+ * @returns {Token[]}
+ */
+export function edgeNgrams(
+	tokens: Token[],
+	options: EdgeNgramOptions = {},
+): Token[] {
+	const min = options.min || defaultEdgeNgrams.min,
+		max = options.max || defaultEdgeNgrams.max,
+		ngrams: Token[] = [];
+
+	for (const token of tokens) {
+		// slicing characters rather than code units keeps surrogate pairs whole
+		const chars = Array.from(token.toString()),
+			longest = Math.min(max, chars.length);
+
+		for (let length = min; length <= longest; length++) {
+			ngrams.push(token.clone(function () {
+				return chars.slice(0, length).join('');
+			}));
+		}
+	}
+
+	return ngrams;
+}
@@ -0,0 +1,266 @@
+import { DocMatch } from './LunrIndex.ts';
+import { LunrDocument } from './Builder.ts';
+import { tokenizer } from './tokenizer.ts';
+
+export interface HighlightOptions {
+	preTag?: string;
+	postTag?: string;
+	fragmentSize?: number;
+	maxFragments?: number;
+	mergeAdjacent?: boolean;
+}
+
+interface HighlightRange {
+	start: number;
+	end: number;
+}
+
+interface HighlightFragment extends HighlightRange {
+	hits: HighlightRange[];
+}
+
+/**
+ * Options for highlighting the terms of a match within a document field.
+ *
+ * @typedef {Object} highlight~Options
+ * @property {string} [preTag='<mark>'] - The markup inserted before every highlighted term.
+ * @property {string} [postTag='</mark>'] - The markup inserted after every highlighted term.
+ * @property {number} [fragmentSize=100] - The length of fragments in characters, 0 returns the whole field as a single fragment.
+ * @property {number} [maxFragments=3] - The maximum number of fragments returned, the fragments with the most hits are preferred.
+ * @property {boolean} [mergeAdjacent=true] - Whether terms separated only by a token separator are highlighted as one.
+ */
+
+/**
+ * highlight turns the positions of the terms that matched a document field into
+ * HTML fragments of the field, with every matching term wrapped in tags.
+ *
+ * Term positions are only available when the index was built with `position`
+ * in the metadata whitelist of the Builder, without them no fragments are
+ * returned. Fragments are returned in the order they appear in the field, the
+ * field text outside of the tags is HTML escaped.
+ *
+ * @static
+ * @param {LunrIndex~Result} match - A result returned from a search.
+ * @param {object} document - The document the result refers to.
+ * @param {string} fieldName - The name of the field to highlight.
+ * @param {highlight~Options} [options] - Tags and fragment options.
+ * @returns {string[]}
+ * @example <caption>highlighting the body of the best match</caption>
+ * const [match] = idx.search('plant')
+ * highlight(match, documents[match.ref], 'body', { fragmentSize: 50 })
+ */
+export function highlight(
+	match: DocMatch,
+	document: LunrDocument,
+	fieldName: string,
+	options: HighlightOptions = {},
+): string[] {
+	const preTag = options.preTag === undefined ? '<mark>' : options.preTag,
+		postTag = options.postTag === undefined ? '</mark>' : options.postTag,
+		fragmentSize = options.fragmentSize === undefined
+			? 100
+			: options.fragmentSize,
+		maxFragments = options.maxFragments === undefined
+			? 3
+			: options.maxFragments,
+		text = document[fieldName] == null
+			? ''
+			: document[fieldName].toString(),
+		hits = highlightHits(
+			match,
+			fieldName,
+			text,
+			options.mergeAdjacent !== false,
+		);
+
+	if (hits.length === 0) {
+		return [];
+	}
+
+	let fragments: HighlightFragment[];
+
+	if (fragmentSize <= 0) {
+		fragments = [{ start: 0, end: text.length, hits: hits }];
+	} else {
+		fragments = highlightFragments(hits, text, fragmentSize)
+			.map(function (fragment, i) {
+				return { fragment: fragment, i: i };
+			})
+			.sort(function (a, b) {
+				return b.fragment.hits.length - a.fragment.hits.length ||
+					a.i - b.i;
+			})
+			.slice(0, maxFragments)
+			.sort(function (a, b) {
+				return a.i - b.i;
+			})
+			.map(function (entry) {
+				return entry.fragment;
+			});
+	}
+
+	return fragments.map(function (fragment) {
+		let pos = fragment.start, highlighted = '';
+
+		for (const hit of fragment.hits) {
+			highlighted += escapeHtml(text.slice(pos, hit.start)) +
+				preTag + escapeHtml(text.slice(hit.start, hit.end)) + postTag;
+			pos = hit.end;
+		}
+
+		return highlighted + escapeHtml(text.slice(pos, fragment.end));
+	});
+}
+
+/**
+ * Collects the ranges of the terms that matched a field, sorted by their
+ * position and with overlapping ranges merged.
+ *
+ * @private
+ */
+function highlightHits(
+	match: DocMatch,
+	fieldName: string,
+	text: string,
+	mergeAdjacent: boolean,
+): HighlightRange[] {
+	const ranges: HighlightRange[] = [],
+		hits: HighlightRange[] = [],
+		separator = new RegExp(
+			'^(?:' + tokenizer.separator.source + ')$',
+			tokenizer.separator.flags,
+		);
+
+	for (const term of Object.keys(match.matchData.metadata)) {
+		const fieldMetadata = match.matchData.metadata[term][fieldName],
+			positions = fieldMetadata && fieldMetadata.position;
+
+		if (!positions) {
+			continue;
+		}
+
+		for (const position of positions) {
+			ranges.push({
+				start: position[0],
+				end: Math.min(position[0] + position[1], text.length),
+			});
+		}
+	}
+
+	ranges.sort(function (a, b) {
+		return a.start - b.start;
+	});
+
+	for (const range of ranges) {
+		const previous = hits[hits.length - 1];
+
+		if (
+			previous !== undefined &&
+			(range.start <= previous.end ||
+				(mergeAdjacent &&
+					separator.test(text.slice(previous.end, range.start))))
+		) {
+			previous.end = Math.max(previous.end, range.end);
+		} else if (range.start < range.end) {
+			hits.push({ start: range.start, end: range.end });
+		}
+	}
+
+	return hits;
+}
+
+/**
+ * Splits hits into fragments of roughly the fragment size, each fragment
+ * is padded with the text around its hits without breaking words where
+ * possible.
+ *
+ * @private
+ */
+function highlightFragments(
+	hits: HighlightRange[],
+	text: string,
+	fragmentSize: number,
+): HighlightFragment[] {
+	const fragments: HighlightFragment[] = [];
+
+	for (const hit of hits) {
+		const fragment = fragments[fragments.length - 1];
+
+		if (
+			fragment !== undefined && hit.end - fragment.start <= fragmentSize
+		) {
+			fragment.hits.push(hit);
+			fragment.end = hit.end;
+		} else {
+			fragments.push({ start: hit.start, end: hit.end, hits: [hit] });
+		}
+	}
+
+	for (const fragment of fragments) {
+		const hitsStart = fragment.start,
+			hitsEnd = fragment.end,
+			length = Math.max(fragmentSize, hitsEnd - hitsStart);
+
+		// center the hits within the fragment
+		let start = Math.max(
+			0,
+			hitsStart - Math.floor((length - (hitsEnd - hitsStart)) / 2),
+		);
+		const end = Math.min(text.length, start + length);
+		start = Math.max(0, end - length);
+
+		fragment.start = wordBoundary(text, start, hitsStart, 1);
+		fragment.end = wordBoundary(text, end, hitsEnd, -1);
+	}
+
+	return fragments;
+}
+
+/**
+ * Moves the edge of a fragment towards its hits until it no longer cuts a
+ * word in half, leaving the edge unchanged if the hits are reached first.
+ *
+ * @private
+ */
+function wordBoundary(
+	text: string,
+	edge: number,
+	limit: number,
+	direction: number,
+): number {
+	const isSeparator = function (i: number) {
+		return i < 0 || i >= text.length ||
+			tokenizer.separator.test(text.charAt(i));
+	};
+
+	let pos = edge;
+
+	// an edge sits on a boundary when the characters on
+	// either side of it are not both part of a word
+	while (pos != limit && !isSeparator(pos - 1) && !isSeparator(pos)) {
+		pos += direction;
+	}
+
+	if (pos == limit) {
+		return edge;
+	}
+
+	// leave out the separators at the edge of the fragment
+	while (pos != limit) {
+		if (direction > 0 ? !isSeparator(pos) : !isSeparator(pos - 1)) {
+			break;
+		}
+
+		pos += direction;
+	}
+
+	return pos;
+}
+
+function escapeHtml(str: string): string {
+	return str.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
@@ -0,0 +1,92 @@
+import { Builder } from './Builder.ts';
+import { PipelineFunction } from './PipelineFunction.ts';
+import { stemmer } from './stemmer.ts';
+import { stopWordFilter } from './stopWordFilter.ts';
+import { unicodeTrimmer } from './trimmer.ts';
+import { Language } from './languages/Language.ts';
+import { dutch } from './languages/dutch.ts';
+import { french } from './languages/french.ts';
+import { german } from './languages/german.ts';
+import { italian } from './languages/italian.ts';
+import { portuguese } from './languages/portuguese.ts';
+import { spanish } from './languages/spanish.ts';
+
+/**
+ * The pipeline functions for English documents, the ones lunr uses by default.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const english: Language = {
+	code: 'en',
+	trimmer: <PipelineFunction> unicodeTrimmer,
+	stopWordFilter: <PipelineFunction> stopWordFilter,
+	stemmer: <PipelineFunction> stemmer,
+};
+
+/**
+ * The supported languages, by their ISO 639-1 code.
+ *
+ * @constant
+ * @type {Object<string, Language>}
+ */
+export const languages: { [code: string]: Language } = {
+	en: english,
+	de: german,
+	fr: french,
+	es: spanish,
+	it: italian,
+	pt: portuguese,
+	nl: dutch,
+};
+
+/**
+ * configureLanguage sets up the pipelines of a builder for documents in a
+ * language, in the same way lunr sets them up for English documents. The
+ * pipeline is reset to the trimmer, stop word filter and stemmer of the
+ * language and the search pipeline to its stemmer.
+ *
+ * @function
+ * @param {Builder} builder - The builder to configure.
+ * @param {Language|string} language - The language, or its ISO 639-1 code.
+ * @throws {Error} If the language code is not one of the supported languages.
+ * @see languages
+ * @example
+ * const idx = lunr(function (builder) {
+ *   configureLanguage(builder, 'de')
+ *   builder.field('title')
+ * })
+ */
+export function configureLanguage(
+	builder: Builder,
+	language: Language | string,
+) {
+	const found = findLanguage(language);
+
+	builder.pipeline.reset();
+	builder.pipeline.add(found.trimmer, found.stopWordFilter, found.stemmer);
+
+	builder.searchPipeline.reset();
+	builder.searchPipeline.add(found.stemmer);
+}
+
+/**
+ * Looks up a supported language by its ISO 639-1 code, a language object is
+ * returned as is.
+ *
+ * @function
+ * @param {Language|string} language - The language, or its ISO 639-1 code.
+ * @throws {Error} If the language code is not one of the supported languages.
+ * @returns {Language}
+ */
+export function findLanguage(language: Language | string): Language {
+	if (typeof language != 'string') {
+		return language;
+	}
+
+	if (!Object.hasOwn(languages, language)) {
+		throw new Error('unrecognised language \'' + language + '\'');
+	}
+
+	return languages[language];
+}
@@ -0,0 +1,8 @@
+import { PipelineFunction } from '../PipelineFunction.ts';
+
+export interface Language {
+	code: string;
+	trimmer: PipelineFunction;
+	stopWordFilter: PipelineFunction;
+	stemmer: PipelineFunction;
+}
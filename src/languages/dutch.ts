@@ -0,0 +1,250 @@
+/*!
+ * Dutch stemmer
+ * An implementation of the Snowball Dutch stemming algorithm
+ * http://snowballstem.org/algorithms/dutch/stemmer.html
+ */
+
+import { Pipeline } from '../Pipeline.ts';
+import { PipelineFunction } from '../PipelineFunction.ts';
+import { Token } from '../Token.ts';
+import { generateStopWordFilter } from '../stopWordFilter.ts';
+import { generateTrimmer, latinWordCharacters } from '../trimmer.ts';
+import { Language } from './Language.ts';
+import { markLetters, region, suffixMatcher, vowelTest } from './snowball.ts';
+
+const isVowel = vowelTest('aeiouyè'),
+	accents: { [accented: string]: string } = {
+		'ä': 'a',
+		'á': 'a',
+		'ë': 'e',
+		'é': 'e',
+		'ï': 'i',
+		'í': 'i',
+		'ö': 'o',
+		'ó': 'o',
+		'ü': 'u',
+		'ú': 'u',
+	},
+	step1Suffix = suffixMatcher(['heden', 'en', 'ene', 's', 'se']),
+	dSuffix = suffixMatcher(['end', 'ing', 'ig', 'lijk', 'baar', 'bar']);
+
+function dutchStem(word: string) {
+	let w = word.replace(/[äáëéïíöóüú]/g, function (accented) {
+		return accents[accented];
+	});
+
+	w = markLetters(w, function (chars, i) {
+		const next = chars[i + 1];
+
+		if (i == 0 && chars[i] == 'y') {
+			chars[i] = 'Y';
+			return true;
+		}
+
+		if (isVowel(chars[i])) {
+			if (next == 'i' && isVowel(chars[i + 2])) {
+				chars[i + 1] = 'I';
+				return true;
+			}
+
+			if (next == 'y') {
+				chars[i + 1] = 'Y';
+				return true;
+			}
+		}
+
+		return false;
+	});
+
+	// R1 is adjusted so that the region before it contains at least 3 letters,
+	// R2 is found from the unadjusted R1
+	let r1 = region(w, isVowel);
+	const r2 = region(w, isVowel, r1);
+	r1 = Math.max(3, r1);
+
+	let eRemoved = false;
+
+	const undouble = function () {
+		if (/(?:kk|dd|tt)$/.test(w)) {
+			w = w.slice(0, -1);
+		}
+	};
+
+	// an e in R1 preceded by a non-vowel is removed, and the ending undoubled
+	const removeE = function () {
+		eRemoved = false;
+
+		if (
+			w.endsWith('e') && w.length - 1 >= r1 &&
+			w.length > 1 && !isVowel(w[w.length - 2])
+		) {
+			w = w.slice(0, -1);
+			eRemoved = true;
+			undouble();
+		}
+	};
+
+	// an en in R1 preceded by a non-vowel other than in gem is removed,
+	// and the ending undoubled
+	const removeEn = function (suffix: string) {
+		const stem = w.slice(0, w.length - suffix.length);
+
+		if (
+			stem.length >= r1 && stem.length > 0 &&
+			!isVowel(stem[stem.length - 1]) && !stem.endsWith('gem')
+		) {
+			w = stem;
+			undouble();
+		}
+	};
+
+	// Step 1
+	const suffix = step1Suffix(w),
+		start = w.length - suffix.length;
+
+	switch (suffix) {
+		case 'heden':
+			if (start >= r1) {
+				w = w.slice(0, start) + 'heid';
+			}
+			break;
+		case 'en':
+		case 'ene':
+			removeEn(suffix);
+			break;
+		case 's':
+		case 'se':
+			if (
+				start >= r1 && start > 0 && !isVowel(w[start - 1]) &&
+				w[start - 1] != 'j'
+			) {
+				w = w.slice(0, start);
+			}
+			break;
+	}
+
+	// Step 2
+	removeE();
+
+	// Step 3a
+	if (w.endsWith('heid') && w.length - 4 >= r2 && w[w.length - 5] != 'c') {
+		w = w.slice(0, -4);
+
+		if (w.endsWith('en')) {
+			removeEn('en');
+		}
+	}
+
+	// Step 3b: d-suffixes
+	const dSuffixFound = dSuffix(w),
+		dStart = w.length - dSuffixFound.length;
+
+	if (dSuffixFound && dStart >= r2) {
+		switch (dSuffixFound) {
+			case 'end':
+			case 'ing':
+				w = w.slice(0, dStart);
+
+				if (
+					w.endsWith('ig') && w.length - 2 >= r2 &&
+					w[w.length - 3] != 'e'
+				) {
+					w = w.slice(0, -2);
+				} else {
+					undouble();
+				}
+				break;
+			case 'ig':
+				if (w[dStart - 1] != 'e') {
+					w = w.slice(0, dStart);
+				}
+				break;
+			case 'lijk':
+				w = w.slice(0, dStart);
+				removeE();
+				break;
+			case 'baar':
+				w = w.slice(0, dStart);
+				break;
+			case 'bar':
+				if (eRemoved) {
+					w = w.slice(0, dStart);
+				}
+				break;
+		}
+	}
+
+	// Step 4: undouble vowel
+	if (/[^aeiouyè](?:aa|ee|oo|uu)[^aeiouyèI]$/.test(w)) {
+		w = w.slice(0, -2) + w.slice(-1);
+	}
+
+	return w.replace(/I/g, 'i').replace(/Y/g, 'y');
+}
+
+/**
+ * dutchStemmer is a Dutch language stemmer, an implementation of the
+ * Snowball Dutch stemming algorithm.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The string to stem
+ * @returns {Token}
+ * @see {@link Pipeline}
+ * @function
+ */
+export function dutchStemmer(token: Token) {
+	return token.update(dutchStem);
+}
+
+/**
+ * dutchStopWordFilter is a Dutch language stop word list filter, the list is
+ * the Snowball Dutch stop word list.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @params {Token} token - A token to check for being a stop word.
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const dutchStopWordFilter = generateStopWordFilter(
+	('aan al alles als altijd andere ben bij daar dan dat de der deze die dit ' +
+		'doch doen door dus een eens en er ge geen geweest haar had heb hebben ' +
+		'heeft hem het hier hij hoe hun iemand iets ik in is ja je kan kon ' +
+		'kunnen maar me meer men met mij mijn moet na naar niet niets nog nu ' +
+		'of om omdat onder ons ook op over reeds te tegen toch toen tot u uit ' +
+		'uw van veel voor want waren was wat werd wezen wie wil worden wordt ' +
+		'zal ze zelf zich zij zijn zo zonder zou').split(' '),
+);
+
+/**
+ * dutchTrimmer trims the characters that are not part of Dutch words from the
+ * beginning and end of tokens.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const dutchTrimmer = generateTrimmer(latinWordCharacters);
+
+Pipeline.registerFunction(<PipelineFunction> dutchStemmer, 'stemmer-nl');
+Pipeline.registerFunction(
+	<PipelineFunction> dutchStopWordFilter,
+	'stopWordFilter-nl',
+);
+Pipeline.registerFunction(<PipelineFunction> dutchTrimmer, 'trimmer-nl');
+
+/**
+ * The pipeline functions for Dutch documents.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const dutch: Language = {
+	code: 'nl',
+	trimmer: <PipelineFunction> dutchTrimmer,
+	stopWordFilter: <PipelineFunction> dutchStopWordFilter,
+	stemmer: <PipelineFunction> dutchStemmer,
+};
@@ -0,0 +1,578 @@
+/*!
+ * French stemmer
+ * An implementation of the Snowball French stemming algorithm
+ * http://snowballstem.org/algorithms/french/stemmer.html
+ */
+
+import { Pipeline } from '../Pipeline.ts';
+import { PipelineFunction } from '../PipelineFunction.ts';
+import { Token } from '../Token.ts';
+import { generateStopWordFilter } from '../stopWordFilter.ts';
+import { generateTrimmer, latinWordCharacters } from '../trimmer.ts';
+import { Language } from './Language.ts';
+import { markLetters, region, suffixMatcher, vowelTest } from './snowball.ts';
+
+const isVowel = vowelTest('aeiouyâàëéêèïîôûù'),
+	standardSuffix = suffixMatcher([
+		'ance',
+		'iqUe',
+		'isme',
+		'able',
+		'iste',
+		'eux',
+		'ances',
+		'iqUes',
+		'ismes',
+		'ables',
+		'istes',
+		'atrice',
+		'ateur',
+		'ation',
+		'atrices',
+		'ateurs',
+		'ations',
+		'logie',
+		'logies',
+		'usion',
+		'ution',
+		'usions',
+		'utions',
+		'ence',
+		'ences',
+		'ement',
+		'ements',
+		'ité',
+		'ités',
+		'if',
+		'ive',
+		'ifs',
+		'ives',
+		'eaux',
+		'aux',
+		'euse',
+		'euses',
+		'issement',
+		'issements',
+		'amment',
+		'emment',
+		'ment',
+		'ments',
+	]),
+	ementSuffix = suffixMatcher(['iv', 'eus', 'abl', 'iqU', 'ièr', 'Ièr']),
+	iteSuffix = suffixMatcher(['abil', 'ic', 'iv']),
+	iVerbSuffix = suffixMatcher([
+		'îmes',
+		'ît',
+		'îtes',
+		'i',
+		'ie',
+		'ies',
+		'ir',
+		'ira',
+		'irai',
+		'iraIent',
+		'irais',
+		'irait',
+		'iras',
+		'irent',
+		'irez',
+		'iriez',
+		'irions',
+		'irons',
+		'iront',
+		'is',
+		'issaIent',
+		'issais',
+		'issait',
+		'issant',
+		'issante',
+		'issantes',
+		'issants',
+		'isse',
+		'issent',
+		'isses',
+		'issez',
+		'issiez',
+		'issions',
+		'issons',
+		'it',
+	]),
+	verbSuffixes = [
+		'é',
+		'ée',
+		'ées',
+		'és',
+		'èrent',
+		'er',
+		'era',
+		'erai',
+		'eraIent',
+		'erais',
+		'erait',
+		'eras',
+		'erez',
+		'eriez',
+		'erions',
+		'erons',
+		'eront',
+		'ez',
+		'iez',
+	],
+	verbSuffixesAfterE = [
+		'âmes',
+		'ât',
+		'âtes',
+		'a',
+		'ai',
+		'aIent',
+		'ais',
+		'ait',
+		'ant',
+		'ante',
+		'antes',
+		'ants',
+		'as',
+		'asse',
+		'assent',
+		'asses',
+		'assiez',
+		'assions',
+	],
+	verbSuffix = suffixMatcher(
+		['ions'].concat(verbSuffixes, verbSuffixesAfterE),
+	),
+	residualSuffix = suffixMatcher([
+		'ion',
+		'ier',
+		'ière',
+		'Ier',
+		'Ière',
+		'e',
+		'ë',
+	]),
+	doubleSuffix = suffixMatcher(['enn', 'onn', 'ett', 'ell', 'eill']);
+
+function frenchStem(word: string) {
+	let w = markLetters(word, function (chars, i) {
+		const ch = chars[i], next = chars[i + 1];
+
+		if (isVowel(ch)) {
+			if ((next == 'u' || next == 'i') && isVowel(chars[i + 2])) {
+				chars[i + 1] = next.toUpperCase();
+				return true;
+			}
+
+			if (next == 'y') {
+				chars[i + 1] = 'Y';
+				return true;
+			}
+		}
+
+		if (ch == 'y' && isVowel(next)) {
+			chars[i] = 'Y';
+			return true;
+		}
+
+		if (ch == 'q' && next == 'u') {
+			chars[i + 1] = 'U';
+			return true;
+		}
+
+		return false;
+	});
+
+	// If the word begins with two vowels, or one of a few exceptions, RV is
+	// the region after the third letter, otherwise it is the region after
+	// the first vowel not at the beginning of the word
+	let rv = w.length;
+
+	if (
+		w.length > 2 &&
+		((isVowel(w[0]) && isVowel(w[1])) || /^(?:par|col|tap)/.test(w))
+	) {
+		rv = 3;
+	} else {
+		for (let i = 1; i < w.length; i++) {
+			if (isVowel(w[i])) {
+				rv = i + 1;
+				break;
+			}
+		}
+	}
+
+	const r1 = region(w, isVowel),
+		r2 = region(w, isVowel, r1);
+
+	// Step 1: standard suffix removal, an ending in -ment is removed but
+	// steps 2a and 2b are still done as it typically follows a verb
+	const removeStandardSuffix = function () {
+		const suffix = standardSuffix(w),
+			start = w.length - suffix.length;
+
+		switch (suffix) {
+			case '':
+				return false;
+			case 'ance':
+			case 'iqUe':
+			case 'isme':
+			case 'able':
+			case 'iste':
+			case 'eux':
+			case 'ances':
+			case 'iqUes':
+			case 'ismes':
+			case 'ables':
+			case 'istes':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+				return true;
+			case 'atrice':
+			case 'ateur':
+			case 'ation':
+			case 'atrices':
+			case 'ateurs':
+			case 'ations':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('ic')) {
+					w = w.slice(0, -2) + (start - 2 >= r2 ? '' : 'iqU');
+				}
+				return true;
+			case 'logie':
+			case 'logies':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'log';
+				return true;
+			case 'usion':
+			case 'ution':
+			case 'usions':
+			case 'utions':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'u';
+				return true;
+			case 'ence':
+			case 'ences':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'ent';
+				return true;
+			case 'ement':
+			case 'ements': {
+				if (start < rv) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = ementSuffix(w),
+					stem = w.slice(0, w.length - preceding.length);
+
+				switch (preceding) {
+					case 'iv':
+						if (stem.length >= r2) {
+							w = stem;
+
+							if (w.endsWith('at') && w.length - 2 >= r2) {
+								w = w.slice(0, -2);
+							}
+						}
+						break;
+					case 'eus':
+						if (stem.length >= r2) {
+							w = stem;
+						} else if (stem.length >= r1) {
+							w = stem + 'eux';
+						}
+						break;
+					case 'abl':
+					case 'iqU':
+						if (stem.length >= r2) {
+							w = stem;
+						}
+						break;
+					case 'ièr':
+					case 'Ièr':
+						if (stem.length >= rv) {
+							w = stem + 'i';
+						}
+						break;
+				}
+				return true;
+			}
+			case 'ité':
+			case 'ités': {
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = iteSuffix(w),
+					stem = w.slice(0, w.length - preceding.length);
+
+				switch (preceding) {
+					case 'abil':
+						w = stem + (stem.length >= r2 ? '' : 'abl');
+						break;
+					case 'ic':
+						w = stem + (stem.length >= r2 ? '' : 'iqU');
+						break;
+					case 'iv':
+						if (stem.length >= r2) {
+							w = stem;
+						}
+						break;
+				}
+				return true;
+			}
+			case 'if':
+			case 'ive':
+			case 'ifs':
+			case 'ives':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('at') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+
+					if (w.endsWith('ic')) {
+						w = w.slice(0, -2) +
+							(w.length - 2 >= r2 ? '' : 'iqU');
+					}
+				}
+				return true;
+			case 'eaux':
+				w = w.slice(0, start) + 'eau';
+				return true;
+			case 'aux':
+				if (start < r1) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'al';
+				return true;
+			case 'euse':
+			case 'euses':
+				if (start >= r2) {
+					w = w.slice(0, start);
+				} else if (start >= r1) {
+					w = w.slice(0, start) + 'eux';
+				} else {
+					return false;
+				}
+				return true;
+			case 'issement':
+			case 'issements':
+				if (start < r1 || isVowel(w[start - 1])) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+				return true;
+			case 'amment':
+				if (start >= rv) {
+					w = w.slice(0, start) + 'ant';
+				}
+				return false;
+			case 'emment':
+				if (start >= rv) {
+					w = w.slice(0, start) + 'ent';
+				}
+				return false;
+			default:
+				// ment, ments
+				if (start - 1 >= rv && isVowel(w[start - 1])) {
+					w = w.slice(0, start);
+				}
+				return false;
+		}
+	};
+
+	// Step 2a: verb suffixes beginning i, preceded by a non-vowel in RV
+	const removeIVerbSuffix = function () {
+		const suffix = iVerbSuffix(w, rv),
+			start = w.length - suffix.length;
+
+		if (suffix && start - 1 >= rv && !isVowel(w[start - 1])) {
+			w = w.slice(0, start);
+			return true;
+		}
+
+		return false;
+	};
+
+	// Step 2b: other verb suffixes in RV
+	const removeVerbSuffix = function () {
+		const suffix = verbSuffix(w, rv),
+			start = w.length - suffix.length;
+
+		if (!suffix || (suffix == 'ions' && start < r2)) {
+			return false;
+		}
+
+		w = w.slice(0, start);
+
+		if (
+			verbSuffixesAfterE.indexOf(suffix) > -1 && w.endsWith('e') &&
+			w.length - 1 >= rv
+		) {
+			w = w.slice(0, -1);
+		}
+
+		return true;
+	};
+
+	if (removeStandardSuffix() || removeIVerbSuffix() || removeVerbSuffix()) {
+		// Step 3
+		if (w.endsWith('Y')) {
+			w = w.slice(0, -1) + 'i';
+		} else if (w.endsWith('ç')) {
+			w = w.slice(0, -1) + 'c';
+		}
+	} else {
+		// Step 4: residual suffix
+		if (
+			w.endsWith('s') && w.length > 1 &&
+			'aiouès'.indexOf(w[w.length - 2]) == -1
+		) {
+			w = w.slice(0, -1);
+		}
+
+		const suffix = residualSuffix(w, rv),
+			start = w.length - suffix.length;
+
+		switch (suffix) {
+			case 'ion':
+				if (
+					start >= r2 && start - 1 >= rv &&
+					(w[start - 1] == 's' || w[start - 1] == 't')
+				) {
+					w = w.slice(0, start);
+				}
+				break;
+			case 'ier':
+			case 'ière':
+			case 'Ier':
+			case 'Ière':
+				w = w.slice(0, start) + 'i';
+				break;
+			case 'e':
+				w = w.slice(0, start);
+				break;
+			case 'ë':
+				if (start - 2 >= rv && w.slice(start - 2, start) == 'gu') {
+					w = w.slice(0, start);
+				}
+				break;
+		}
+	}
+
+	// Step 5: undouble
+	if (doubleSuffix(w)) {
+		w = w.slice(0, -1);
+	}
+
+	// Step 6: un-accent
+	let i = w.length;
+
+	while (i > 0 && !isVowel(w[i - 1])) {
+		i--;
+	}
+
+	if (i < w.length && (w[i - 1] == 'é' || w[i - 1] == 'è')) {
+		w = w.slice(0, i - 1) + 'e' + w.slice(i);
+	}
+
+	return w.replace(/I/g, 'i').replace(/U/g, 'u').replace(/Y/g, 'y');
+}
+
+/**
+ * frenchStemmer is a French language stemmer, an implementation of the
+ * Snowball French stemming algorithm.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The string to stem
+ * @returns {Token}
+ * @see {@link Pipeline}
+ * @function
+ */
+export function frenchStemmer(token: Token) {
+	return token.update(frenchStem);
+}
+
+/**
+ * frenchStopWordFilter is a French language stop word list filter, the list
+ * is the Snowball French stop word list.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @params {Token} token - A token to check for being a stop word.
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const frenchStopWordFilter = generateStopWordFilter(
+	('ai aie aient aies ait as au aura aurai auraient aurais aurait auras ' +
+		'aurez auriez aurions aurons auront aux avaient avais avait avec avez ' +
+		'aviez avions avons ayant ayez ayons c ce ceci cela celà ces cet cette ' +
+		'd dans de des du elle en es est et eu eue eues eurent eus eusse ' +
+		'eussent eusses eussiez eussions eut eux eûmes eût eûtes furent fus ' +
+		'fusse fussent fusses fussiez fussions fut fûmes fût fûtes ici il ils ' +
+		'j je l la le les leur leurs lui m ma mais me mes moi mon même n ne nos ' +
+		'notre nous on ont ou par pas pour qu que quel quelle quelles quels ' +
+		'qui s sa sans se sera serai seraient serais serait seras serez seriez ' +
+		'serions serons seront ses soi soient sois soit sommes son sont soyez ' +
+		'soyons suis sur t ta te tes toi ton tu un une vos votre vous y à ' +
+		'étaient étais était étant étiez étions été étée étées étés êtes')
+		.split(' '),
+);
+
+/**
+ * frenchTrimmer trims the characters that are not part of French words from
+ * the beginning and end of tokens.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const frenchTrimmer = generateTrimmer(latinWordCharacters);
+
+Pipeline.registerFunction(<PipelineFunction> frenchStemmer, 'stemmer-fr');
+Pipeline.registerFunction(
+	<PipelineFunction> frenchStopWordFilter,
+	'stopWordFilter-fr',
+);
+Pipeline.registerFunction(<PipelineFunction> frenchTrimmer, 'trimmer-fr');
+
+/**
+ * The pipeline functions for French documents.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const french: Language = {
+	code: 'fr',
+	trimmer: <PipelineFunction> frenchTrimmer,
+	stopWordFilter: <PipelineFunction> frenchStopWordFilter,
+	stemmer: <PipelineFunction> frenchStemmer,
+};
@@ -0,0 +1,219 @@
+/*!
+ * German stemmer
+ * An implementation of the Snowball German stemming algorithm
+ * http://snowballstem.org/algorithms/german/stemmer.html
+ */
+
+import { Pipeline } from '../Pipeline.ts';
+import { PipelineFunction } from '../PipelineFunction.ts';
+import { Token } from '../Token.ts';
+import { generateStopWordFilter } from '../stopWordFilter.ts';
+import { generateTrimmer, latinWordCharacters } from '../trimmer.ts';
+import { Language } from './Language.ts';
+import { markLetters, region, suffixMatcher, vowelTest } from './snowball.ts';
+
+const isVowel = vowelTest('aeiouyäöü'),
+	sEnding = 'bdfghklmnrt',
+	stEnding = 'bdfghklmnt',
+	step1Suffix = suffixMatcher(['em', 'ern', 'er', 'e', 'en', 'es', 's']),
+	step2Suffix = suffixMatcher(['en', 'er', 'est', 'st']),
+	step3Suffix = suffixMatcher([
+		'end',
+		'ung',
+		'ig',
+		'ik',
+		'isch',
+		'lich',
+		'heit',
+		'keit',
+	]);
+
+function germanStem(word: string) {
+	let w = markLetters(word.replace(/ß/g, 'ss'), function (chars, i) {
+		const next = chars[i + 1];
+
+		if (
+			isVowel(chars[i]) && (next == 'u' || next == 'y') &&
+			isVowel(chars[i + 2] || '')
+		) {
+			chars[i + 1] = next.toUpperCase();
+			return true;
+		}
+
+		return false;
+	});
+
+	// R1 is adjusted so that the region before it contains at least 3 letters,
+	// R2 is found from the unadjusted R1
+	let r1 = region(w, isVowel);
+	const r2 = region(w, isVowel, r1);
+	r1 = Math.max(3, r1);
+
+	// Step 1
+	let suffix = step1Suffix(w);
+
+	if (suffix && w.length - suffix.length >= r1) {
+		const stem = w.slice(0, -suffix.length);
+
+		if (suffix == 's') {
+			if (sEnding.indexOf(stem.slice(-1)) > -1) {
+				w = stem;
+			}
+		} else {
+			w = stem;
+
+			if (
+				(suffix == 'e' || suffix == 'en' || suffix == 'es') &&
+				w.endsWith('niss')
+			) {
+				w = w.slice(0, -1);
+			}
+		}
+	}
+
+	// Step 2
+	suffix = step2Suffix(w);
+
+	if (suffix && w.length - suffix.length >= r1) {
+		const stem = w.slice(0, -suffix.length);
+
+		if (suffix != 'st') {
+			w = stem;
+		} else if (
+			stem.length >= 4 && stEnding.indexOf(stem.slice(-1)) > -1
+		) {
+			w = stem;
+		}
+	}
+
+	// Step 3: d-suffixes
+	suffix = step3Suffix(w);
+
+	if (suffix && w.length - suffix.length >= r2) {
+		const stem = w.slice(0, -suffix.length);
+
+		switch (suffix) {
+			case 'end':
+			case 'ung':
+				w = stem;
+
+				if (
+					w.endsWith('ig') && w.length - 2 >= r2 &&
+					!w.endsWith('eig')
+				) {
+					w = w.slice(0, -2);
+				}
+				break;
+			case 'ig':
+			case 'ik':
+			case 'isch':
+				if (!stem.endsWith('e')) {
+					w = stem;
+				}
+				break;
+			case 'lich':
+			case 'heit':
+				w = stem;
+
+				if (
+					(w.endsWith('er') || w.endsWith('en')) &&
+					w.length - 2 >= r1
+				) {
+					w = w.slice(0, -2);
+				}
+				break;
+			case 'keit':
+				w = stem;
+
+				if (w.endsWith('lich') && w.length - 4 >= r2) {
+					w = w.slice(0, -4);
+				} else if (w.endsWith('ig') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+				}
+				break;
+		}
+	}
+
+	return w.replace(/U/g, 'u').replace(/Y/g, 'y')
+		.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u');
+}
+
+/**
+ * germanStemmer is a German language stemmer, an implementation of the
+ * Snowball German stemming algorithm.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The string to stem
+ * @returns {Token}
+ * @see {@link Pipeline}
+ * @function
+ */
+export function germanStemmer(token: Token) {
+	return token.update(germanStem);
+}
+
+/**
+ * germanStopWordFilter is a German language stop word list filter, the list
+ * is the Snowball German stop word list.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @params {Token} token - A token to check for being a stop word.
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const germanStopWordFilter = generateStopWordFilter(
+	('aber alle allem allen aller alles als also am an ander andere anderem ' +
+		'anderen anderer anderes anderm andern anderr anders auch auf aus bei ' +
+		'bin bis bist da damit dann das dasselbe dazu daß dein deine deinem ' +
+		'deinen deiner deines dem demselben den denn denselben der derer ' +
+		'derselbe derselben des desselben dessen dich die dies diese dieselbe ' +
+		'dieselben diesem diesen dieser dieses dir doch dort du durch ein eine ' +
+		'einem einen einer eines einig einige einigem einigen einiger einiges ' +
+		'einmal er es etwas euch euer eure eurem euren eurer eures für gegen ' +
+		'gewesen hab habe haben hat hatte hatten hier hin hinter ich ihm ihn ' +
+		'ihnen ihr ihre ihrem ihren ihrer ihres im in indem ins ist jede jedem ' +
+		'jeden jeder jedes jene jenem jenen jener jenes jetzt kann kein keine ' +
+		'keinem keinen keiner keines können könnte machen man manche manchem ' +
+		'manchen mancher manches mein meine meinem meinen meiner meines mich ' +
+		'mir mit muss musste nach nicht nichts noch nun nur ob oder ohne sehr ' +
+		'sein seine seinem seinen seiner seines selbst sich sie sind so solche ' +
+		'solchem solchen solcher solches soll sollte sondern sonst um und uns ' +
+		'unser unsere unserem unseren unserer unseres unter viel vom von vor war ' +
+		'waren warst was weg weil weiter welche welchem welchen welcher ' +
+		'welches wenn werde werden wie wieder will wir wird wirst wo wollen ' +
+		'wollte während würde würden zu zum zur zwar zwischen über').split(' '),
+);
+
+/**
+ * germanTrimmer trims the characters that are not part of German words from
+ * the beginning and end of tokens.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const germanTrimmer = generateTrimmer(latinWordCharacters);
+
+Pipeline.registerFunction(<PipelineFunction> germanStemmer, 'stemmer-de');
+Pipeline.registerFunction(
+	<PipelineFunction> germanStopWordFilter,
+	'stopWordFilter-de',
+);
+Pipeline.registerFunction(<PipelineFunction> germanTrimmer, 'trimmer-de');
+
+/**
+ * The pipeline functions for German documents.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const german: Language = {
+	code: 'de',
+	trimmer: <PipelineFunction> germanTrimmer,
+	stopWordFilter: <PipelineFunction> germanStopWordFilter,
+	stemmer: <PipelineFunction> germanStemmer,
+};
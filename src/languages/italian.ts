@@ -0,0 +1,479 @@
+/*!
+ * Italian stemmer
+ * An implementation of the Snowball Italian stemming algorithm
+ * http://snowballstem.org/algorithms/italian/stemmer.html
+ */
+
+import { Pipeline } from '../Pipeline.ts';
+import { PipelineFunction } from '../PipelineFunction.ts';
+import { Token } from '../Token.ts';
+import { generateStopWordFilter } from '../stopWordFilter.ts';
+import { generateTrimmer, latinWordCharacters } from '../trimmer.ts';
+import { Language } from './Language.ts';
+import {
+	markLetters,
+	region,
+	romanceRV,
+	suffixMatcher,
+	vowelTest,
+} from './snowball.ts';
+
+const isVowel = vowelTest('aeiouàèìòù'),
+	graveAccents: { [acute: string]: string } = {
+		'á': 'à',
+		'é': 'è',
+		'í': 'ì',
+		'ó': 'ò',
+		'ú': 'ù',
+	},
+	pronounSuffix = suffixMatcher([
+		'ci',
+		'gli',
+		'la',
+		'le',
+		'li',
+		'lo',
+		'mi',
+		'ne',
+		'si',
+		'ti',
+		'vi',
+		'sene',
+		'gliela',
+		'gliele',
+		'glieli',
+		'glielo',
+		'gliene',
+		'mela',
+		'mele',
+		'meli',
+		'melo',
+		'mene',
+		'tela',
+		'tele',
+		'teli',
+		'telo',
+		'tene',
+		'cela',
+		'cele',
+		'celi',
+		'celo',
+		'cene',
+		'vela',
+		'vele',
+		'veli',
+		'velo',
+		'vene',
+	]),
+	pronounEnding = suffixMatcher(['ando', 'endo', 'ar', 'er', 'ir']),
+	standardSuffix = suffixMatcher([
+		'anza',
+		'anze',
+		'ico',
+		'ici',
+		'ica',
+		'ice',
+		'iche',
+		'ichi',
+		'ismo',
+		'ismi',
+		'abile',
+		'abili',
+		'ibile',
+		'ibili',
+		'ista',
+		'iste',
+		'isti',
+		'istà',
+		'istè',
+		'istì',
+		'oso',
+		'osi',
+		'osa',
+		'ose',
+		'mente',
+		'atrice',
+		'atrici',
+		'ante',
+		'anti',
+		'azione',
+		'azioni',
+		'atore',
+		'atori',
+		'logia',
+		'logie',
+		'uzione',
+		'uzioni',
+		'usione',
+		'usioni',
+		'enza',
+		'enze',
+		'amento',
+		'amenti',
+		'imento',
+		'imenti',
+		'amente',
+		'ità',
+		'ivo',
+		'ivi',
+		'iva',
+		'ive',
+	]),
+	amenteSuffix = suffixMatcher(['iv', 'os', 'ic', 'abil']),
+	itaSuffix = suffixMatcher(['abil', 'ic', 'iv']),
+	verbSuffix = suffixMatcher([
+		'ammo',
+		'ando',
+		'ano',
+		'are',
+		'arono',
+		'asse',
+		'assero',
+		'assi',
+		'assimo',
+		'ata',
+		'ate',
+		'ati',
+		'ato',
+		'ava',
+		'avamo',
+		'avano',
+		'avate',
+		'avi',
+		'avo',
+		'emmo',
+		'enda',
+		'ende',
+		'endi',
+		'endo',
+		'erà',
+		'erai',
+		'eranno',
+		'ere',
+		'erebbe',
+		'erebbero',
+		'erei',
+		'eremmo',
+		'eremo',
+		'ereste',
+		'eresti',
+		'erete',
+		'erò',
+		'erono',
+		'essero',
+		'ete',
+		'eva',
+		'evamo',
+		'evano',
+		'evate',
+		'evi',
+		'evo',
+		'iamo',
+		'immo',
+		'irà',
+		'irai',
+		'iranno',
+		'ire',
+		'irebbe',
+		'irebbero',
+		'irei',
+		'iremmo',
+		'iremo',
+		'ireste',
+		'iresti',
+		'irete',
+		'irò',
+		'irono',
+		'isca',
+		'iscano',
+		'isce',
+		'isci',
+		'isco',
+		'iscono',
+		'issero',
+		'ita',
+		'ite',
+		'iti',
+		'ito',
+		'iva',
+		'ivamo',
+		'ivano',
+		'ivate',
+		'ivi',
+		'ivo',
+		'ono',
+		'uta',
+		'ute',
+		'uti',
+		'uto',
+		'ar',
+		'ir',
+	]);
+
+function italianStem(word: string) {
+	let w = markLetters(
+		word.replace(/[áéíóú]/g, function (acute) {
+			return graveAccents[acute];
+		}).replace(/qu/g, 'qU'),
+		function (chars, i) {
+			const next = chars[i + 1];
+
+			if (
+				isVowel(chars[i]) && (next == 'u' || next == 'i') &&
+				isVowel(chars[i + 2])
+			) {
+				chars[i + 1] = next.toUpperCase();
+				return true;
+			}
+
+			return false;
+		},
+	);
+
+	const rv = romanceRV(w, isVowel),
+		r1 = region(w, isVowel),
+		r2 = region(w, isVowel, r1);
+
+	// Step 0: attached pronoun, after a gerund or an infinitive in RV
+	const pronoun = pronounSuffix(w);
+
+	if (pronoun) {
+		const stem = w.slice(0, w.length - pronoun.length),
+			ending = pronounEnding(stem);
+
+		if (ending && stem.length - ending.length >= rv) {
+			w = stem + (ending == 'ando' || ending == 'endo' ? '' : 'e');
+		}
+	}
+
+	// Step 1: standard suffix removal
+	const removeStandardSuffix = function () {
+		const suffix = standardSuffix(w),
+			start = w.length - suffix.length;
+
+		switch (suffix) {
+			case '':
+				return false;
+			case 'azione':
+			case 'azioni':
+			case 'atore':
+			case 'atori':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('ic') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+				}
+				return true;
+			case 'logia':
+			case 'logie':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'log';
+				return true;
+			case 'uzione':
+			case 'uzioni':
+			case 'usione':
+			case 'usioni':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'u';
+				return true;
+			case 'enza':
+			case 'enze':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'ente';
+				return true;
+			case 'amento':
+			case 'amenti':
+			case 'imento':
+			case 'imenti':
+				if (start < rv) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+				return true;
+			case 'amente': {
+				if (start < r1) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = amenteSuffix(w);
+
+				if (preceding && w.length - preceding.length >= r2) {
+					w = w.slice(0, -preceding.length);
+
+					if (
+						preceding == 'iv' && w.endsWith('at') &&
+						w.length - 2 >= r2
+					) {
+						w = w.slice(0, -2);
+					}
+				}
+				return true;
+			}
+			case 'ità': {
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = itaSuffix(w);
+
+				if (preceding && w.length - preceding.length >= r2) {
+					w = w.slice(0, -preceding.length);
+				}
+				return true;
+			}
+			case 'ivo':
+			case 'ivi':
+			case 'iva':
+			case 'ive':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('at') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+
+					if (w.endsWith('ic') && w.length - 2 >= r2) {
+						w = w.slice(0, -2);
+					}
+				}
+				return true;
+			default:
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+				return true;
+		}
+	};
+
+	// Step 2: verb suffixes in RV
+	if (!removeStandardSuffix()) {
+		const suffix = verbSuffix(w, rv);
+
+		if (suffix) {
+			w = w.slice(0, w.length - suffix.length);
+		}
+	}
+
+	// Step 3a: a final vowel in RV, and an i before it in RV
+	if (/[aeioàèìò]$/.test(w) && w.length - 1 >= rv) {
+		w = w.slice(0, -1);
+
+		if (w.endsWith('i') && w.length - 1 >= rv) {
+			w = w.slice(0, -1);
+		}
+	}
+
+	// Step 3b: ch and gh in RV
+	if ((w.endsWith('ch') || w.endsWith('gh')) && w.length - 2 >= rv) {
+		w = w.slice(0, -1);
+	}
+
+	return w.replace(/I/g, 'i').replace(/U/g, 'u');
+}
+
+/**
+ * italianStemmer is an Italian language stemmer, an implementation of the
+ * Snowball Italian stemming algorithm.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The string to stem
+ * @returns {Token}
+ * @see {@link Pipeline}
+ * @function
+ */
+export function italianStemmer(token: Token) {
+	return token.update(italianStem);
+}
+
+/**
+ * italianStopWordFilter is an Italian language stop word list filter, the
+ * list is the Snowball Italian stop word list.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @params {Token} token - A token to check for being a stop word.
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const italianStopWordFilter = generateStopWordFilter(
+	('a abbia abbiamo abbiano abbiate ad agl agli ai al all alla alle allo ' +
+		'anche avemmo avendo avesse avessero avessi avessimo aveste avesti ' +
+		'avete aveva avevamo avevano avevate avevi avevo avrai avranno ' +
+		'avrebbe avrebbero avrei avremmo avremo avreste avresti avrete avrà ' +
+		'avrò avuta avute avuti avuto c che chi ci coi col come con contro cui ' +
+		'da dagl dagli dai dal dall dalla dalle dallo degl degli dei del dell ' +
+		'della delle dello di dov dove e ebbe ebbero ebbi ed era erano eravamo ' +
+		'eravate eri ero essendo faccia facciamo facciano facciate faccio ' +
+		'facemmo facendo facesse facessero facessi facessimo faceste facesti ' +
+		'faceva facevamo facevano facevate facevi facevo fai fanno farai ' +
+		'faranno farebbe farebbero farei faremmo faremo fareste faresti farete ' +
+		'farà farò fece fecero feci fosse fossero fossi fossimo foste fosti fu ' +
+		'fui fummo furono gli ha hai hanno ho i il in io l la le lei li lo loro ' +
+		'lui ma mi mia mie miei mio ne negl negli nei nel nell nella nelle ' +
+		'nello noi non nostra nostre nostri nostro o per perché più quale ' +
+		'quanta quante quanti quanto quella quelle quelli quello questa queste ' +
+		'questi questo sarai saranno sarebbe sarebbero sarei saremmo saremo ' +
+		'sareste saresti sarete sarà sarò se sei si sia siamo siano siate ' +
+		'siete sono sta stai stando stanno starai staranno starebbe ' +
+		'starebbero starei staremmo staremo stareste staresti starete starà ' +
+		'starò stava stavamo stavano stavate stavi stavo stemmo stesse ' +
+		'stessero stessi stessimo steste stesti stette stettero stetti stia ' +
+		'stiamo stiano stiate sto su sua sue sugl sugli sui sul sull sulla ' +
+		'sulle sullo suo suoi ti tra tu tua tue tuo tuoi tutti tutto un una ' +
+		'uno vi voi vostra vostre vostri vostro è').split(' '),
+);
+
+/**
+ * italianTrimmer trims the characters that are not part of Italian words from
+ * the beginning and end of tokens.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const italianTrimmer = generateTrimmer(latinWordCharacters);
+
+Pipeline.registerFunction(<PipelineFunction> italianStemmer, 'stemmer-it');
+Pipeline.registerFunction(
+	<PipelineFunction> italianStopWordFilter,
+	'stopWordFilter-it',
+);
+Pipeline.registerFunction(<PipelineFunction> italianTrimmer, 'trimmer-it');
+
+/**
+ * The pipeline functions for Italian documents.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const italian: Language = {
+	code: 'it',
+	trimmer: <PipelineFunction> italianTrimmer,
+	stopWordFilter: <PipelineFunction> italianStopWordFilter,
+	stemmer: <PipelineFunction> italianStemmer,
+};
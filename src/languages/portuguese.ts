@@ -0,0 +1,425 @@
+/*!
+ * Portuguese stemmer
+ * An implementation of the Snowball Portuguese stemming algorithm
+ * http://snowballstem.org/algorithms/portuguese/stemmer.html
+ */
+
+import { Pipeline } from '../Pipeline.ts';
+import { PipelineFunction } from '../PipelineFunction.ts';
+import { Token } from '../Token.ts';
+import { generateStopWordFilter } from '../stopWordFilter.ts';
+import { generateTrimmer, latinWordCharacters } from '../trimmer.ts';
+import { Language } from './Language.ts';
+import { region, romanceRV, suffixMatcher, vowelTest } from './snowball.ts';
+
+const isVowel = vowelTest('aeiouáéíóúâêô'),
+	standardSuffix = suffixMatcher([
+		'eza',
+		'ezas',
+		'ico',
+		'ica',
+		'icos',
+		'icas',
+		'ismo',
+		'ismos',
+		'ável',
+		'ível',
+		'ista',
+		'istas',
+		'oso',
+		'osa',
+		'osos',
+		'osas',
+		'amento',
+		'amentos',
+		'imento',
+		'imentos',
+		'adora',
+		'ador',
+		'aça~o',
+		'adoras',
+		'adores',
+		'aço~es',
+		'ante',
+		'antes',
+		'ância',
+		'logia',
+		'logias',
+		'uça~o',
+		'uço~es',
+		'ência',
+		'ências',
+		'amente',
+		'mente',
+		'idade',
+		'idades',
+		'iva',
+		'ivo',
+		'ivas',
+		'ivos',
+		'ira',
+		'iras',
+	]),
+	amenteSuffix = suffixMatcher(['iv', 'os', 'ic', 'ad']),
+	menteSuffix = suffixMatcher(['ante', 'avel', 'ível']),
+	idadeSuffix = suffixMatcher(['abil', 'ic', 'iv']),
+	verbSuffix = suffixMatcher([
+		'ada',
+		'ida',
+		'ia',
+		'aria',
+		'eria',
+		'iria',
+		'ará',
+		'ara',
+		'erá',
+		'era',
+		'irá',
+		'ava',
+		'asse',
+		'esse',
+		'isse',
+		'aste',
+		'este',
+		'iste',
+		'ei',
+		'arei',
+		'erei',
+		'irei',
+		'am',
+		'iam',
+		'ariam',
+		'eriam',
+		'iriam',
+		'aram',
+		'eram',
+		'iram',
+		'avam',
+		'em',
+		'arem',
+		'erem',
+		'irem',
+		'assem',
+		'essem',
+		'issem',
+		'ado',
+		'ido',
+		'ando',
+		'endo',
+		'indo',
+		'ara~o',
+		'era~o',
+		'ira~o',
+		'ar',
+		'er',
+		'ir',
+		'as',
+		'adas',
+		'idas',
+		'ias',
+		'arias',
+		'erias',
+		'irias',
+		'arás',
+		'aras',
+		'erás',
+		'eras',
+		'irás',
+		'avas',
+		'es',
+		'ardes',
+		'erdes',
+		'irdes',
+		'ares',
+		'eres',
+		'ires',
+		'asses',
+		'esses',
+		'isses',
+		'astes',
+		'estes',
+		'istes',
+		'is',
+		'ais',
+		'eis',
+		'íeis',
+		'aríeis',
+		'eríeis',
+		'iríeis',
+		'áreis',
+		'areis',
+		'éreis',
+		'ereis',
+		'íreis',
+		'ireis',
+		'ásseis',
+		'ésseis',
+		'ísseis',
+		'áveis',
+		'ados',
+		'idos',
+		'ámos',
+		'amos',
+		'íamos',
+		'aríamos',
+		'eríamos',
+		'iríamos',
+		'áramos',
+		'éramos',
+		'íramos',
+		'ávamos',
+		'emos',
+		'aremos',
+		'eremos',
+		'iremos',
+		'ássemos',
+		'êssemos',
+		'íssemos',
+		'imos',
+		'armos',
+		'ermos',
+		'irmos',
+		'eu',
+		'iu',
+		'ou',
+		'ira',
+		'iras',
+	]),
+	residualSuffix = suffixMatcher(['os', 'a', 'i', 'o', 'á', 'í', 'ó']),
+	residualForm = suffixMatcher(['e', 'é', 'ê', 'ç']);
+
+function portugueseStem(word: string) {
+	// nasalised vowels are treated as a vowel followed by a consonant
+	let w = word.replace(/ã/g, 'a~').replace(/õ/g, 'o~');
+
+	const rv = romanceRV(w, isVowel),
+		r1 = region(w, isVowel),
+		r2 = region(w, isVowel, r1);
+
+	// Step 1: standard suffix removal
+	const removeStandardSuffix = function () {
+		const suffix = standardSuffix(w),
+			start = w.length - suffix.length;
+
+		switch (suffix) {
+			case '':
+				return false;
+			case 'logia':
+			case 'logias':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'log';
+				return true;
+			case 'uça~o':
+			case 'uço~es':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'u';
+				return true;
+			case 'ência':
+			case 'ências':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'ente';
+				return true;
+			case 'amente': {
+				if (start < r1) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = amenteSuffix(w);
+
+				if (preceding && w.length - preceding.length >= r2) {
+					w = w.slice(0, -preceding.length);
+
+					if (
+						preceding == 'iv' && w.endsWith('at') &&
+						w.length - 2 >= r2
+					) {
+						w = w.slice(0, -2);
+					}
+				}
+				return true;
+			}
+			case 'mente':
+			case 'idade':
+			case 'idades': {
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = suffix == 'mente'
+					? menteSuffix(w)
+					: idadeSuffix(w);
+
+				if (preceding && w.length - preceding.length >= r2) {
+					w = w.slice(0, -preceding.length);
+				}
+				return true;
+			}
+			case 'iva':
+			case 'ivo':
+			case 'ivas':
+			case 'ivos':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('at') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+				}
+				return true;
+			case 'ira':
+			case 'iras':
+				// -eira and -eiras are usually not verb endings
+				if (start < rv || w[start - 1] != 'e') {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'ir';
+				return true;
+			default:
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+				return true;
+		}
+	};
+
+	// Step 2: verb suffixes in RV
+	const removeVerbSuffix = function () {
+		const suffix = verbSuffix(w, rv);
+
+		if (!suffix) {
+			return false;
+		}
+
+		w = w.slice(0, w.length - suffix.length);
+		return true;
+	};
+
+	if (removeStandardSuffix() || removeVerbSuffix()) {
+		// Step 3
+		if (w.endsWith('ci') && w.length - 1 >= rv) {
+			w = w.slice(0, -1);
+		}
+	} else {
+		// Step 4: residual suffix
+		const suffix = residualSuffix(w);
+
+		if (suffix && w.length - suffix.length >= rv) {
+			w = w.slice(0, -suffix.length);
+		}
+	}
+
+	// Step 5
+	const suffix = residualForm(w),
+		start = w.length - suffix.length;
+
+	if (suffix == 'ç') {
+		w = w.slice(0, start) + 'c';
+	} else if (suffix && start >= rv) {
+		w = w.slice(0, start);
+
+		if (
+			(w.endsWith('gu') || w.endsWith('ci')) && w.length - 1 >= rv
+		) {
+			w = w.slice(0, -1);
+		}
+	}
+
+	return w.replace(/a~/g, 'ã').replace(/o~/g, 'õ');
+}
+
+/**
+ * portugueseStemmer is a Portuguese language stemmer, an implementation of the
+ * Snowball Portuguese stemming algorithm.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The string to stem
+ * @returns {Token}
+ * @see {@link Pipeline}
+ * @function
+ */
+export function portugueseStemmer(token: Token) {
+	return token.update(portugueseStem);
+}
+
+/**
+ * portugueseStopWordFilter is a Portuguese language stop word list filter,
+ * the list is the Snowball Portuguese stop word list.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @params {Token} token - A token to check for being a stop word.
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const portugueseStopWordFilter = generateStopWordFilter(
+	('a ao aos aquela aquelas aquele aqueles aquilo as até com como da das de ' +
+		'dela delas dele deles depois do dos e ela elas ele eles em entre era ' +
+		'eram essa essas esse esses esta estamos estas estava estavam este ' +
+		'esteja estejam estejamos estes esteve estive estivemos estiver ' +
+		'estivera estiveram estiverem estivermos estivesse estivessem ' +
+		'estivéramos estivéssemos estou está estávamos estão eu foi fomos for ' +
+		'fora foram forem formos fosse fossem fui fôramos fôssemos haja hajam ' +
+		'hajamos havemos hei houve houvemos houver houvera houveram houverei ' +
+		'houverem houveremos houveria houveriam houvermos houverá houverão ' +
+		'houveríamos houvesse houvessem houvéramos houvéssemos há hão isso ' +
+		'isto já lhe lhes mais mas me mesmo meu meus minha minhas muito na nas ' +
+		'nem no nos nossa nossas nosso nossos num numa não nós o os ou para ' +
+		'pela pelas pelo pelos por qual quando que quem se seja sejam sejamos ' +
+		'sem serei seremos seria seriam será serão seríamos seu seus somos sou ' +
+		'sua suas são só também te tem temos tenha tenham tenhamos tenho terei ' +
+		'teremos teria teriam terá terão teríamos teu teus teve tinha tinham ' +
+		'tive tivemos tiver tivera tiveram tiverem tivermos tivesse tivessem ' +
+		'tivéramos tivéssemos tu tua tuas tém tínhamos um uma você vocês vos ' +
+		'à às éramos').split(' '),
+);
+
+/**
+ * portugueseTrimmer trims the characters that are not part of Portuguese
+ * words from the beginning and end of tokens.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const portugueseTrimmer = generateTrimmer(latinWordCharacters);
+
+Pipeline.registerFunction(<PipelineFunction> portugueseStemmer, 'stemmer-pt');
+Pipeline.registerFunction(
+	<PipelineFunction> portugueseStopWordFilter,
+	'stopWordFilter-pt',
+);
+Pipeline.registerFunction(<PipelineFunction> portugueseTrimmer, 'trimmer-pt');
+
+/**
+ * The pipeline functions for Portuguese documents.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const portuguese: Language = {
+	code: 'pt',
+	trimmer: <PipelineFunction> portugueseTrimmer,
+	stopWordFilter: <PipelineFunction> portugueseStopWordFilter,
+	stemmer: <PipelineFunction> portugueseStemmer,
+};
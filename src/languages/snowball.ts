@@ -0,0 +1,138 @@
+/*!
+ * Helpers shared by the Snowball stemmers
+ * http://snowballstem.org/
+ */
+
+/**
+ * Builds a test for whether a character is one of the vowels of a language.
+ *
+ * @private
+ * @param {string} vowels - The vowels of the language.
+ * @returns {function}
+ */
+export function vowelTest(vowels: string) {
+	return function (ch: string) {
+		return ch !== '' && vowels.indexOf(ch) > -1;
+	};
+}
+
+/**
+ * Finds the start of the region after the first non-vowel following a vowel,
+ * looking from the passed position. This is how the Snowball algorithms
+ * define R1, R2 is the same region found again from the start of R1.
+ *
+ * @private
+ * @param {string} word - The word to look in.
+ * @param {function} isVowel - The vowel test of the language.
+ * @param {number} [start=0] - The position to look from.
+ * @returns {number} - The start of the region, the length of the word if there is none.
+ */
+export function region(
+	word: string,
+	isVowel: (ch: string) => boolean,
+	start = 0,
+): number {
+	for (let i = start + 1; i < word.length; i++) {
+		if (!isVowel(word[i]) && isVowel(word[i - 1])) {
+			return i + 1;
+		}
+	}
+
+	return word.length;
+}
+
+/**
+ * Finds the start of RV as defined by the Spanish, Portuguese and Italian
+ * Snowball algorithms.
+ *
+ * If the second letter is a consonant, RV is the region after the next
+ * following vowel, if the first two letters are vowels, RV is the region
+ * after the next consonant, and otherwise RV is the region after the third
+ * letter.
+ *
+ * @private
+ * @param {string} word - The word to look in.
+ * @param {function} isVowel - The vowel test of the language.
+ * @returns {number} - The start of RV, the length of the word if there is none.
+ */
+export function romanceRV(
+	word: string,
+	isVowel: (ch: string) => boolean,
+): number {
+	if (word.length < 2) {
+		return word.length;
+	}
+
+	if (isVowel(word[0]) && isVowel(word[1])) {
+		for (let i = 2; i < word.length; i++) {
+			if (!isVowel(word[i])) {
+				return i + 1;
+			}
+		}
+
+		return word.length;
+	}
+
+	if (!isVowel(word[1])) {
+		for (let i = 2; i < word.length; i++) {
+			if (isVowel(word[i])) {
+				return i + 1;
+			}
+		}
+
+		return word.length;
+	}
+
+	return Math.min(3, word.length);
+}
+
+/**
+ * Builds a function finding the longest of a list of suffixes a word ends
+ * with. A limit excludes the suffixes starting before it, the way Snowball
+ * restricts a search to a region.
+ *
+ * @private
+ * @param {string[]} suffixes - The suffixes to look for.
+ * @returns {function} - Returns the longest matching suffix, or an empty string.
+ */
+export function suffixMatcher(suffixes: string[]) {
+	const sorted = suffixes.slice().sort(function (a, b) {
+		return b.length - a.length;
+	});
+
+	return function (word: string, limit = 0): string {
+		for (const suffix of sorted) {
+			if (
+				word.length - suffix.length >= limit &&
+				word.endsWith(suffix)
+			) {
+				return suffix;
+			}
+		}
+
+		return '';
+	};
+}
+
+/**
+ * Marks letters of a word, scanning it from the start with every earlier mark
+ * already applied. This is how the Snowball algorithms put letters which are
+ * to be treated as consonants in upper case, e.g. a 'u' between vowels.
+ *
+ * @private
+ * @param {string} word - The word to mark.
+ * @param {function} mark - Marks the letters of the array at a position, returning whether it did.
+ * @returns {string}
+ */
+export function markLetters(
+	word: string,
+	mark: (chars: string[], i: number) => boolean,
+): string {
+	const chars = word.split('');
+
+	for (let i = 0; i < chars.length; i++) {
+		while (mark(chars, i));
+	}
+
+	return chars.join('');
+}
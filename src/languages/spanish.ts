@@ -0,0 +1,517 @@
+/*!
+ * Spanish stemmer
+ * An implementation of the Snowball Spanish stemming algorithm
+ * http://snowballstem.org/algorithms/spanish/stemmer.html
+ */
+
+import { Pipeline } from '../Pipeline.ts';
+import { PipelineFunction } from '../PipelineFunction.ts';
+import { Token } from '../Token.ts';
+import { generateStopWordFilter } from '../stopWordFilter.ts';
+import { generateTrimmer, latinWordCharacters } from '../trimmer.ts';
+import { Language } from './Language.ts';
+import { region, romanceRV, suffixMatcher, vowelTest } from './snowball.ts';
+
+const isVowel = vowelTest('aeiouáéíóúü'),
+	pronounSuffix = suffixMatcher([
+		'me',
+		'se',
+		'sela',
+		'selo',
+		'selas',
+		'selos',
+		'la',
+		'le',
+		'lo',
+		'las',
+		'les',
+		'los',
+		'nos',
+	]),
+	pronounEnding = suffixMatcher([
+		'iéndo',
+		'ándo',
+		'ár',
+		'ér',
+		'ír',
+		'ando',
+		'iendo',
+		'ar',
+		'er',
+		'ir',
+		'yendo',
+	]),
+	standardSuffix = suffixMatcher([
+		'anza',
+		'anzas',
+		'ico',
+		'ica',
+		'icos',
+		'icas',
+		'ismo',
+		'ismos',
+		'able',
+		'ables',
+		'ible',
+		'ibles',
+		'ista',
+		'istas',
+		'oso',
+		'osa',
+		'osos',
+		'osas',
+		'amiento',
+		'amientos',
+		'imiento',
+		'imientos',
+		'adora',
+		'ador',
+		'ación',
+		'adoras',
+		'adores',
+		'aciones',
+		'ante',
+		'antes',
+		'ancia',
+		'ancias',
+		'logía',
+		'logías',
+		'ución',
+		'uciones',
+		'encia',
+		'encias',
+		'amente',
+		'mente',
+		'idad',
+		'idades',
+		'iva',
+		'ivo',
+		'ivas',
+		'ivos',
+	]),
+	amenteSuffix = suffixMatcher(['iv', 'os', 'ic', 'ad']),
+	menteSuffix = suffixMatcher(['ante', 'able', 'ible']),
+	idadSuffix = suffixMatcher(['abil', 'ic', 'iv']),
+	yVerbSuffix = suffixMatcher([
+		'ya',
+		'ye',
+		'yan',
+		'yen',
+		'yeron',
+		'yendo',
+		'yo',
+		'yó',
+		'yas',
+		'yes',
+		'yais',
+		'yamos',
+	]),
+	verbSuffix = suffixMatcher([
+		'en',
+		'es',
+		'éis',
+		'emos',
+		'arían',
+		'arías',
+		'arán',
+		'arás',
+		'aríais',
+		'aría',
+		'aréis',
+		'aríamos',
+		'aremos',
+		'ará',
+		'aré',
+		'erían',
+		'erías',
+		'erán',
+		'erás',
+		'eríais',
+		'ería',
+		'eréis',
+		'eríamos',
+		'eremos',
+		'erá',
+		'eré',
+		'irían',
+		'irías',
+		'irán',
+		'irás',
+		'iríais',
+		'iría',
+		'iréis',
+		'iríamos',
+		'iremos',
+		'irá',
+		'iré',
+		'aba',
+		'ada',
+		'ida',
+		'ía',
+		'ara',
+		'iera',
+		'ad',
+		'ed',
+		'id',
+		'ase',
+		'iese',
+		'aste',
+		'iste',
+		'an',
+		'aban',
+		'ían',
+		'aran',
+		'ieran',
+		'asen',
+		'iesen',
+		'aron',
+		'ieron',
+		'ado',
+		'ido',
+		'ando',
+		'iendo',
+		'ió',
+		'ar',
+		'er',
+		'ir',
+		'as',
+		'abas',
+		'adas',
+		'idas',
+		'ías',
+		'aras',
+		'ieras',
+		'ases',
+		'ieses',
+		'ís',
+		'áis',
+		'abais',
+		'íais',
+		'arais',
+		'ierais',
+		'aseis',
+		'ieseis',
+		'asteis',
+		'isteis',
+		'ados',
+		'idos',
+		'amos',
+		'ábamos',
+		'íamos',
+		'imos',
+		'áramos',
+		'iéramos',
+		'iésemos',
+		'ásemos',
+	]),
+	residualSuffix = suffixMatcher(['os', 'a', 'o', 'á', 'í', 'ó', 'e', 'é']),
+	accents: { [accented: string]: string } = {
+		'á': 'a',
+		'é': 'e',
+		'í': 'i',
+		'ó': 'o',
+		'ú': 'u',
+	};
+
+function spanishStem(word: string) {
+	let w = word;
+
+	const rv = romanceRV(w, isVowel),
+		r1 = region(w, isVowel),
+		r2 = region(w, isVowel, r1);
+
+	// Step 0: attached pronoun, after a gerund or an infinitive in RV
+	const pronoun = pronounSuffix(w);
+
+	if (pronoun) {
+		const stem = w.slice(0, w.length - pronoun.length),
+			ending = pronounEnding(stem),
+			start = stem.length - ending.length;
+
+		if (ending && start >= rv) {
+			switch (ending) {
+				case 'iéndo':
+				case 'ándo':
+				case 'ár':
+				case 'ér':
+				case 'ír':
+					w = stem.slice(0, start) + removeAccents(ending);
+					break;
+				case 'yendo':
+					if (stem[start - 1] == 'u') {
+						w = stem;
+					}
+					break;
+				default:
+					w = stem;
+			}
+		}
+	}
+
+	// Step 1: standard suffix removal
+	const removeStandardSuffix = function () {
+		const suffix = standardSuffix(w),
+			start = w.length - suffix.length;
+
+		switch (suffix) {
+			case '':
+				return false;
+			case 'adora':
+			case 'ador':
+			case 'ación':
+			case 'adoras':
+			case 'adores':
+			case 'aciones':
+			case 'ante':
+			case 'antes':
+			case 'ancia':
+			case 'ancias':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('ic') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+				}
+				return true;
+			case 'logía':
+			case 'logías':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'log';
+				return true;
+			case 'ución':
+			case 'uciones':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'u';
+				return true;
+			case 'encia':
+			case 'encias':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start) + 'ente';
+				return true;
+			case 'amente': {
+				if (start < r1) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = amenteSuffix(w);
+
+				if (preceding && w.length - preceding.length >= r2) {
+					w = w.slice(0, -preceding.length);
+
+					if (
+						preceding == 'iv' && w.endsWith('at') &&
+						w.length - 2 >= r2
+					) {
+						w = w.slice(0, -2);
+					}
+				}
+				return true;
+			}
+			case 'mente':
+			case 'idad':
+			case 'idades': {
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				const preceding = suffix == 'mente'
+					? menteSuffix(w)
+					: idadSuffix(w);
+
+				if (preceding && w.length - preceding.length >= r2) {
+					w = w.slice(0, -preceding.length);
+				}
+				return true;
+			}
+			case 'iva':
+			case 'ivo':
+			case 'ivas':
+			case 'ivos':
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+
+				if (w.endsWith('at') && w.length - 2 >= r2) {
+					w = w.slice(0, -2);
+				}
+				return true;
+			default:
+				if (start < r2) {
+					return false;
+				}
+
+				w = w.slice(0, start);
+				return true;
+		}
+	};
+
+	// Step 2a: verb suffixes beginning y, preceded by u
+	const removeYVerbSuffix = function () {
+		const suffix = yVerbSuffix(w, rv),
+			start = w.length - suffix.length;
+
+		if (suffix && w[start - 1] == 'u') {
+			w = w.slice(0, start);
+			return true;
+		}
+
+		return false;
+	};
+
+	// Step 2b: other verb suffixes in RV
+	const removeVerbSuffix = function () {
+		const suffix = verbSuffix(w, rv);
+
+		if (!suffix) {
+			return false;
+		}
+
+		w = w.slice(0, w.length - suffix.length);
+
+		if (
+			(suffix == 'en' || suffix == 'es' || suffix == 'éis' ||
+				suffix == 'emos') && w.endsWith('gu')
+		) {
+			w = w.slice(0, -1);
+		}
+
+		return true;
+	};
+
+	if (!removeStandardSuffix() && !removeYVerbSuffix()) {
+		removeVerbSuffix();
+	}
+
+	// Step 3: residual suffix
+	const suffix = residualSuffix(w),
+		start = w.length - suffix.length;
+
+	if (suffix && start >= rv) {
+		w = w.slice(0, start);
+
+		if (
+			(suffix == 'e' || suffix == 'é') && w.endsWith('gu') &&
+			w.length - 1 >= rv
+		) {
+			w = w.slice(0, -1);
+		}
+	}
+
+	return removeAccents(w);
+}
+
+function removeAccents(word: string) {
+	return word.replace(/[áéíóú]/g, function (accented) {
+		return accents[accented];
+	});
+}
+
+/**
+ * spanishStemmer is a Spanish language stemmer, an implementation of the
+ * Snowball Spanish stemming algorithm.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token - The string to stem
+ * @returns {Token}
+ * @see {@link Pipeline}
+ * @function
+ */
+export function spanishStemmer(token: Token) {
+	return token.update(spanishStem);
+}
+
+/**
+ * spanishStopWordFilter is a Spanish language stop word list filter, the list
+ * is the Snowball Spanish stop word list.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @params {Token} token - A token to check for being a stop word.
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const spanishStopWordFilter = generateStopWordFilter(
+	('a al algo algunas algunos ante antes como con contra cual cuando de del ' +
+		'desde donde durante e el ella ellas ellos en entre era erais eran ' +
+		'eras eres es esa esas ese eso esos esta estaba estabais estaban ' +
+		'estabas estad estada estadas estado estados estamos estando estar ' +
+		'estaremos estará estarán estarás estaré estaréis estaría estaríais ' +
+		'estaríamos estarían estarías estas este estemos esto estos estoy ' +
+		'estuve estuviera estuvierais estuvieran estuvieras estuvieron ' +
+		'estuviese estuvieseis estuviesen estuvieses estuvimos estuviste ' +
+		'estuvisteis estuviéramos estuviésemos estuvo está estábamos estáis ' +
+		'están estás esté estéis estén estés fue fuera fuerais fueran fueras ' +
+		'fueron fuese fueseis fuesen fueses fui fuimos fuiste fuisteis ' +
+		'fuéramos fuésemos ha habida habidas habido habidos habiendo habremos ' +
+		'habrá habrán habrás habré habréis habría habríais habríamos habrían ' +
+		'habrías habéis había habíais habíamos habían habías han has hasta ' +
+		'hay haya hayamos hayan hayas hayáis he hemos hube hubiera hubierais ' +
+		'hubieran hubieras hubieron hubiese hubieseis hubiesen hubieses ' +
+		'hubimos hubiste hubisteis hubiéramos hubiésemos hubo la las le les ' +
+		'lo los me mi mis mucho muchos muy más mí mía mías mío míos nada ni no ' +
+		'nos nosotras nosotros nuestra nuestras nuestro nuestros o os otra ' +
+		'otras otro otros para pero poco por porque que quien quienes qué se ' +
+		'sea seamos sean seas seremos será serán serás seré seréis sería ' +
+		'seríais seríamos serían serías seáis sido siendo sin sobre sois ' +
+		'somos son soy su sus suya suyas suyo suyos sí también tanto te ' +
+		'tendremos tendrá tendrán tendrás tendré tendréis tendría tendríais ' +
+		'tendríamos tendrían tendrías tened tenemos tenga tengamos tengan ' +
+		'tengas tengo tengáis tenida tenidas tenido tenidos teniendo tenéis ' +
+		'tenía teníais teníamos tenían tenías ti tiene tienen tienes todo ' +
+		'todos tu tus tuve tuviera tuvierais tuvieran tuvieras tuvieron ' +
+		'tuviese tuvieseis tuviesen tuvieses tuvimos tuviste tuvisteis ' +
+		'tuviéramos tuviésemos tuvo tuya tuyas tuyo tuyos tú un una uno unos ' +
+		'vosotras vosotros vuestra vuestras vuestro vuestros y ya yo él éramos')
+		.split(' '),
+);
+
+/**
+ * spanishTrimmer trims the characters that are not part of Spanish words from
+ * the beginning and end of tokens.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see {@link Pipeline}
+ */
+export const spanishTrimmer = generateTrimmer(latinWordCharacters);
+
+Pipeline.registerFunction(<PipelineFunction> spanishStemmer, 'stemmer-es');
+Pipeline.registerFunction(
+	<PipelineFunction> spanishStopWordFilter,
+	'stopWordFilter-es',
+);
+Pipeline.registerFunction(<PipelineFunction> spanishTrimmer, 'trimmer-es');
+
+/**
+ * The pipeline functions for Spanish documents.
+ *
+ * @constant
+ * @type {Language}
+ */
+export const spanish: Language = {
+	code: 'es',
+	trimmer: <PipelineFunction> spanishTrimmer,
+	stopWordFilter: <PipelineFunction> spanishStopWordFilter,
+	stemmer: <PipelineFunction> spanishStemmer,
+};
@@ -11,6 +11,9 @@
  *
  * All documents _must_ be added within the passed config function.
  *
+ * Documents in other languages are supported by calling configureLanguage
+ * with the builder in the config function.
+ *
  * @example
  * const idx = lunr((builder: Builder) => {
  *   builder.field('title');
@@ -27,26 +30,16 @@
  * @see {@link trimmer}
  * @see {@link stopWordFilter}
  * @see {@link stemmer}
+ * @see {@link configureLanguage}
  * @namespace {function} lunr
  */
 import { Builder } from './Builder.ts';
-import { stopWordFilter } from './stopWordFilter.ts';
-import { trimmer } from './trimmer.ts';
-import { stemmer } from './stemmer.ts';
-import { PipelineFunction } from './PipelineFunction.ts';
+import { configureLanguage, english } from './language.ts';
 
 export function lunr(config: (builder: Builder) => void) {
 	const builder = new Builder();
 
-	builder.pipeline.add(
-		<PipelineFunction> trimmer,
-		<PipelineFunction> stopWordFilter,
-		<PipelineFunction> stemmer,
-	);
-
-	builder.searchPipeline.add(
-		<PipelineFunction> stemmer,
-	);
+	configureLanguage(builder, english);
 
 	config(builder);
 	return builder.build();
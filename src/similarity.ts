@@ -0,0 +1,233 @@
+export interface FieldTermStatistics {
+	tf: number;
+	fieldLength: number;
+	averageFieldLength: number;
+	fieldBoost: number;
+}
+
+export interface TermStatistics extends FieldTermStatistics {
+	term: string;
+	field: string;
+	idf: number;
+	documentFrequency: number;
+	documentCount: number;
+	documentBoost: number;
+	fields: { [field: string]: FieldTermStatistics };
+}
+
+export interface Similarity {
+	label: string;
+	parameters: { [name: string]: number };
+	weight(statistics: TermStatistics): number;
+}
+
+export interface SerializedSimilarity {
+	label: string;
+	parameters: { [name: string]: number };
+}
+
+export interface BM25Options {
+	k1?: number;
+	b?: number;
+}
+
+export interface BM25PlusOptions extends BM25Options {
+	delta?: number;
+}
+
+/**
+ * The functions creating the similarities that can be loaded from a serialised
+ * index, by label, see registerSimilarity.
+ */
+export const registeredSimilarities: {
+	[label: string]: (parameters: { [name: string]: number }) => Similarity;
+} = Object.create(null);
+
+/**
+ * Registers the function creating a similarity from its parameters, so that
+ * indexes scored with the similarity can be serialised and loaded again.
+ * Custom similarities must be registered before loading the indexes using
+ * them, with the label of the similarity.
+ *
+ * @function
+ * @param {string} label - The label of the similarity.
+ * @param {function} factory - Creates the similarity from its parameters.
+ * @example <caption>a custom similarity</caption>
+ * const termFrequency = {
+ *   label: 'termFrequency',
+ *   parameters: {},
+ *   weight: function (statistics) { return statistics.tf },
+ * }
+ * registerSimilarity('termFrequency', function () { return termFrequency })
+ * builder.similarity(termFrequency)
+ */
+export function registerSimilarity(
+	label: string,
+	factory: (parameters: { [name: string]: number }) => Similarity,
+) {
+	if (label in registeredSimilarities) {
+		console.warn('Overwriting existing registered similarity: ' + label);
+	}
+
+	registeredSimilarities[label] = factory;
+}
+
+/**
+ * Creates a previously serialised similarity again, from the function
+ * registered with its label.
+ *
+ * @function
+ * @param {SerializedSimilarity} serialized - The label and parameters of the similarity.
+ * @throws {Error} If no similarity is registered with the label.
+ * @returns {Similarity}
+ */
+export function loadSimilarity(serialized: SerializedSimilarity): Similarity {
+	const factory = registeredSimilarities[serialized.label];
+
+	if (factory === undefined) {
+		throw new Error(
+			'Cannot load unregistered similarity: ' + serialized.label,
+		);
+	}
+
+	return factory(serialized.parameters);
+}
+
+// the length normalisation of BM25, 1 for fields of average length
+function lengthNorm(statistics: FieldTermStatistics, b: number) {
+	return 1 - b + b * statistics.fieldLength / statistics.averageFieldLength;
+}
+
+/**
+ * BM25 weighs a term in a field by its frequency, saturating as the term gets
+ * more frequent, normalised by the length of the field, and by the inverse
+ * document frequency of the term. It is the similarity of indexes by default.
+ *
+ * @function
+ * @param {object} [options] - The parameters of the similarity.
+ * @param {number} [options.k1=1.2] - How quickly an increase in term frequency saturates.
+ * @param {number} [options.b=0.75] - How much field lengths are normalised, from 0 to 1.
+ * @returns {Similarity}
+ * @see Builder#similarity
+ */
+export function bm25(options: BM25Options = {}): Similarity {
+	const k1 = options.k1 === undefined ? 1.2 : options.k1,
+		b = options.b === undefined ? 0.75 : options.b;
+
+	return {
+		label: 'bm25',
+		parameters: { k1: k1, b: b },
+		weight: function (statistics: TermStatistics) {
+			const tf = statistics.tf;
+
+			return statistics.idf * ((k1 + 1) * tf) /
+				(k1 * lengthNorm(statistics, b) + tf) *
+				statistics.fieldBoost * statistics.documentBoost;
+		},
+	};
+}
+
+/**
+ * BM25+ is BM25 with a lower bound on the weight of a term, so that a term
+ * appearing in a long field still weighs more than a term missing from a short
+ * one.
+ *
+ * @function
+ * @param {object} [options] - The parameters of the similarity.
+ * @param {number} [options.k1=1.2] - How quickly an increase in term frequency saturates.
+ * @param {number} [options.b=0.75] - How much field lengths are normalised, from 0 to 1.
+ * @param {number} [options.delta=1] - The lower bound of the term frequency part of the weight.
+ * @returns {Similarity}
+ * @see bm25
+ */
+export function bm25Plus(options: BM25PlusOptions = {}): Similarity {
+	const k1 = options.k1 === undefined ? 1.2 : options.k1,
+		b = options.b === undefined ? 0.75 : options.b,
+		delta = options.delta === undefined ? 1 : options.delta;
+
+	return {
+		label: 'bm25+',
+		parameters: { k1: k1, b: b, delta: delta },
+		weight: function (statistics: TermStatistics) {
+			const tf = statistics.tf;
+
+			return statistics.idf *
+				((k1 + 1) * tf / (k1 * lengthNorm(statistics, b) + tf) +
+					delta) *
+				statistics.fieldBoost * statistics.documentBoost;
+		},
+	};
+}
+
+/**
+ * BM25F combines the frequencies of a term in every field of a document before
+ * saturating them, each weighted by the boost of its field and normalised by
+ * the length of the field, instead of saturating the frequency in every field
+ * on its own. A term appearing in several fields of a document then weighs
+ * less than the sum of its BM25 weights in those fields. The weight of the
+ * term in a field is the share of the field in the combined weight, so that
+ * searches in all fields score documents with the combined weight.
+ *
+ * @function
+ * @param {object} [options] - The parameters of the similarity.
+ * @param {number} [options.k1=1.2] - How quickly an increase in term frequency saturates.
+ * @param {number} [options.b=0.75] - How much field lengths are normalised, from 0 to 1.
+ * @returns {Similarity}
+ * @see bm25
+ */
+export function bm25f(options: BM25Options = {}): Similarity {
+	const k1 = options.k1 === undefined ? 1.2 : options.k1,
+		b = options.b === undefined ? 0.75 : options.b;
+
+	// the weighted and normalised frequency of the term in a field
+	const fieldFrequency = function (statistics: FieldTermStatistics) {
+		return statistics.fieldBoost * statistics.tf /
+			lengthNorm(statistics, b);
+	};
+
+	return {
+		label: 'bm25f',
+		parameters: { k1: k1, b: b },
+		weight: function (statistics: TermStatistics) {
+			let combined = 0;
+
+			for (const field in statistics.fields) {
+				combined += fieldFrequency(statistics.fields[field]);
+			}
+
+			return statistics.idf * (k1 + 1) * fieldFrequency(statistics) /
+				(k1 + combined) * statistics.documentBoost;
+		},
+	};
+}
+
+/**
+ * The classic TF-IDF similarity weighs a term by the square root of its
+ * frequency and the square of its inverse document frequency, normalised by
+ * the square root of the length of the field.
+ *
+ * @function
+ * @returns {Similarity}
+ */
+export function tfIdf(): Similarity {
+	return {
+		label: 'tfidf',
+		parameters: {},
+		weight: function (statistics: TermStatistics) {
+			const idf = 1 +
+				Math.log(
+					statistics.documentCount /
+						(statistics.documentFrequency + 1),
+				);
+
+			return Math.sqrt(statistics.tf) * idf * idf /
+				Math.sqrt(statistics.fieldLength) * statistics.fieldBoost *
+				statistics.documentBoost;
+		},
+	};
+}
+
+registerSimilarity('bm25', bm25);
+registerSimilarity('bm25+', bm25Plus);
+registerSimilarity('bm25f', bm25f);
+registerSimilarity('tfidf', tfIdf);
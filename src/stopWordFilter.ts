@@ -14,7 +14,7 @@ import { PipelineFunction } from './PipelineFunction.ts';
  * @see Pipeline
  * @see stopWordFilter
  */
-function generateStopWordFilter(stopWords: string[]) {
+export function generateStopWordFilter(stopWords: string[]) {
 	const words = stopWords.reduce(
 		(memo: { [key: string]: string }, stopWord: string) => {
 			memo[stopWord] = stopWord;
@@ -0,0 +1,151 @@
+import { Pipeline } from './Pipeline.ts';
+import { PipelineFunction } from './PipelineFunction.ts';
+import { Token } from './Token.ts';
+import { tokenizer } from './tokenizer.ts';
+
+export interface SynonymFilterOptions {
+	weight?: number;
+	label?: string;
+}
+
+/**
+ * generateSynonymFilter builds a pipeline function that expands a token into
+ * its synonyms, from a dictionary of synonym rules.
+ *
+ * Rules use the same format as many other search engines. A comma separated
+ * list of words declares them equivalent, each of them is expanded into all of
+ * the others, e.g. `'js, javascript, ecmascript'`. A list of words followed by
+ * `=>` and another list is a one-way rule, the words on the left are expanded
+ * into the words on the right but not the other way around, e.g.
+ * `'ts => typescript'`.
+ *
+ * Synonyms can span multiple words, e.g. `'nyc, new york'`. A token expanded
+ * into a multi-word synonym is followed by every word of the synonym. A multi-
+ * word synonym is recognised in the tokens the pipeline is run on together,
+ * e.g. the fields of a document, or the adjacent words of a search searching
+ * the same fields with the same presence, so that searching for 'new york'
+ * also matches 'nyc'.
+ *
+ * The synonyms of a token follow the token itself, with a `boost` metadata of
+ * the weight of synonyms, so that documents matching the searched words score
+ * higher than documents only matching their synonyms. Words are matched in
+ * lower case, the filter should run before a stemmer.
+ *
+ * The built filter is registered with Pipeline under the passed label, so
+ * that pipelines using it can be serialised. When loading such a pipeline
+ * the filter must be generated again, with the same label, beforehand.
+ *
+ * @function
+ * @param {string[]} rules - The synonym rules.
+ * @param {object} [options] - Options for the filter.
+ * @param {number} [options.weight=0.5] - The boost of synonyms relative to the token they expand.
+ * @param {string} [options.label='synonymFilter'] - The label the filter is registered with.
+ * @throws {Error} If a rule cannot be parsed.
+ * @returns {PipelineFunction}
+ * @see Pipeline
+ * @example <caption>expanding searches before they are stemmed</caption>
+ * const synonymFilter = generateSynonymFilter(['js, javascript'])
+ * builder.searchPipeline.before(stemmer, synonymFilter)
+ */
+export function generateSynonymFilter(
+	rules: string[],
+	options: SynonymFilterOptions = {},
+) {
+	const weight = options.weight === undefined ? 0.5 : options.weight,
+		synonyms: { [words: string]: string[][] } = Object.create(null);
+	let maxLength = 0;
+
+	for (const rule of rules) {
+		const sides = rule.split('=>').map(function (side) {
+			return side.split(',').map(function (synonym) {
+				return synonym.toLowerCase().split(tokenizer.separator)
+					.filter(function (word) {
+						return word.length > 0;
+					});
+			}).filter(function (words) {
+				return words.length > 0;
+			});
+		});
+
+		const malformed = sides.length > 2 ||
+			sides.some(function (side) {
+				return side.length == 0;
+			});
+
+		if (malformed) {
+			throw new Error('malformed synonym rule \'' + rule + '\'');
+		}
+
+		const sources = sides[0],
+			targets = sides.length == 2 ? sides[1] : sides[0];
+
+		for (const source of sources) {
+			const key = source.join(' '),
+				expansions = synonyms[key] || (synonyms[key] = []);
+
+			for (const target of targets) {
+				const targetKey = target.join(' '),
+					known = targetKey == key ||
+						expansions.some(function (expansion) {
+							return expansion.join(' ') == targetKey;
+						});
+
+				if (!known) {
+					expansions.push(target);
+				}
+			}
+
+			maxLength = Math.max(maxLength, source.length);
+		}
+	}
+
+	const synonymFilter = function (
+		token: Token,
+		i: number,
+		tokens: Token[],
+	) {
+		const expanded = [token],
+			seen: { [word: string]: boolean } = Object.create(null),
+			boost =
+				(token.metadata.boost === undefined
+					? 1
+					: token.metadata.boost) * weight;
+
+		seen[token.toString()] = true;
+
+		for (
+			let length = 1;
+			length <= maxLength && i + length <= tokens.length;
+			length++
+		) {
+			const key = tokens.slice(i, i + length).map(function (t) {
+				return t.toString();
+			}).join(' ');
+
+			for (const target of synonyms[key] || []) {
+				for (const word of target) {
+					if (seen[word]) {
+						continue;
+					}
+
+					seen[word] = true;
+					expanded.push(
+						new Token(
+							word,
+							Object.assign({}, token.metadata, { boost: boost }),
+						),
+					);
+				}
+			}
+		}
+
+		return expanded;
+	};
+
+	Pipeline.registerFunction(
+		<PipelineFunction> synonymFilter,
+		options.label || 'synonymFilter',
+	);
+
+	return <PipelineFunction> synonymFilter;
+}
@@ -1,10 +1,20 @@
 import { Token } from './Token.ts';
 import { LunrDocument } from './Builder.ts';
 
-interface HasToString {
+export interface HasToString {
 	toString(): string;
 }
 
+/**
+ * A function splitting strings into tokens, see tokenizer.
+ */
+export interface Tokenizer {
+	(
+		obj?: string | number | boolean | HasToString | null | HasToString[],
+		metadata?: LunrDocument,
+	): Token[];
+}
+
 /**
  * Convert an object to a string.
  *
@@ -86,9 +96,10 @@ export function tokenizer(
 
 /**
  * The separator used to split a string into tokens. Override this property to change the behaviour of
- * `tokenizer` behaviour when tokenizing strings. By default this splits on whitespace and hyphens.
+ * `tokenizer` behaviour when tokenizing strings. By default this splits on whitespace and on dashes
+ * of any script, e.g. hyphens, en dashes and em dashes.
  *
  * @static
  * @see tokenizer
  */
-tokenizer.separator = /[\s\-]+/;
+tokenizer.separator = /[\s\p{Pd}]+/u;
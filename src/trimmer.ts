@@ -9,7 +9,7 @@ import { Token } from './Token.ts';
  *
  * This implementation may not work correctly for non latin
  * characters and should either be removed or adapted for use
- * with languages with non-latin characters.
+ * with languages with non-latin characters, see unicodeTrimmer.
  *
  * @static
  * @implements {PipelineFunction}
@@ -24,3 +24,72 @@ export function trimmer(token: Token) {
 }
 
 Pipeline.registerFunction(<PipelineFunction> trimmer, 'trimmer');
+
+// a character that is not a letter, digit or connector like '_', with the
+// combining marks following it, or a combining mark without a base character
+const unicodeLeadingRegex = /^(?:[^\p{L}\p{N}\p{Pc}]\p{M}*)+/u,
+	unicodeTrailingRegex = /(?:[^\p{L}\p{N}\p{M}\p{Pc}]\p{M}*)+$/u;
+
+/**
+ * unicodeTrimmer is a pipeline function for trimming non word characters from
+ * the beginning and end of tokens in any script. Letters and digits are told
+ * apart by their Unicode properties, so that 'café', 'Ελλάδα' or 'Москва' are
+ * kept whole, and combining marks are trimmed along with the character they
+ * belong to, so that letters written with a combining accent keep it.
+ *
+ * This is the trimmer lunr uses by default. It is registered under its own
+ * label, so that indexes serialised with `trimmer` keep loading with it.
+ *
+ * @static
+ * @implements {PipelineFunction}
+ * @param {Token} token The token to pass through the filter
+ * @returns {Token}
+ * @see Pipeline
+ * @see trimmer
+ */
+export function unicodeTrimmer(token: Token) {
+	return token.update(function (s) {
+		return s.replace(unicodeLeadingRegex, '')
+			.replace(unicodeTrailingRegex, '');
+	});
+}
+
+Pipeline.registerFunction(
+	<PipelineFunction> unicodeTrimmer,
+	'trimmer-unicode',
+);
+
+/**
+ * The word characters of languages written in the latin alphabet, including
+ * accented letters, for use with generateTrimmer.
+ *
+ * @constant
+ * @type {string}
+ */
+export const latinWordCharacters =
+	'\\w\\u00AA\\u00B5\\u00BA\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u024F' +
+	'\\u1E00-\\u1EFF';
+
+/**
+ * generateTrimmer builds a trimmer function that trims every character that is
+ * not one of the passed word characters from the beginning and end of tokens,
+ * for languages whose words contain characters the built in trimmer would trim.
+ *
+ * @function
+ * @param {string} wordCharacters - The word characters, in the syntax of a regular expression character class.
+ * @returns {PipelineFunction}
+ * @see Pipeline
+ * @see trimmer
+ * @example
+ * const frenchTrimmer = generateTrimmer(latinWordCharacters)
+ */
+export function generateTrimmer(wordCharacters: string) {
+	const startRegex = new RegExp('^[^' + wordCharacters + ']+'),
+		endRegex = new RegExp('[^' + wordCharacters + ']+$');
+
+	return function (token: Token) {
+		return token.update(function (s) {
+			return s.replace(startRegex, '').replace(endRegex, '');
+		});
+	};
+}
@@ -124,6 +124,98 @@ describe('Builder', function () {
 				builder.field('foo/bar');
 			});
 		});
+
+		it('stored field', function () {
+			const builder = new Builder();
+			builder.field('foo', { store: true });
+			assert('foo' in builder._fields);
+			assert('foo' in builder._storedFields);
+		});
+	});
+
+	describe('#storedField', function () {
+		const builder = new Builder();
+		builder.field('title', { store: true });
+		builder.field('body');
+		builder.storedField('url');
+		builder.storedField('author', {
+			extractor: function (doc) {
+				return doc.author.name;
+			},
+		});
+
+		builder.add({
+			id: 'a',
+			title: 'Green plant',
+			body: 'Professor Plumb has a green plant',
+			url: '/a',
+			author: { name: 'Plumb' },
+		});
+		builder.add({ id: 'b', body: 'Colonel Mustard', author: {} });
+
+		it('stores the raw values', function () {
+			assertEquals(
+				{ title: 'Green plant', url: '/a', author: 'Plumb' },
+				builder.documentStore.a,
+			);
+		});
+
+		it('skips missing values', function () {
+			assertFalse('b' in builder.documentStore);
+		});
+
+		it('does not index stored only fields', function () {
+			assertFalse('url' in builder._fields);
+			assertFalse('/a' in builder.invertedIndex);
+		});
+
+		it('removes stored values with the document', function () {
+			builder.remove('a');
+			assertFalse('a' in builder.documentStore);
+		});
+	});
+
+	describe('#facetField', function () {
+		const builder = new Builder();
+		builder.field('title', { facet: true });
+		builder.facetField('tags');
+		builder.facetField('author', {
+			extractor: function (doc) {
+				return doc.author.name;
+			},
+		});
+
+		builder.add({
+			id: 'a',
+			title: 'Green plant',
+			tags: ['plant', 'green', 'plant', 1],
+			author: { name: 'Plumb' },
+		});
+		builder.add({ id: 'b', title: 'Colonel Mustard', author: {} });
+
+		it('keeps the whole values', function () {
+			assertEquals(['Green plant'], builder.facetIndex.title.a);
+			assertEquals(['Plumb'], builder.facetIndex.author.a);
+		});
+
+		it('keeps every distinct element of an array', function () {
+			assertEquals(['plant', 'green', '1'], builder.facetIndex.tags.a);
+		});
+
+		it('skips missing values', function () {
+			assertFalse('b' in builder.facetIndex.tags);
+			assertFalse('b' in builder.facetIndex.author);
+		});
+
+		it('does not index facet only fields', function () {
+			assertFalse('tags' in builder._fields);
+		});
+
+		it('removes facet values with the document', function () {
+			builder.remove('a');
+			assertFalse('a' in builder.facetIndex.title);
+			assertFalse('a' in builder.facetIndex.tags);
+		});
 	});
 
 	describe('#ref', function () {
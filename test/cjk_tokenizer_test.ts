@@ -0,0 +1,155 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import { assertEquals } from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { Builder } from '../src/Builder.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { PipelineFunction } from '../src/PipelineFunction.ts';
+import { Token } from '../src/Token.ts';
+import { cjkTokenizer, generateCjkTokenizer } from '../src/cjkTokenizer.ts';
+import { stemmer } from '../src/stemmer.ts';
+
+const toString = function (o: Token): string {
+	return o.toString();
+};
+
+describe('cjkTokenizer', function () {
+	it('splits runs of CJK characters into bigrams', function () {
+		assertEquals(
+			['東京', '京都', 'に', 'す住', '住む'],
+			cjkTokenizer('東京都 に す住む').map(toString),
+		);
+	});
+
+	it('splits hiragana, katakana and hangul', function () {
+		assertEquals(
+			['コー', 'ーヒ', 'ヒー', 'ひら', 'らが', 'がな', '한국', '국어'],
+			cjkTokenizer('コーヒー ひらがな 한국어').map(toString),
+		);
+	});
+
+	it('keeps other characters together', function () {
+		assertEquals(
+			['iphone', '手机', 'pro', '2'],
+			cjkTokenizer('iPhone手机Pro-2').map(toString),
+		);
+	});
+
+	it('records the position and index of every token', function () {
+		const tokens = cjkTokenizer('foo 東京都', { fields: ['body'] });
+
+		assertEquals(
+			[[0, 3], [4, 2], [5, 2]],
+			tokens.map(function (token) {
+				return token.metadata['position'];
+			}),
+		);
+		assertEquals(
+			[0, 1, 2],
+			tokens.map(function (token) {
+				return token.metadata['index'];
+			}),
+		);
+		assertEquals(['body'], tokens[2].metadata['fields']);
+	});
+
+	it('counts positions in code units', function () {
+		const tokens = cjkTokenizer('𠮷野家');
+
+		assertEquals(['𠮷野', '野家'], tokens.map(toString));
+		assertEquals([0, 3], tokens[0].metadata['position']);
+		assertEquals([2, 2], tokens[1].metadata['position']);
+	});
+
+	it('tokenizes arrays like the default tokenizer', function () {
+		assertEquals(
+			['東京都', 'foo'],
+			cjkTokenizer(['東京都', 'FOO']).map(toString),
+		);
+		assertEquals([], cjkTokenizer(null));
+	});
+});
+
+describe('generateCjkTokenizer', function () {
+	const tokenize = generateCjkTokenizer({
+		dictionary: ['東京', '東京都', '大学', '北京'],
+	});
+
+	it('segments runs into the longest dictionary words', function () {
+		assertEquals(['東京都', '大学'], tokenize('東京都大学').map(toString));
+	});
+
+	it('splits characters between dictionary words into bigrams', function () {
+		assertEquals(
+			['我爱', '北京', '天安', '安门'],
+			tokenize('我爱北京天安门').map(toString),
+		);
+		assertEquals(['在', '北京'], tokenize('在北京').map(toString));
+	});
+
+	it('gives segments consecutive indexes', function () {
+		assertEquals(
+			[0, 1, 2, 3],
+			tokenize('我爱北京天安门').map(function (token) {
+				return token.metadata['index'];
+			}),
+		);
+	});
+});
+
+describe('searching CJK text', function () {
+	const build = function () {
+		const builder = new Builder();
+
+		builder.tokenizer = cjkTokenizer;
+		builder.pipeline.add(<PipelineFunction> stemmer);
+		builder.searchPipeline.add(<PipelineFunction> stemmer);
+		builder.storePositions();
+		builder.field('body');
+
+		builder.add({ id: 'a', body: '東京都に住む' });
+		builder.add({ id: 'b', body: '京都の大学' });
+		builder.add({ id: 'c', body: '東京の都に住む' });
+
+		return builder.build();
+	};
+
+	const refs = function (results: { ref: string }[]) {
+		return results.map(function (result) {
+			return result.ref;
+		}).sort();
+	};
+
+	it('matches documents containing every bigram of a term', function () {
+		const idx = build();
+
+		assertEquals(['a', 'b'], refs(idx.search('京都')));
+		assertEquals(['a', 'c'], refs(idx.search('東京')));
+		assertEquals(['a'], refs(idx.search('東京都')));
+	});
+
+	it('matches phrases of bigrams', function () {
+		const idx = build();
+
+		assertEquals(['a'], refs(idx.search('"東京都に"')));
+	});
+
+	it('keeps working once loaded with the tokenizer', function () {
+		const idx = LunrIndex.load(JSON.parse(JSON.stringify(build())), {
+			tokenizer: cjkTokenizer,
+		});
+
+		assertEquals(['a'], refs(idx.search('東京都')));
+		assertEquals(['a'], refs(idx.search('"東京都に"')));
+	});
+
+	it('keeps working once loaded updatable and updated', function () {
+		const idx = LunrIndex.load(
+			JSON.parse(JSON.stringify(build().toJSON({ updatable: true }))),
+			{
+				tokenizer: cjkTokenizer,
+			},
+		);
+
+		idx.add({ id: 'd', body: '東京都庁' });
+		assertEquals(['a', 'd'], refs(idx.search('東京都')));
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assert,
+	assertEquals,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { Pipeline } from '../src/Pipeline.ts';
+import { PipelineFunction } from '../src/PipelineFunction.ts';
+import { Token } from '../src/Token.ts';
+import {
+	diacriticFolder,
+	foldDiacritics,
+	generateDiacriticFolder,
+} from '../src/diacriticFolder.ts';
+import { lunr } from '../src/lunr.ts';
+import { stemmer } from '../src/stemmer.ts';
+
+describe('foldDiacritics', function () {
+	const foldTest = function (str: string, expected: string) {
+		it('folds ' + str, function () {
+			assertEquals(expected, foldDiacritics(str));
+		});
+	};
+
+	foldTest('résumé', 'resume');
+	foldTest('Zürich', 'Zurich');
+	foldTest('façade', 'facade');
+	foldTest('Ελλάδα', 'Ελλαδα');
+	foldTest('straße', 'strasse');
+	foldTest('æsir', 'aesir');
+	foldTest('Øresund', 'Oresund');
+	foldTest('Łódź', 'Lodz');
+	foldTest('ﬁnance', 'finance');
+	foldTest('café', 'cafe');
+	foldTest('がっこう', 'がっこう');
+	foldTest('हिन्दी', 'हिन्दी');
+	foldTest('plain', 'plain');
+});
+
+describe('diacriticFolder', function () {
+	const folder = generateDiacriticFolder({ preserveOriginal: true });
+
+	it('replaces tokens with their folded form', function () {
+		const token = new Token('zürich', { index: 2 }),
+			result = diacriticFolder(token);
+
+		assertEquals('zurich', result.toString());
+		assertEquals(2, result.metadata.index);
+	});
+
+	it('is a registered pipeline function', function () {
+		assertEquals('diacriticFolder', diacriticFolder.label);
+		assertEquals(
+			Pipeline.registeredFunctions['diacriticFolder'],
+			diacriticFolder,
+		);
+	});
+
+	describe('preserving the original tokens', function () {
+		it('keeps the token followed by its folded form', function () {
+			const result = folder(new Token('résumé', { boost: 2 }));
+
+			assertEquals(['résumé', 'resume'], result.map(String));
+			assertEquals(2, result[0].metadata.boost);
+			assertEquals(1, result[1].metadata.boost);
+		});
+
+		it('weighs the folded form', function () {
+			const weighted = generateDiacriticFolder({
+					preserveOriginal: true,
+					weight: 0.25,
+					label: 'weightedDiacriticFolder',
+				}),
+				result = weighted(new Token('résumé'));
+
+			assertEquals(0.25, result[1].metadata.boost);
+			assertEquals('weightedDiacriticFolder', weighted.label);
+		});
+
+		it('keeps tokens without diacritics as they are', function () {
+			const token = new Token('resume');
+			assertEquals(token, folder(token));
+		});
+
+		it('is registered under its own label', function () {
+			assertEquals('diacriticFolder-preserveOriginal', folder.label);
+		});
+	});
+
+	describe('searching', function () {
+		const documents = [
+			{ id: 'a', body: 'a résumé of my career' },
+			{ id: 'b', body: 'resume the download' },
+			{ id: 'c', body: 'Zürich is a city' },
+		];
+
+		const build = function (fn: PipelineFunction) {
+			return lunr(function (builder) {
+				builder.pipeline.before(<PipelineFunction> stemmer, fn);
+				builder.searchPipeline.before(<PipelineFunction> stemmer, fn);
+				builder.field('body');
+
+				for (const doc of documents) {
+					builder.add(doc);
+				}
+			});
+		};
+
+		it('matches words spelled without diacritics', function () {
+			const idx = build(diacriticFolder);
+
+			assertEquals(2, idx.search('resume').length);
+			assertEquals('c', idx.search('zurich')[0].ref);
+			assertEquals('c', idx.search('ZÜRICH')[0].ref);
+		});
+
+		it('ranks exact spellings higher when preserving tokens', function () {
+			const idx = build(folder),
+				results = idx.search('résumé');
+
+			assertEquals(
+				['a', 'b'],
+				results.map(function (result) {
+					return result.ref;
+				}),
+			);
+			assert(results[0].score > results[1].score);
+			assertEquals(2, idx.search('resume').length);
+		});
+	});
+});
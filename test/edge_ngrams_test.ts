@@ -0,0 +1,163 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assert,
+	assertEquals,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { Token } from '../src/Token.ts';
+import { edgeNgrams } from '../src/edgeNgrams.ts';
+import { lunr } from '../src/lunr.ts';
+
+describe('edgeNgrams', function () {
+	it('expands tokens into their prefixes', function () {
+		const ngrams = edgeNgrams([new Token('plant'), new Token('at')], {
+			min: 2,
+			max: 4,
+		});
+
+		assertEquals(['pl', 'pla', 'plan', 'at'], ngrams.map(String));
+	});
+
+	it('keeps the metadata of the token', function () {
+		const ngrams = edgeNgrams([new Token('go', { index: 3 })]);
+
+		assertEquals(['g', 'go'], ngrams.map(String));
+		assertEquals(3, ngrams[0].metadata.index);
+	});
+
+	it('leaves out tokens shorter than the shortest n-grams', function () {
+		assertEquals([], edgeNgrams([new Token('a')], { min: 2 }));
+	});
+});
+
+describe('edge n-gram fields', function () {
+	const documents = [
+		{ id: 'a', title: 'Planting trees', body: 'plans for a garden' },
+		{ id: 'b', title: 'Plans', body: 'green leaves' },
+		{ id: 'c', title: 'Green leaves', body: 'planets and stars' },
+	];
+
+	const build = function () {
+		return lunr(function (builder) {
+			builder.field('title', { edgeNgrams: { min: 2, max: 4 } });
+			builder.field('body');
+
+			for (const doc of documents) {
+				builder.add(doc);
+			}
+		});
+	};
+
+	const refs = function (results: { ref: string }[]) {
+		return results.map(function (result) {
+			return result.ref;
+		}).sort();
+	};
+
+	it('matches prefixes of the field terms', function () {
+		const idx = build();
+
+		assertEquals(['a', 'b'], refs(idx.search('title:pla*')));
+		assertEquals(['c'], refs(idx.search('title:gre*')));
+	});
+
+	it('matches the same documents as a wildcard', function () {
+		const idx = build(),
+			plain = lunr(function (builder) {
+				builder.field('title');
+				builder.field('body');
+
+				for (const doc of documents) {
+					builder.add(doc);
+				}
+			});
+
+		for (const query of ['pla*', 'gre*', 'p*', 'plant*', 'tre*']) {
+			assertEquals(refs(plain.search(query)), refs(idx.search(query)));
+		}
+	});
+
+	it('does not match n-grams with terms', function () {
+		const idx = build();
+
+		assertEquals([], idx.search('title:pla'));
+		assertEquals(['b', 'c'], refs(idx.search('leav')));
+	});
+
+	it('do not change the scores of other searches', function () {
+		const idx = build(),
+			plain = lunr(function (builder) {
+				builder.field('title');
+				builder.field('body');
+
+				for (const doc of documents) {
+					builder.add(doc);
+				}
+			});
+
+		for (const query of ['green', 'leaves plans', 'plan~1', 'body:pla*']) {
+			assertEquals(plain.search(query), idx.search(query));
+		}
+	});
+
+	it('are not suggested or corrected as terms', function () {
+		const idx = build();
+
+		assertEquals(
+			['plan', 'planet', 'plant'],
+			idx.suggest('pl').map(function (suggestion) {
+				return suggestion.term;
+			}).sort(),
+		);
+		assertEquals('plan', idx.spellcheck('pln'));
+	});
+
+	it('are not searched by default', function () {
+		build().query(function (query) {
+			assertEquals(['title', 'body'], query.allFields);
+		});
+	});
+
+	it('scores the n-grams with the boost of the field', function () {
+		const idx = lunr(function (builder) {
+			builder.field('title', { boost: 10, edgeNgrams: {} });
+			builder.field('body');
+
+			for (const doc of documents) {
+				builder.add(doc);
+			}
+		});
+
+		assertEquals('c', idx.search('gre*')[0].ref);
+	});
+
+	it('keeps working once serialized', function () {
+		const idx = LunrIndex.load(JSON.parse(JSON.stringify(build())));
+
+		assertEquals(['a', 'b'], refs(idx.search('title:pla*')));
+	});
+
+	it('keeps working once serialized updatable and updated', function () {
+		const idx = LunrIndex.load(
+			JSON.parse(JSON.stringify(build().toJSON({ updatable: true }))),
+		);
+
+		idx.add({ id: 'd', title: 'Plates', body: '' });
+		idx.remove('b');
+		assertEquals(['a', 'd'], refs(idx.search('title:pla*')));
+	});
+
+	it('counts the terms and n-grams of every field', function () {
+		const stats = build().stats();
+
+		assertEquals(3, stats.documentCount);
+		assertEquals(
+			{ termCount: 12, postingCount: 15 },
+			stats.fields['title'].edgeNgrams,
+		);
+		assertEquals(5, stats.fields['title'].termCount);
+		assertEquals(5, stats.fields['title'].postingCount);
+		assertEquals(undefined, stats.fields['body'].edgeNgrams);
+		assert(stats.termCount > stats.fields['body'].termCount);
+	});
+});
@@ -0,0 +1,249 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assert,
+	assertAlmostEquals,
+	assertEquals,
+	assertFalse,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { lunr } from '../src/lunr.ts';
+import { Builder } from '../src/Builder.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { Query } from '../src/Query.ts';
+
+describe('LunrIndex#explain', function () {
+	const documents = [{
+		id: 'a',
+		title: 'Mr. Green kills Colonel Mustard',
+		body:
+			'Mr. Green killed Colonel Mustard in the study with the candlestick. Mr. Green is not a very nice fellow.',
+	}, {
+		id: 'b',
+		title: 'Plumb waters plant',
+		body: 'Professor Plumb has a green plant in his study',
+	}, {
+		id: 'c',
+		title: 'Scarlett helps Professor',
+		body:
+			'Miss Scarlett watered Professor Plumbs green plant while he was away from his office last week.',
+	}];
+
+	const idx = lunr(function (builder: Builder) {
+		builder.ref('id');
+		builder.field('title', { boost: 2 });
+		builder.field('body');
+		builder.storePositions();
+
+		for (const document of documents) {
+			builder.add(document, { boost: document.id == 'c' ? 3 : 1 });
+		}
+	});
+
+	describe('score', function () {
+		it('matches the search score of every result', function () {
+			const q = 'plant^10 green professor -kills';
+
+			for (const result of idx.search(q)) {
+				const explanation = idx.explain(q, result.ref);
+
+				assert(explanation.matched);
+				assertAlmostEquals(result.score, explanation.score, 1e-9);
+			}
+		});
+
+		it('is the sum of the field scores', function () {
+			const explanation = idx.explain('green plant', 'b');
+
+			assertEquals(
+				['title', 'body'],
+				explanation.fields.map((f) => f.field),
+			);
+			assertAlmostEquals(
+				explanation.fields[0].score + explanation.fields[1].score,
+				explanation.score,
+				1e-9,
+			);
+		});
+
+		it('accepts a query builder', function () {
+			assertEquals(
+				idx.explain('title:plant', 'b'),
+				idx.explain(function (q: Query) {
+					q.term('plant', { fields: ['title'] });
+				}, 'b'),
+			);
+		});
+	});
+
+	describe('unmatched document', function () {
+		it('is not matched', function () {
+			assertFalse(idx.explain('+plant', 'a').matched);
+			assertFalse(idx.explain('plant -professor', 'b').matched);
+		});
+
+		it('has no fields', function () {
+			const explanation = idx.explain('plant', 'a');
+
+			assertEquals(0, explanation.score);
+			assertEquals([], explanation.fields);
+		});
+	});
+
+	describe('terms', function () {
+		const explanation = idx.explain('plant^10 plant green', 'b'),
+			title = explanation.fields[0],
+			body = explanation.fields[1];
+
+		it('only lists terms found in the field', function () {
+			assertEquals(['plant'], title.terms.map((t) => t.term));
+			assertEquals(
+				['plant', 'green'],
+				body.terms.map((t) => t.term),
+			);
+		});
+
+		it('clause boosts make up the query weight', function () {
+			assertEquals([10, 1], body.terms[0].boosts);
+			assertEquals(11, body.terms[0].queryWeight);
+		});
+
+		it('query norm is the magnitude of the query vector', function () {
+			assertAlmostEquals(Math.sqrt(11 * 11 + 1), body.queryNorm, 1e-9);
+		});
+
+		it('term scores add up to the field score', function () {
+			assertAlmostEquals(
+				body.terms[0].score + body.terms[1].score,
+				body.score,
+				1e-9,
+			);
+		});
+
+		it('field weight is the BM25 score of the term', function () {
+			for (const field of explanation.fields) {
+				for (const term of field.terms) {
+					const tf = term.tf as number,
+						k1 = term.k1 as number,
+						b = term.b as number,
+						norm = 1 - b +
+							b * (term.fieldLength as number) /
+								(term.averageFieldLength as number),
+						bm25 = (term.idf as number) * (k1 + 1) * tf /
+							(k1 * norm + tf);
+
+					assertAlmostEquals(
+						bm25 * (term.fieldBoost as number) *
+							(term.documentBoost as number),
+						term.fieldWeight,
+						0.001,
+					);
+				}
+			}
+		});
+
+		it('field and document boosts', function () {
+			assertEquals(2, title.terms[0].fieldBoost);
+			assertEquals(1, title.terms[0].documentBoost);
+			assertEquals(
+				3,
+				idx.explain('plant', 'c').fields[0].terms[0].documentBoost,
+			);
+		});
+	});
+
+	describe('phrase with slop', function () {
+		it('reports the proximity penalty', function () {
+			const explanation = idx.explain('"green study"~5', 'b'),
+				body = explanation.fields[0];
+
+			assertEquals(['body'], explanation.fields.map((f) => f.field));
+			assert(body.proximityPenalty > 0);
+			assertAlmostEquals(
+				body.terms[0].score + body.terms[1].score -
+					body.proximityPenalty,
+				body.score,
+				1e-9,
+			);
+			assertAlmostEquals(
+				idx.search('"green study"~5')[0].score,
+				explanation.score,
+				1e-9,
+			);
+		});
+	});
+
+	describe('phrases', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.field('title');
+			builder.field('body');
+			builder.storePositions();
+			builder.add({
+				id: 'a',
+				title: 'green plant',
+				body: 'plant is green',
+			});
+			builder.add({
+				id: 'b',
+				title: 'a plant',
+				body: 'green and red plant',
+			});
+			builder.add({ id: 'c', title: 'red', body: 'a tall tree' });
+		});
+
+		it('only score the fields matching the phrase', function () {
+			const explanation = idx.explain('"green plant"', 'a');
+
+			assertEquals(['title'], explanation.fields.map((f) => f.field));
+		});
+
+		it('match the search score of every result', function () {
+			for (
+				const q of [
+					'"green plant"',
+					'"green plant"~2',
+					'"plant green"~3',
+				]
+			) {
+				const results = idx.search(q);
+
+				assert(results.length > 0);
+
+				for (const result of results) {
+					assertAlmostEquals(
+						result.score,
+						idx.explain(q, result.ref).score,
+						1e-9,
+					);
+				}
+			}
+		});
+	});
+
+	describe('index without document statistics', function () {
+		const serialized = JSON.parse(JSON.stringify(idx));
+		delete serialized.builder;
+
+		const loaded = LunrIndex.load(serialized),
+			explanation = loaded.explain('plant', 'b');
+
+		it('explains the vector weights', function () {
+			assertEquals(
+				idx.explain('plant', 'b').score,
+				explanation.score,
+			);
+		});
+
+		it('leaves out the BM25 values', function () {
+			assertEquals(undefined, explanation.fields[0].terms[0].tf);
+			assertEquals(undefined, explanation.fields[0].terms[0].idf);
+		});
+
+		it('keeps the similarity', function () {
+			const term = explanation.fields[0].terms[0];
+
+			assertEquals('bm25', term.similarity);
+			assertEquals({ k1: 1.2, b: 0.75 }, term.parameters);
+			assertEquals(1.2, term.k1);
+			assertEquals(0.75, term.b);
+		});
+	});
+});
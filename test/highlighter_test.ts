@@ -0,0 +1,141 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import { assertEquals } from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { lunr } from '../src/lunr.ts';
+import { Builder, LunrDocument } from '../src/Builder.ts';
+import { highlight } from '../src/highlighter.ts';
+
+describe('highlight', function () {
+	const documents: { [ref: string]: LunrDocument } = {
+		a: {
+			id: 'a',
+			title: 'Green plant',
+			body:
+				'Professor Plumb has a green plant in his study, the plant is watered by Miss Scarlett <every> week.',
+		},
+		b: {
+			id: 'b',
+			title: 'Colonel Mustard',
+			body: 'Colonel Mustard is in the study',
+		},
+	};
+
+	const idx = lunr(function (builder: Builder) {
+		builder.ref('id');
+		builder.field('title');
+		builder.field('body');
+		builder.metadataWhitelist = ['position'];
+
+		for (const ref of Object.keys(documents)) {
+			builder.add(documents[ref]);
+		}
+	});
+
+	const search = function (q: string) {
+		const [match] = idx.search(q);
+		return match;
+	};
+
+	describe('whole field', function () {
+		it('wraps every matching term', function () {
+			const match = search('plant water');
+
+			assertEquals(
+				[
+					'Professor Plumb has a green <mark>plant</mark> in his study, the <mark>plant</mark> is <mark>watered</mark> by Miss Scarlett &lt;every&gt; week.',
+				],
+				highlight(match, documents.a, 'body', { fragmentSize: 0 }),
+			);
+		});
+
+		it('only highlights the requested field', function () {
+			const match = search('title:green');
+
+			assertEquals(
+				['<mark>Green</mark> plant'],
+				highlight(match, documents.a, 'title', { fragmentSize: 0 }),
+			);
+			assertEquals([], highlight(match, documents.a, 'body'));
+		});
+	});
+
+	describe('tags', function () {
+		it('uses the configured tags', function () {
+			const match = search('title:plant');
+
+			assertEquals(
+				['Green <em class="hit">plant</em>'],
+				highlight(match, documents.a, 'title', {
+					preTag: '<em class="hit">',
+					postTag: '</em>',
+				}),
+			);
+		});
+	});
+
+	describe('adjacent hits', function () {
+		const match = search('green plant');
+
+		it('are merged by default', function () {
+			assertEquals(
+				['<mark>Green plant</mark>'],
+				highlight(match, documents.a, 'title'),
+			);
+		});
+
+		it('can be kept apart', function () {
+			assertEquals(
+				['<mark>Green</mark> <mark>plant</mark>'],
+				highlight(match, documents.a, 'title', {
+					mergeAdjacent: false,
+				}),
+			);
+		});
+	});
+
+	describe('fragments', function () {
+		const match = search('professor scarlett');
+
+		it('splits distant hits into fragments', function () {
+			assertEquals(
+				[
+					'<mark>Professor</mark> Plumb has a green',
+					'by Miss <mark>Scarlett</mark> &lt;every&gt;',
+				],
+				highlight(match, documents.a, 'body', { fragmentSize: 30 }),
+			);
+		});
+
+		it('keeps close hits in one fragment', function () {
+			const fragments = highlight(match, documents.a, 'body', {
+				fragmentSize: 90,
+			});
+
+			assertEquals(1, fragments.length);
+			assertEquals(0, fragments[0].indexOf('<mark>Professor</mark>'));
+		});
+
+		it('prefers fragments with the most hits', function () {
+			assertEquals(
+				['<mark>plant</mark> in his study, the <mark>plant</mark> is'],
+				highlight(search('plant scarlett'), documents.a, 'body', {
+					fragmentSize: 40,
+					maxFragments: 1,
+				}),
+			);
+		});
+	});
+
+	describe('without positions', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('body');
+			builder.add(documents.b);
+		});
+
+		it('returns no fragments', function () {
+			const [match] = idx.search('mustard');
+
+			assertEquals([], highlight(match, documents.b, 'body'));
+		});
+	});
+});
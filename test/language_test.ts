@@ -0,0 +1,322 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assert,
+	assertEquals,
+	assertThrows,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { Builder } from '../src/Builder.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { Pipeline } from '../src/Pipeline.ts';
+import { Token } from '../src/Token.ts';
+import { lunr } from '../src/lunr.ts';
+import { configureLanguage, english, languages } from '../src/language.ts';
+import { Language } from '../src/languages/Language.ts';
+import { dutch } from '../src/languages/dutch.ts';
+import { french } from '../src/languages/french.ts';
+import { german } from '../src/languages/german.ts';
+import { italian } from '../src/languages/italian.ts';
+import { portuguese } from '../src/languages/portuguese.ts';
+import { spanish } from '../src/languages/spanish.ts';
+
+import germanVocab from './fixtures/stemming_vocab_de.json' assert {
+	type: 'json',
+};
+import frenchVocab from './fixtures/stemming_vocab_fr.json' assert {
+	type: 'json',
+};
+import spanishVocab from './fixtures/stemming_vocab_es.json' assert {
+	type: 'json',
+};
+import italianVocab from './fixtures/stemming_vocab_it.json' assert {
+	type: 'json',
+};
+import portugueseVocab from './fixtures/stemming_vocab_pt.json' assert {
+	type: 'json',
+};
+import dutchVocab from './fixtures/stemming_vocab_nl.json' assert {
+	type: 'json',
+};
+
+describe('languages', function () {
+	const languageTest = function (
+		language: Language,
+		vocab: { [word: string]: string },
+		stopWords: string[],
+		accentedWord: string,
+	) {
+		describe(language.code, function () {
+			it('reduces words to their stem', function () {
+				for (const word in vocab) {
+					const result = language.stemmer(new Token(word)).toString();
+
+					assertEquals(vocab[word], result);
+				}
+			});
+
+			it('filters stop words', function () {
+				for (const word of stopWords) {
+					assert(
+						'undefined' === typeof language.stopWordFilter(word),
+					);
+				}
+			});
+
+			it('ignores properties of Object.prototype', function () {
+				assertEquals(
+					'constructor',
+					language.stopWordFilter('constructor'),
+				);
+			});
+
+			it('trims punctuation but not accented letters', function () {
+				const token = new Token('«' + accentedWord + '».'),
+					trimmed = language.trimmer(token).toString();
+
+				assertEquals(accentedWord, trimmed);
+			});
+
+			it('has registered pipeline functions', function () {
+				const code = language.code;
+
+				assertEquals('stemmer-' + code, language.stemmer.label);
+				assertEquals(
+					'stopWordFilter-' + code,
+					language.stopWordFilter.label,
+				);
+				assertEquals('trimmer-' + code, language.trimmer.label);
+				assertEquals(
+					language.stemmer,
+					Pipeline.registeredFunctions['stemmer-' + code],
+				);
+			});
+
+			it('is a supported language', function () {
+				assertEquals(language, languages[language.code]);
+			});
+		});
+	};
+
+	languageTest(german, germanVocab, ['und', 'über', 'daß'], 'Übergrößen');
+	languageTest(french, frenchVocab, ['et', 'nous', 'été'], 'élèves');
+	languageTest(spanish, spanishVocab, ['y', 'también', 'él'], 'canción');
+	languageTest(italian, italianVocab, ['e', 'perché', 'più'], 'città');
+	languageTest(portuguese, portugueseVocab, ['e', 'não', 'às'], 'ação');
+	languageTest(dutch, dutchVocab, ['en', 'zijn', 'reeds'], 'ideeën');
+});
+
+describe('configureLanguage', function () {
+	it('sets up the pipelines of a builder for a language', function () {
+		const builder = new Builder();
+		configureLanguage(builder, german);
+
+		assertEquals(
+			['trimmer-de', 'stopWordFilter-de', 'stemmer-de'],
+			builder.pipeline.toJSON(),
+		);
+		assertEquals(['stemmer-de'], builder.searchPipeline.toJSON());
+	});
+
+	it('replaces the pipeline functions already set up', function () {
+		const builder = new Builder();
+		configureLanguage(builder, english);
+		configureLanguage(builder, 'fr');
+
+		assertEquals(
+			['trimmer-fr', 'stopWordFilter-fr', 'stemmer-fr'],
+			builder.pipeline.toJSON(),
+		);
+		assertEquals(['stemmer-fr'], builder.searchPipeline.toJSON());
+	});
+
+	it('sets up english pipelines like lunr', function () {
+		lunr(function (builder) {
+			assertEquals(
+				['trimmer-unicode', 'stopWordFilter', 'stemmer'],
+				builder.pipeline.toJSON(),
+			);
+			assertEquals(['stemmer'], builder.searchPipeline.toJSON());
+		});
+	});
+
+	it('throws for an unrecognised language', function () {
+		assertThrows(function () {
+			configureLanguage(new Builder(), 'xx');
+		});
+
+		assertThrows(function () {
+			configureLanguage(new Builder(), 'toString');
+		});
+	});
+
+	describe('searching documents in a language', function () {
+		const idx = lunr(function (builder) {
+			configureLanguage(builder, 'de');
+			builder.field('body');
+
+			builder.add({
+				id: 'a',
+				body: 'Die Häuser der Stadt wurden renoviert.',
+			});
+			builder.add({
+				id: 'b',
+				body: 'Ein Haus am See.',
+			});
+			builder.add({
+				id: 'c',
+				body: 'Die Stadt hat viele Gärten.',
+			});
+		});
+
+		it('matches inflected forms of a word', function () {
+			const refs = idx.search('Hauses').map(function (result) {
+				return result.ref;
+			});
+
+			assertEquals(['a', 'b'], refs.sort());
+		});
+
+		it('does not index stop words', function () {
+			assertEquals(0, idx.search('die').length);
+		});
+
+		it('keeps working once serialized', function () {
+			const loaded = LunrIndex.load(JSON.parse(JSON.stringify(idx)));
+
+			assertEquals(1, loaded.search('Garten').length);
+		});
+	});
+});
+
+describe('Builder#languages', function () {
+	const build = function (detector?: (doc: object) => string | undefined) {
+		return lunr(function (builder) {
+			builder.languages(['en', 'de'], {
+				field: 'lang',
+				detector: detector,
+			});
+			builder.field('body');
+			builder.storePositions();
+
+			builder.add({
+				id: 'en',
+				lang: 'en',
+				body: 'the houses of the town',
+			});
+			builder.add({
+				id: 'de',
+				lang: 'de-AT',
+				body: 'die Häuser der Stadt',
+			});
+			builder.add({ id: 'xx', body: 'die Gärten der Stadt' });
+		});
+	};
+
+	const refs = function (results: { ref: string }[]) {
+		return results.map(function (result) {
+			return result.ref;
+		}).sort();
+	};
+
+	it('processes documents with the pipeline of their language', function () {
+		const builder = new Builder();
+		builder.languages(['en', german]);
+
+		assertEquals(
+			['trimmer-unicode', 'stopWordFilter', 'stemmer'],
+			builder.languagePipelines['en'].toJSON(),
+		);
+		assertEquals(
+			['trimmer-de', 'stopWordFilter-de', 'stemmer-de'],
+			builder.languagePipelines['de'].toJSON(),
+		);
+		assertEquals(
+			['stemmer-de'],
+			builder.languageSearchPipelines['de'].toJSON(),
+		);
+	});
+
+	it('tells the language of documents', function () {
+		const builder = new Builder();
+		assertEquals(undefined, builder.documentLanguage({ language: 'de' }));
+
+		builder.languages(['en', 'de'], {
+			detector: function (doc) {
+				return /ß/.test(doc.body) ? 'de' : undefined;
+			},
+		});
+
+		assertEquals('de', builder.documentLanguage({ language: 'DE_ch' }));
+		assertEquals('de', builder.documentLanguage({ body: 'Straße' }));
+		assertEquals('en', builder.documentLanguage({ body: 'road' }));
+		assertEquals('en', builder.documentLanguage({ language: 'fr' }));
+	});
+
+	it('throws for an unrecognised language', function () {
+		assertThrows(function () {
+			new Builder().languages(['en', 'xx']);
+		});
+	});
+
+	it('indexes documents without a language in the first language', function () {
+		const idx = build();
+
+		assertEquals(['de', 'xx'], refs(idx.search('Stadt')));
+		assertEquals(['xx'], refs(idx.search('die')));
+	});
+
+	it('indexes documents in the language found by the detector', function () {
+		const idx = build(function () {
+			return 'de';
+		});
+
+		assertEquals(0, idx.search('die').length);
+		assertEquals(['xx'], refs(idx.search('Garten')));
+	});
+
+	it('searches every language by default', function () {
+		const idx = build();
+
+		assertEquals(['de', 'en'], refs(idx.search('Häuser houses')));
+		assertEquals(['de'], refs(idx.search('+Hauser')));
+	});
+
+	it('searches a single language', function () {
+		const idx = build();
+
+		assertEquals(['de'], refs(idx.search('Häusern', { language: 'de' })));
+		assertEquals(0, idx.search('Häusern', { language: 'en' }).length);
+		assertThrows(function () {
+			idx.search('Häusern', { language: 'fr' });
+		});
+	});
+
+	it('matches phrases with the pipelines of every language', function () {
+		const idx = build();
+
+		assertEquals(['de'], refs(idx.search('"die Häuser der Stadt"')));
+		assertEquals(['en'], refs(idx.search('"the houses"')));
+	});
+
+	it('keeps working once serialized', function () {
+		const loaded = LunrIndex.load(JSON.parse(JSON.stringify(build())));
+
+		assertEquals(
+			['de'],
+			refs(loaded.search('Häusern', { language: 'de' })),
+		);
+		assertEquals(['de'], refs(loaded.search('"die Häuser der Stadt"')));
+		assertEquals(['en'], refs(loaded.search('"the houses"')));
+	});
+
+	it('keeps working once serialized updatable and updated', function () {
+		const loaded = LunrIndex.load(
+			JSON.parse(JSON.stringify(build().toJSON({ updatable: true }))),
+		);
+
+		loaded.add({ id: 'de2', lang: 'de', body: 'ein Haus' });
+		assertEquals(
+			['de', 'de2'],
+			refs(loaded.search('Häuser', { language: 'de' })),
+		);
+	});
+});
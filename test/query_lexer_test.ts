@@ -349,6 +349,35 @@ describe('QueryLexer', function () {
 			});
 		});
 
+		describe('term with field with presence filter', function () {
+			const lexer = lex('#title:foo');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[QueryLexer.PRESENCE, QueryLexer.FIELD, QueryLexer.TERM],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['#', 'title', 'foo'],
+				);
+			});
+		});
+
+		describe('term containing #', function () {
+			const lexer = lex('c#');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[QueryLexer.TERM],
+				);
+			});
+		});
+
 		describe('term with field with presence required', function () {
 			const lexer = lex('+title:foo');
 
@@ -534,5 +563,322 @@ describe('QueryLexer', function () {
 				});
 			});
 		});
+
+		describe('phrase', function () {
+			const lexer = lex('"foo bar"');
+
+			it('produces 1 lexeme', function () {
+				assertEquals(lexer.lexemes.length, 1);
+			});
+
+			describe('lexeme', function () {
+				const lexeme = lexer.lexemes[0];
+
+				it('#type', function () {
+					assertEquals(QueryLexer.PHRASE, lexeme.type);
+				});
+
+				it('#str', function () {
+					assertEquals('foo bar', lexeme.str);
+				});
+
+				it('#start', function () {
+					assertEquals(1, lexeme.start);
+				});
+
+				it('#end', function () {
+					assertEquals(8, lexeme.end);
+				});
+			});
+		});
+
+		describe('phrase with field, presence and boost', function () {
+			const lexer = lex('+title:"foo bar"^2 baz');
+
+			it('produces 5 lexemes', function () {
+				assertEquals(lexer.lexemes.length, 5);
+			});
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[
+						QueryLexer.PRESENCE,
+						QueryLexer.FIELD,
+						QueryLexer.PHRASE,
+						QueryLexer.BOOST,
+						QueryLexer.TERM,
+					],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['+', 'title', 'foo bar', '2', 'baz'],
+				);
+			});
+		});
+
+		describe('phrase with edit distance', function () {
+			const lexer = lex('"foo bar"~2');
+
+			it('produces 2 lexemes', function () {
+				assertEquals(lexer.lexemes.length, 2);
+			});
+
+			it('#type', function () {
+				assertEquals(QueryLexer.PHRASE, lexer.lexemes[0].type);
+				assertEquals(QueryLexer.EDIT_DISTANCE, lexer.lexemes[1].type);
+			});
+
+			it('#str', function () {
+				assertEquals('2', lexer.lexemes[1].str);
+			});
+		});
+
+		describe('phrase with escaped quote', function () {
+			const lexer = lex('"foo \\"bar"');
+
+			it('produces 1 lexeme', function () {
+				assertEquals(lexer.lexemes.length, 1);
+			});
+
+			it('#str', function () {
+				assertEquals('foo "bar', lexer.lexemes[0].str);
+			});
+		});
+
+		describe('unterminated phrase', function () {
+			const lexer = lex('"foo bar');
+
+			it('produces 1 lexeme', function () {
+				assertEquals(lexer.lexemes.length, 1);
+			});
+
+			it('#str', function () {
+				assertEquals('foo bar', lexer.lexemes[0].str);
+			});
+		});
+
+		describe('quote within a term', function () {
+			const lexer = lex('foo"bar');
+
+			it('produces 1 lexeme', function () {
+				assertEquals(lexer.lexemes.length, 1);
+			});
+
+			it('#type', function () {
+				assertEquals(QueryLexer.TERM, lexer.lexemes[0].type);
+			});
+		});
+
+		describe('group', function () {
+			const lexer = lex('(foo bar)');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[
+						QueryLexer.GROUP_START,
+						QueryLexer.TERM,
+						QueryLexer.TERM,
+						QueryLexer.GROUP_END,
+					],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['(', 'foo', 'bar', ')'],
+				);
+			});
+
+			it('#start', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.start),
+					[0, 1, 5, 8],
+				);
+			});
+
+			it('#end', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.end),
+					[1, 4, 8, 9],
+				);
+			});
+		});
+
+		describe('nested group with field, presence and boost', function () {
+			const lexer = lex('+title:(foo (bar))^2');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[
+						QueryLexer.PRESENCE,
+						QueryLexer.FIELD,
+						QueryLexer.GROUP_START,
+						QueryLexer.TERM,
+						QueryLexer.GROUP_START,
+						QueryLexer.TERM,
+						QueryLexer.GROUP_END,
+						QueryLexer.GROUP_END,
+						QueryLexer.BOOST,
+					],
+				);
+			});
+		});
+
+		describe('parentheses within a term', function () {
+			const lexer = lex('foo(bar) baz)');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[QueryLexer.TERM, QueryLexer.TERM],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['foo(bar)', 'baz)'],
+				);
+			});
+		});
+
+		describe('operators', function () {
+			const lexer = lex('foo AND bar OR NOT baz');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[
+						QueryLexer.TERM,
+						QueryLexer.OPERATOR,
+						QueryLexer.TERM,
+						QueryLexer.OPERATOR,
+						QueryLexer.OPERATOR,
+						QueryLexer.TERM,
+					],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['foo', 'AND', 'bar', 'OR', 'NOT', 'baz'],
+				);
+			});
+		});
+
+		describe('operator within a group', function () {
+			const lexer = lex('(foo OR)');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[
+						QueryLexer.GROUP_START,
+						QueryLexer.TERM,
+						QueryLexer.OPERATOR,
+						QueryLexer.GROUP_END,
+					],
+				);
+			});
+		});
+
+		describe('lowercase and escaped operators', function () {
+			const lexer = lex('and \\OR');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[QueryLexer.TERM, QueryLexer.TERM],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['and', 'OR'],
+				);
+			});
+		});
+
+		describe('range scoped by field', function () {
+			const lexer = lex('price:[10 TO 100} foo');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[QueryLexer.FIELD, QueryLexer.RANGE, QueryLexer.TERM],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['price', '[10 TO 100}', 'foo'],
+				);
+			});
+
+			it('#start', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.start),
+					[0, 6, 18],
+				);
+			});
+
+			it('#end', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.end),
+					[5, 17, 21],
+				);
+			});
+		});
+
+		describe('comparison in a group', function () {
+			const lexer = lex('(date:>=2024-01-01)');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[
+						QueryLexer.GROUP_START,
+						QueryLexer.FIELD,
+						QueryLexer.RANGE,
+						QueryLexer.GROUP_END,
+					],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['(', 'date', '>=2024-01-01', ')'],
+				);
+			});
+		});
+
+		describe('bracket without a field', function () {
+			const lexer = lex('[foo');
+
+			it('#type', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.type),
+					[QueryLexer.TERM],
+				);
+			});
+
+			it('#str', function () {
+				assertEquals(
+					lexer.lexemes.map((l) => l.str),
+					['[foo'],
+				);
+			});
+		});
 	});
 });
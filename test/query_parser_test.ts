@@ -513,6 +513,23 @@ describe('QueryParser', function () {
 				);
 			});
 		});
+
+		describe('term scoped by field with presence filter', function () {
+			const clauses = parse('#title:foo bar');
+
+			it('has 2 clauses', function () {
+				assertEquals(clauses.length, 2);
+			});
+
+			it('fields', function () {
+				assertSameMembers(['title'], clauses[0].fields);
+			});
+
+			it('presence', function () {
+				assertEquals(Query.presence.FILTER, clauses[0].presence);
+				assertEquals(Query.presence.OPTIONAL, clauses[1].presence);
+			});
+		});
 	});
 
 	describe('term with boost and edit distance', function () {
@@ -538,4 +555,321 @@ describe('QueryParser', function () {
 			assertSameMembers(['title', 'body'], clauses[0].fields);
 		});
 	});
+
+	describe('phrase', function () {
+		const clauses = parse('"Foo Bar"');
+
+		it('has 1 clause', function () {
+			assertEquals(clauses.length, 1);
+		});
+
+		it('term', function () {
+			assertEquals('foo bar', clauses[0].term);
+		});
+
+		it('phrase', function () {
+			assert(clauses[0].phrase);
+		});
+
+		it('fields', function () {
+			assertSameMembers(['title', 'body'], clauses[0].fields);
+		});
+	});
+
+	describe('phrase scoped by field with presence and boost', function () {
+		const clauses = parse('+title:"foo bar"^3 baz');
+
+		it('has 2 clauses', function () {
+			assertEquals(clauses.length, 2);
+		});
+
+		it('phrase clause', function () {
+			assertEquals('foo bar', clauses[0].term);
+			assert(clauses[0].phrase);
+			assertEquals(3, clauses[0].boost);
+			assertEquals(Query.presence.REQUIRED, clauses[0].presence);
+			assertEquals(['title'], clauses[0].fields);
+		});
+
+		it('term clause', function () {
+			assertEquals('baz', clauses[1].term);
+			assertEquals(undefined, clauses[1].phrase);
+		});
+	});
+
+	describe('phrase with edit distance', function () {
+		const clauses = parse('"foo bar"~2^3');
+
+		it('has 1 clause', function () {
+			assertEquals(clauses.length, 1);
+		});
+
+		it('slop', function () {
+			assertEquals(2, clauses[0].slop);
+		});
+
+		it('editDistance', function () {
+			assertEquals(undefined, clauses[0].editDistance);
+		});
+
+		it('boost', function () {
+			assertEquals(3, clauses[0].boost);
+		});
+	});
+
+	describe('group', function () {
+		const clauses = parse('(foo bar)^2 baz');
+
+		it('has 2 clauses', function () {
+			assertEquals(clauses.length, 2);
+		});
+
+		it('group clause', function () {
+			const group = clauses[0].group as Query;
+
+			assertEquals(2, clauses[0].boost);
+			assertEquals(Query.presence.OPTIONAL, clauses[0].presence);
+			assertEquals(
+				['foo', 'bar'],
+				group.clauses.map((c) => c.term),
+			);
+		});
+
+		it('term clause', function () {
+			assertEquals('baz', clauses[1].term);
+			assertEquals(undefined, clauses[1].group);
+		});
+	});
+
+	describe('group scoped by field with presence', function () {
+		const clauses = parse('-title:(foo (bar))');
+
+		it('group clause', function () {
+			assertEquals(Query.presence.PROHIBITED, clauses[0].presence);
+		});
+
+		it('clauses within the group use the field', function () {
+			const group = clauses[0].group as Query,
+				nested = group.clauses[1].group as Query;
+
+			assertEquals(['title'], group.clauses[0].fields);
+			assertEquals(['title'], nested.clauses[0].fields);
+		});
+	});
+
+	describe('terms joined by AND', function () {
+		const clauses = parse('foo AND -bar AND baz');
+
+		it('has 3 clauses', function () {
+			assertEquals(clauses.length, 3);
+		});
+
+		it('presence', function () {
+			assertEquals(
+				[
+					Query.presence.REQUIRED,
+					Query.presence.PROHIBITED,
+					Query.presence.REQUIRED,
+				],
+				clauses.map((c) => c.presence),
+			);
+		});
+	});
+
+	describe('terms joined by OR', function () {
+		const clauses = parse('foo OR bar');
+
+		it('has 2 optional clauses', function () {
+			assertEquals(
+				[Query.presence.OPTIONAL, Query.presence.OPTIONAL],
+				clauses.map((c) => c.presence),
+			);
+		});
+	});
+
+	describe('AND with OR', function () {
+		const clauses = parse('foo AND bar OR baz');
+
+		it('has 2 clauses', function () {
+			assertEquals(clauses.length, 2);
+		});
+
+		it('conjunction is an optional group of required terms', function () {
+			const group = clauses[0].group as Query;
+
+			assertEquals(Query.presence.OPTIONAL, clauses[0].presence);
+			assertEquals(
+				['foo', 'bar'],
+				group.clauses.map((c) => c.term),
+			);
+			assertEquals(
+				[Query.presence.REQUIRED, Query.presence.REQUIRED],
+				group.clauses.map((c) => c.presence),
+			);
+		});
+
+		it('other term is optional', function () {
+			assertEquals('baz', clauses[1].term);
+			assertEquals(Query.presence.OPTIONAL, clauses[1].presence);
+		});
+	});
+
+	describe('NOT', function () {
+		const clauses = parse('foo NOT title:bar');
+
+		it('prohibits the following clause', function () {
+			assertEquals(Query.presence.OPTIONAL, clauses[0].presence);
+			assertEquals(Query.presence.PROHIBITED, clauses[1].presence);
+			assertEquals(['title'], clauses[1].fields);
+		});
+	});
+
+	describe('groups joined by AND', function () {
+		const clauses = parse('(title:api OR body:api) AND NOT deprecated');
+
+		it('has 2 clauses', function () {
+			assertEquals(clauses.length, 2);
+		});
+
+		it('group is required', function () {
+			assertEquals(Query.presence.REQUIRED, clauses[0].presence);
+			assertEquals(2, (clauses[0].group as Query).clauses.length);
+		});
+
+		it('term is prohibited', function () {
+			assertEquals('deprecated', clauses[1].term);
+			assertEquals(Query.presence.PROHIBITED, clauses[1].presence);
+		});
+	});
+
+	describe('invalid groups and operators', function () {
+		const invalid = [
+			'(foo',
+			'()',
+			'foo (bar',
+			'AND foo',
+			'foo OR',
+			'foo AND OR bar',
+			'(foo AND)',
+			'NOT',
+		];
+
+		for (const q of invalid) {
+			it('throws QueryParseError for ' + q, function () {
+				assertThrows(function () {
+					parse(q);
+				}, QueryParseError);
+			});
+		}
+	});
+
+	describe('ranges', function () {
+		const parseRange = function (q: string) {
+			const query = new Query(['title'], ['price', 'date']),
+				parser = new QueryParser(q, query);
+
+			parser.parse();
+
+			return query.clauses;
+		};
+
+		describe('inclusive range', function () {
+			const clauses = parseRange('price:[10 TO 100]');
+
+			it('has 1 clause', function () {
+				assertEquals(clauses.length, 1);
+			});
+
+			it('fields', function () {
+				assertEquals(['price'], clauses[0].fields);
+			});
+
+			it('range', function () {
+				assertEquals({
+					min: '10',
+					max: '100',
+					minInclusive: true,
+					maxInclusive: true,
+				}, clauses[0].range);
+			});
+		});
+
+		describe('exclusive and open bounds', function () {
+			const clauses = parseRange('+price:{10 TO *]');
+
+			it('presence', function () {
+				assertEquals(Query.presence.REQUIRED, clauses[0].presence);
+			});
+
+			it('range', function () {
+				assertEquals({
+					min: '10',
+					max: undefined,
+					minInclusive: false,
+					maxInclusive: true,
+				}, clauses[0].range);
+			});
+		});
+
+		describe('comparisons', function () {
+			const clauses = parseRange(
+				'date:>2024-01-01 date:<=2025-01-01 price:<5 price:>=1',
+			);
+
+			it('has 4 clauses', function () {
+				assertEquals(clauses.length, 4);
+			});
+
+			it('greater than', function () {
+				assertEquals('2024-01-01', clauses[0].range?.min);
+				assertEquals(false, clauses[0].range?.minInclusive);
+			});
+
+			it('less than or equal', function () {
+				assertEquals('2025-01-01', clauses[1].range?.max);
+				assertEquals(true, clauses[1].range?.maxInclusive);
+			});
+
+			it('less than', function () {
+				assertEquals('5', clauses[2].range?.max);
+				assertEquals(false, clauses[2].range?.maxInclusive);
+			});
+
+			it('greater than or equal', function () {
+				assertEquals('1', clauses[3].range?.min);
+				assertEquals(true, clauses[3].range?.minInclusive);
+			});
+		});
+
+		describe('range with a term', function () {
+			const clauses = parseRange('price:[1 TO 2] title:foo');
+
+			it('has 2 clauses', function () {
+				assertEquals(clauses.length, 2);
+			});
+
+			it('term', function () {
+				assertEquals('foo', clauses[1].term);
+			});
+		});
+
+		describe('invalid ranges', function () {
+			const invalid = [
+				'price:[1 TO 2',
+				'price:[1 2]',
+				'price:>',
+				'price:foo',
+				'title:[1 TO 2]',
+				'price:[1 TO 2]^2',
+			];
+
+			for (const q of invalid) {
+				it('throws QueryParseError for ' + q, function () {
+					assertThrows(function () {
+						parseRange(q);
+					}, QueryParseError);
+				});
+			}
+		});
+	});
 });
@@ -230,5 +230,132 @@ describe('Query', function () {
 				assertFalse(query.isNegated());
 			});
 		});
+
+		describe('prohibited and filters', function () {
+			const query = new Query(allFields);
+			query.term('foo', { presence: Query.presence.PROHIBITED });
+			query.term('bar', { presence: Query.presence.FILTER });
+
+			it('is negated', function () {
+				assert(query.isNegated());
+			});
+		});
+
+		describe('negated group', function () {
+			const query = new Query(allFields);
+			query.term('foo', { presence: Query.presence.PROHIBITED });
+			query.group(function (group) {
+				group.term('bar', { presence: Query.presence.PROHIBITED });
+			});
+
+			it('is negated', function () {
+				assert(query.isNegated());
+			});
+		});
+
+		describe('group with optional term', function () {
+			const query = new Query(allFields);
+			query.term('foo', { presence: Query.presence.PROHIBITED });
+			query.group(function (group) {
+				group.term('bar');
+			});
+
+			it('is negated', function () {
+				assertFalse(query.isNegated());
+			});
+		});
+	});
+
+	describe('#phrase', function () {
+		const query = new Query(allFields);
+		query.phrase('foo bar', {
+			fields: ['title'],
+			wildcard: QueryWildCard.TRAILING,
+		});
+
+		it('adds a single clause', function () {
+			assertEquals(query.clauses.length, 1);
+		});
+
+		it('clause is a phrase', function () {
+			assert(query.clauses[0].phrase);
+		});
+
+		it('does not insert wildcards', function () {
+			assertEquals(query.clauses[0].term, 'foo bar');
+		});
+
+		it('clause has the specified fields', function () {
+			assertEquals(['title'], query.clauses[0].fields);
+		});
+	});
+
+	describe('#group', function () {
+		const query = new Query(allFields);
+		query.group(function (group) {
+			group.term('foo');
+			group.term('bar', { fields: ['title'] });
+		}, { presence: Query.presence.REQUIRED, boost: 2 });
+
+		it('adds a single clause', function () {
+			assertEquals(query.clauses.length, 1);
+		});
+
+		it('clause has the specified options', function () {
+			assertEquals(Query.presence.REQUIRED, query.clauses[0].presence);
+			assertEquals(2, query.clauses[0].boost);
+		});
+
+		it('does not insert wildcards', function () {
+			assertEquals(undefined, query.clauses[0].term);
+		});
+
+		it('group has the clauses', function () {
+			const group = query.clauses[0].group as Query;
+
+			assertEquals(['foo', 'bar'], group.clauses.map((c) => c.term));
+			assertEquals(allFields, group.clauses[0].fields);
+			assertEquals(['title'], group.clauses[1].fields);
+		});
+	});
+
+	describe('#range', function () {
+		const query = new Query(allFields, ['price']);
+		query.range('price', { min: 10, max: 100 }, {
+			presence: Query.presence.REQUIRED,
+		});
+
+		it('adds a single clause', function () {
+			assertEquals(query.clauses.length, 1);
+		});
+
+		it('clause is scoped to the field', function () {
+			assertEquals(['price'], query.clauses[0].fields);
+			assertEquals(Query.presence.REQUIRED, query.clauses[0].presence);
+		});
+
+		it('clause has the range', function () {
+			assertEquals({ min: 10, max: 100 }, query.clauses[0].range);
+			assertEquals(undefined, query.clauses[0].term);
+		});
+	});
+
+	describe('.autoEditDistance', function () {
+		it('matches short terms exactly', function () {
+			assertEquals(0, Query.autoEditDistance('ab'));
+		});
+
+		it('allows one edit in medium terms', function () {
+			assertEquals(1, Query.autoEditDistance('abc'));
+			assertEquals(1, Query.autoEditDistance('abcde'));
+		});
+
+		it('allows two edits in long terms', function () {
+			assertEquals(2, Query.autoEditDistance('abcdef'));
+		});
+
+		it('counts characters rather than code units', function () {
+			assertEquals(0, Query.autoEditDistance('𠮷𠮷'));
+		});
 	});
 });
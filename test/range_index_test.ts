@@ -0,0 +1,84 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import { assertEquals } from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { RangeIndex } from '../src/RangeIndex.ts';
+
+describe('RangeIndex', function () {
+	const build = function () {
+		const rangeIndex = new RangeIndex('number');
+
+		rangeIndex.insert(5, 'b');
+		rangeIndex.insert(1, 'a');
+		rangeIndex.insert(10, 'c');
+		rangeIndex.insert(5, 'd');
+
+		return rangeIndex;
+	};
+
+	describe('#parse', function () {
+		it('parses numbers', function () {
+			const rangeIndex = new RangeIndex('number');
+
+			assertEquals(rangeIndex.parse(3), 3);
+			assertEquals(rangeIndex.parse('3.5'), 3.5);
+			assertEquals(rangeIndex.parse('foo'), NaN);
+			assertEquals(rangeIndex.parse(''), NaN);
+			assertEquals(rangeIndex.parse(null), NaN);
+		});
+
+		it('parses dates', function () {
+			const rangeIndex = new RangeIndex('date'),
+				time = Date.UTC(2024, 0, 1);
+
+			assertEquals(rangeIndex.parse(new Date(time)), time);
+			assertEquals(rangeIndex.parse('2024-01-01'), time);
+			assertEquals(rangeIndex.parse(time), time);
+			assertEquals(rangeIndex.parse('foo'), NaN);
+		});
+	});
+
+	describe('#range', function () {
+		const rangeIndex = build();
+
+		it('includes both bounds by default', function () {
+			assertEquals(rangeIndex.range(1, 5), ['a', 'b', 'd']);
+		});
+
+		it('excludes bounds', function () {
+			assertEquals(rangeIndex.range(1, 10, false, false), ['b', 'd']);
+		});
+
+		it('leaves missing bounds open', function () {
+			assertEquals(rangeIndex.range(5), ['b', 'd', 'c']);
+			assertEquals(rangeIndex.range(undefined, 5, true, false), ['a']);
+			assertEquals(rangeIndex.range(), ['a', 'b', 'd', 'c']);
+		});
+
+		it('returns nothing for an empty range', function () {
+			assertEquals(rangeIndex.range(6, 9), []);
+			assertEquals(rangeIndex.range(10, 1), []);
+		});
+	});
+
+	describe('#remove', function () {
+		it('removes every value of the document', function () {
+			const rangeIndex = build();
+
+			rangeIndex.insert(7, 'b');
+			rangeIndex.remove('b');
+
+			assertEquals(rangeIndex.range(), ['a', 'd', 'c']);
+		});
+	});
+
+	describe('serialization', function () {
+		it('round trips', function () {
+			const rangeIndex = build(),
+				loaded = RangeIndex.load(
+					JSON.parse(JSON.stringify(rangeIndex)),
+				);
+
+			assertEquals(loaded.type, 'number');
+			assertEquals(loaded.range(2, 10), rangeIndex.range(2, 10));
+		});
+	});
+});
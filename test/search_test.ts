@@ -11,9 +11,12 @@ import {
 } from './utils.ts';
 import { lunr } from '../src/lunr.ts';
 import { Query, QueryWildCard } from '../src/Query.ts';
-import { DocMatch } from '../src/LunrIndex.ts';
+import { DocMatch, LunrIndex } from '../src/LunrIndex.ts';
 import { QueryParseError } from '../src/QueryParseError.ts';
-import { Builder } from '../src/Builder.ts';
+import { Builder, LunrDocument } from '../src/Builder.ts';
+import { generateSynonymFilter } from '../src/synonymFilter.ts';
+import { stemmer } from '../src/stemmer.ts';
+import { PipelineFunction } from '../src/PipelineFunction.ts';
 
 describe('search', function () {
 	const documents = [{
@@ -577,6 +580,104 @@ describe('search', function () {
 					);
 				});
 			});
+
+			describe('automatic', function () {
+				it('applies to every term of the search', function () {
+					assertLengthOf(
+						idx.search('plont', { fuzziness: 'auto' }),
+						2,
+					);
+					assertLengthOf(idx.search('plont'), 0);
+				});
+
+				it('matches short terms exactly', function () {
+					assertLengthOf(idx.search('hs', { fuzziness: 'auto' }), 0);
+				});
+
+				it('matches terms exactly with a fuzziness of 0', function () {
+					assertLengthOf(idx.search('plont', { fuzziness: 0 }), 0);
+					assertEquals(
+						idx.search('plant'),
+						idx.search('plant', { fuzziness: 0 }),
+					);
+					assertLengthOf(
+						idx.query(function (q) {
+							q.term('plont', { editDistance: 0 });
+						}),
+						0,
+					);
+				});
+
+				it('applies to clauses with an auto edit distance', function () {
+					const results = idx.query(function (q) {
+						q.term('plont', { editDistance: 'auto' });
+					});
+
+					assertLengthOf(results, 2);
+				});
+
+				it('keeps the edit distance of terms', function () {
+					assertLengthOf(
+						idx.search('plxxt~1', { fuzziness: 'auto' }),
+						0,
+					);
+					assertLengthOf(
+						idx.search('candlestxxx', { fuzziness: 'auto' }),
+						0,
+					);
+					assertLengthOf(
+						idx.search('candlestixx', { fuzziness: 'auto' }),
+						1,
+					);
+				});
+
+				it('does not apply to wildcards', function () {
+					assertLengthOf(
+						idx.search('plx*', { fuzziness: 'auto' }),
+						0,
+					);
+				});
+
+				it('scores expansions lower than exact matches', function () {
+					const exactIdx = lunr(function (builder) {
+							builder.field('body');
+							builder.add({ id: 'a', body: 'plank' });
+							builder.add({ id: 'b', body: 'plant' });
+						}),
+						results = exactIdx.search('plant', {
+							fuzziness: 'auto',
+						});
+
+					assertEquals(['b', 'a'], results.map((r) => r.ref));
+					assert(results[0].score > results[1].score);
+				});
+			});
+
+			describe('with a Levenshtein automaton', function () {
+				it('matches the same documents', function () {
+					assertLengthOf(idx.search('plont~1', { fuzzy: {} }), 2);
+				});
+
+				it('does not edit the prefix', function () {
+					assertLengthOf(
+						idx.search('plont~1', { fuzzy: { prefixLength: 4 } }),
+						0,
+					);
+					assertLengthOf(
+						idx.search('plnat~1', { fuzzy: { prefixLength: 2 } }),
+						2,
+					);
+				});
+
+				it('weighs the edits by their cost', function () {
+					assertLengthOf(
+						idx.search('plont~1', {
+							fuzzy: { costs: { substitution: 2 } },
+						}),
+						0,
+					);
+				});
+			});
 		});
 
 		describe('searching by field', function () {
@@ -1173,4 +1274,834 @@ describe('search', function () {
 			});
 		});
 	});
+
+	describe('phrase matching', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+			builder.storePositions();
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		describe('words in order', function () {
+			const assertions = function (results: DocMatch[]) {
+				it('matches documents containing the phrase', function () {
+					assertEquals(['b', 'c'], results.map((r) => r.ref).sort());
+				});
+
+				it('matching terms returned', function () {
+					assertSameMembers(
+						['green', 'plant'],
+						Object.keys(results[0].matchData.metadata),
+					);
+				});
+			};
+
+			describe('#search', function () {
+				assertions(idx.search('"green plant"'));
+			});
+
+			describe('#query', function () {
+				assertions(idx.query(function (q: Query) {
+					q.phrase('green plant');
+				}));
+			});
+		});
+
+		describe('words out of order', function () {
+			it('no matches', function () {
+				assertLengthOf(idx.search('"plant green"'), 0);
+			});
+		});
+
+		describe('words separated by a stop word', function () {
+			it('matches as indexed', function () {
+				assertEquals(
+					['a'],
+					idx.search('"killed colonel mustard in the study"')
+						.map((r) => r.ref),
+				);
+			});
+
+			it('matches as indexed once loaded', function () {
+				const loaded = LunrIndex.load(JSON.parse(JSON.stringify(idx)));
+
+				for (
+					const phrase of [
+						'"killed colonel mustard in the study"',
+						'"in the study"',
+						'"has a green plant"',
+					]
+				) {
+					const refs = idx.search(phrase).map((r) => r.ref);
+
+					assert(refs.length > 0);
+					assertEquals(refs, loaded.search(phrase).map((r) => r.ref));
+				}
+			});
+		});
+
+		describe('scoped to a field', function () {
+			it('only matches in that field', function () {
+				assertLengthOf(idx.search('title:"green plant"'), 0);
+			});
+		});
+
+		describe('with presence', function () {
+			it('required', function () {
+				assertEquals(
+					['c', 'b'],
+					idx.search('+"green plant" office').map((r) => r.ref),
+				);
+			});
+
+			it('prohibited', function () {
+				assertEquals(
+					['a'],
+					idx.search('green -"green plant"').map((r) => r.ref),
+				);
+			});
+		});
+
+		describe('with slop', function () {
+			it('matches words within the slop', function () {
+				assertEquals(
+					['a'],
+					idx.search('"green mustard"~2').map((r) => r.ref),
+				);
+			});
+
+			it('does not match words further apart', function () {
+				assertLengthOf(idx.search('"green mustard"~1'), 0);
+			});
+
+			it('matches words out of order', function () {
+				assertEquals(
+					['a'],
+					idx.search('"mustard green"~4').map((r) => r.ref),
+				);
+			});
+
+			it('scores closer words higher', function () {
+				const idx = lunr(function (builder: Builder) {
+					builder.storePositions();
+					builder.field('body');
+
+					builder.add({
+						id: 'far',
+						body: 'quick jumps high brown fox',
+					});
+					builder.add({
+						id: 'near',
+						body: 'quick brown fox jumps high',
+					});
+				});
+
+				assertEquals(
+					['near', 'far'],
+					idx.search('"quick fox"~5').map((r) => r.ref),
+				);
+			});
+		});
+
+		describe('without stored positions', function () {
+			const idx = lunr(function (builder: Builder) {
+				builder.ref('id');
+				builder.field('body');
+
+				for (const document of documents) {
+					builder.add(document);
+				}
+			});
+
+			it('no matches', function () {
+				assertLengthOf(idx.search('"green plant"'), 0);
+			});
+		});
+	});
+
+	describe('boolean grouping', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		describe('required group with prohibited term', function () {
+			const assertions = function (results: DocMatch[]) {
+				it('matches either field without the term', function () {
+					assertEquals(['b'], results.map((r) => r.ref));
+				});
+
+				it('matching terms returned', function () {
+					assertEquals(
+						['plant'],
+						Object.keys(results[0].matchData.metadata),
+					);
+				});
+			};
+
+			describe('#search', function () {
+				assertions(
+					idx.search('(title:plant OR body:office) AND -scarlett'),
+				);
+			});
+
+			describe('#query', function () {
+				assertions(idx.query(function (q: Query) {
+					q.group(function (group) {
+						group.term('plant', { fields: ['title'] });
+						group.term('office', { fields: ['body'] });
+					}, { presence: Query.presence.REQUIRED });
+					q.term('scarlett', {
+						presence: Query.presence.PROHIBITED,
+					});
+				}));
+			});
+		});
+
+		describe('required term with optional group', function () {
+			it('matches the term and one of the group', function () {
+				assertEquals(
+					['b', 'c'],
+					idx.search('plant AND (study OR office)')
+						.map((r) => r.ref).sort(),
+				);
+			});
+
+			it('narrows the matches', function () {
+				assertEquals(
+					['b'],
+					idx.search('plant AND (study OR mustard)')
+						.map((r) => r.ref),
+				);
+			});
+		});
+
+		describe('AND binds tighter than OR', function () {
+			it('matches either conjunction', function () {
+				assertEquals(
+					['a', 'c'],
+					idx.search('mustard AND study OR office')
+						.map((r) => r.ref).sort(),
+				);
+			});
+		});
+
+		describe('prohibited group', function () {
+			const results = idx.search('NOT (scarlett OR mustard)');
+
+			it('matches documents with neither term', function () {
+				assertEquals(['b'], results.map((r) => r.ref));
+			});
+
+			it('no score', function () {
+				assertEquals(0, results[0].score);
+			});
+		});
+
+		describe('nested groups', function () {
+			it('matches', function () {
+				assertEquals(
+					['c'],
+					idx.search('+(plant AND (office OR mustard)) -kills')
+						.map((r) => r.ref),
+				);
+			});
+		});
+
+		describe('group boost', function () {
+			const results = idx.search('(plumb)^10 scarlett');
+
+			it('changes the ranking', function () {
+				assertEquals(['b', 'c'], results.map((r) => r.ref));
+			});
+
+			it('applies to the terms of the group', function () {
+				assertEquals(
+					idx.search('plumb^10 scarlett').map((r) => r.score),
+					results.map((r) => r.score),
+				);
+			});
+		});
+
+		describe('unclosed group', function () {
+			it('throws QueryParseError', function () {
+				assertThrows(function () {
+					idx.search('(plant');
+				}, QueryParseError);
+			});
+		});
+	});
+
+	describe('stored fields', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title', { store: true });
+			builder.field('body');
+			builder.storedField('wordCount');
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		const results = idx.search('plant');
+
+		it('are returned with every result', function () {
+			assertEquals(
+				[
+					{ title: 'Plumb waters plant', wordCount: 9 },
+					{ title: 'Scarlett helps Professor', wordCount: 16 },
+				],
+				results.map((r) => r.stored),
+			);
+		});
+
+		it('are not shared with the index', function () {
+			(results[0].stored as LunrDocument).title = 'changed';
+
+			assertEquals(
+				'Plumb waters plant',
+				(idx.search('plant')[0].stored as LunrDocument).title,
+			);
+		});
+
+		it('are not returned without stored fields', function () {
+			const idx = lunr(function (builder: Builder) {
+				builder.field('title');
+				builder.add(documents[1]);
+			});
+
+			assertEquals(undefined, idx.search('plant')[0].stored);
+		});
+	});
+
+	describe('ranges', function () {
+		const published = ['2023-06-01', '2024-02-01', '2024-09-15'],
+			idx = lunr(function (builder: Builder) {
+				builder.ref('id');
+				builder.field('title');
+				builder.field('body');
+				builder.field('wordCount', { type: 'number' });
+				builder.field('published', { type: 'date' });
+
+				documents.forEach(function (document, i) {
+					builder.add(
+						Object.assign({ published: published[i] }, document),
+					);
+				});
+			});
+
+		const refs = function (q: string) {
+			return idx.search(q).map((r) => r.ref).sort();
+		};
+
+		it('match documents within the range', function () {
+			assertEquals(['b', 'c'], refs('wordCount:[9 TO 16]'));
+			assertEquals(['b'], refs('wordCount:[9 TO 16}'));
+			assertEquals(['a', 'c'], refs('wordCount:{9 TO *]'));
+		});
+
+		it('match comparisons', function () {
+			assertEquals(['a', 'c'], refs('wordCount:>9'));
+			assertEquals(['b'], refs('wordCount:<=9'));
+			assertEquals(['b', 'c'], refs('published:>=2024-01-01'));
+		});
+
+		it('do not contribute to the score', function () {
+			const results = idx.search('wordCount:>9');
+
+			assertEquals([0, 0], results.map((r) => r.score));
+			assertEquals(
+				idx.search('+wordCount:>9 green').map((r) => r.score),
+				idx.search('green').filter((r) => r.ref != 'b').map((r) =>
+					r.score
+				),
+			);
+		});
+
+		it('combine with presence and groups', function () {
+			assertEquals(['c'], refs('+published:>2024-03-01 +plant'));
+			assertEquals(
+				['a', 'c'],
+				refs('-published:[2024-01-01 TO 2024-06-01]'),
+			);
+			assertEquals(
+				['a', 'b'],
+				refs('mustard OR (plumb AND wordCount:<10)'),
+			);
+		});
+
+		it('match no documents with bounds of the wrong type', function () {
+			assertEquals([], refs('wordCount:>foo'));
+		});
+
+		it('can be built with Query#range', function () {
+			const results = idx.query(function (q) {
+				q.range('published', { max: new Date('2024-01-01') });
+			});
+
+			assertEquals(['a'], results.map((r) => r.ref));
+		});
+
+		it('follow updates to the index', function () {
+			const updatedIdx = lunr(function (builder: Builder) {
+				builder.ref('id');
+				builder.field('title');
+				builder.field('wordCount', { type: 'number' });
+
+				for (const document of documents) {
+					builder.add(document);
+				}
+			});
+
+			updatedIdx.remove('b');
+			updatedIdx.add({ id: 'd', title: 'Peacock', wordCount: 3 });
+
+			assertEquals(
+				['d'],
+				updatedIdx.search('wordCount:<10').map((r) => r.ref),
+			);
+		});
+
+		it('throw on a range for a text field', function () {
+			assertThrows(function () {
+				idx.search('title:[1 TO 2]');
+			}, QueryParseError);
+		});
+	});
+
+	describe('facets', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+			builder.facetField('suspect', {
+				extractor: function (doc) {
+					return doc.title.split(' ')[0];
+				},
+			});
+			builder.facetField('rooms');
+
+			for (const document of documents) {
+				builder.add(
+					Object.assign({
+						rooms: document.id == 'c'
+							? ['office', 'study']
+							: ['study'],
+					}, document),
+				);
+			}
+		});
+
+		it('are not counted unless requested', function () {
+			assertEquals(undefined, idx.search('green').facets);
+		});
+
+		it('count the values among the results', function () {
+			const results = idx.search('plant', {
+				facets: ['suspect', 'rooms'],
+			});
+
+			assertEquals({
+				suspect: [
+					{ value: 'Plumb', count: 1 },
+					{ value: 'Scarlett', count: 1 },
+				],
+				rooms: [
+					{ value: 'study', count: 2 },
+					{ value: 'office', count: 1 },
+				],
+			}, results.facets);
+		});
+
+		it('respect required and prohibited clauses', function () {
+			const results = idx.search('green -plumb', { facets: ['suspect'] });
+
+			assertEquals(['a'], results.map((r) => r.ref));
+			assertEquals(
+				[{ value: 'Mr.', count: 1 }],
+				results.facets?.suspect,
+			);
+		});
+
+		it('count every document of a negated query', function () {
+			const results = idx.query(function (q) {
+				q.term('scarlett', { presence: Query.presence.PROHIBITED });
+			}, { facets: ['rooms'] });
+
+			assertEquals([{ value: 'study', count: 2 }], results.facets?.rooms);
+		});
+
+		it('are empty without results', function () {
+			assertEquals(
+				{ rooms: [] },
+				idx.search('peacock', { facets: ['rooms'] }).facets,
+			);
+		});
+
+		it('throw for an unknown facet field', function () {
+			assertThrows(function () {
+				idx.search('green', { facets: ['title'] });
+			});
+		});
+	});
+
+	describe('filters', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+			builder.field('wordCount', { type: 'number' });
+			builder.metadataWhitelist = ['position'];
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		it('narrow the results without changing the scores', function () {
+			const results = idx.search('green #body:plant');
+
+			assertEquals(['b', 'c'], results.map((r) => r.ref).sort());
+			assertEquals(
+				idx.search('green').filter((r) => r.ref != 'a'),
+				results,
+			);
+		});
+
+		it('do not add match data', function () {
+			const results = idx.search('green #plant');
+
+			for (const result of results) {
+				assertEquals(['green'], Object.keys(result.matchData.metadata));
+			}
+		});
+
+		it('return every passing document when the query is only filters', function () {
+			const results = idx.search('#plant');
+
+			assertEquals(['b', 'c'], results.map((r) => r.ref).sort());
+			assertEquals([0, 0], results.map((r) => r.score));
+		});
+
+		it('apply to ranges and groups', function () {
+			assertEquals(
+				['c'],
+				idx.search('green #wordCount:>10 #(plant OR office)').map((r) =>
+					r.ref
+				),
+			);
+		});
+
+		it('can be built with Query#term', function () {
+			const results = idx.query(function (q) {
+				q.term('green');
+				q.term('scarlett', { presence: Query.presence.FILTER });
+			});
+
+			assertEquals(['c'], results.map((r) => r.ref));
+			assertEquals(['green'], Object.keys(results[0].matchData.metadata));
+		});
+	});
+
+	describe('pagination', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('body');
+			builder.facetField('even');
+
+			for (let i = 0; i < 50; i++) {
+				builder.add({
+					id: 'doc' + i,
+					body: 'green '.repeat(i % 7 + 1) + 'plant '.repeat(i % 3),
+					even: i % 2 == 0 ? 'yes' : 'no',
+				});
+			}
+		});
+
+		const all = idx.search('green plant');
+
+		it('returns every result without a limit', function () {
+			assertEquals(50, all.length);
+			assertEquals(undefined, all.total);
+		});
+
+		it('returns the best results up to the limit', function () {
+			const results = idx.search('green plant', { limit: 10 });
+
+			assertEquals(all.slice(0, 10), results.slice());
+			assertEquals(50, results.total);
+		});
+
+		it('skips the offset', function () {
+			for (const offset of [0, 5, 13, 45]) {
+				assertEquals(
+					all.slice(offset, offset + 7),
+					idx.search('green plant', { limit: 7, offset: offset })
+						.slice(),
+				);
+			}
+		});
+
+		it('returns the rest of the results with only an offset', function () {
+			const results = idx.search('green plant', { offset: 40 });
+
+			assertEquals(all.slice(40), results.slice());
+			assertEquals(50, results.total);
+		});
+
+		it('returns nothing past the last result', function () {
+			const results = idx.search('green', { limit: 10, offset: 60 });
+
+			assertEquals(0, results.length);
+			assertEquals(50, results.total);
+		});
+
+		it('returns nothing with a limit of 0', function () {
+			const results = idx.search('plant', { limit: 0 });
+
+			assertEquals(0, results.length);
+			assertEquals(33, results.total);
+		});
+
+		it('counts facets among every result', function () {
+			assertEquals(
+				{
+					even: [{ value: 'no', count: 25 }, {
+						value: 'yes',
+						count: 25,
+					}],
+				},
+				idx.search('green', { limit: 3, facets: ['even'] }).facets,
+			);
+		});
+	});
+
+	describe('sorting', function () {
+		const updatedAt = {
+			a: '2024-03-01',
+			b: '2024-01-15',
+			c: '2024-03-01',
+		} as { [ref: string]: string };
+
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+			builder.storedField('wordCount');
+			builder.storedField('updatedAt');
+
+			for (const document of documents) {
+				builder.add(
+					Object.assign(
+						{ updatedAt: updatedAt[document.id] },
+						document,
+					),
+				);
+			}
+
+			builder.add({ id: 'd', title: 'Green study' });
+		});
+
+		const refs = function (results: DocMatch[]) {
+			return results.map((r) => r.ref);
+		};
+
+		it('sorts by a stored number', function () {
+			assertEquals(
+				['b', 'c', 'a', 'd'],
+				refs(idx.search('green', { sort: ['wordCount'] })),
+			);
+			assertEquals(
+				['a', 'c', 'b', 'd'],
+				refs(idx.search('green', { sort: ['wordCount desc'] })),
+			);
+		});
+
+		it('sorts by a stored date and then by score', function () {
+			const byScore = refs(idx.search('green'));
+
+			assertEquals(
+				['a', 'c'],
+				byScore.filter((ref) => ref == 'a' || ref == 'c'),
+			);
+			assertEquals(
+				['a', 'c', 'b', 'd'],
+				refs(
+					idx.search('green', { sort: ['updatedAt desc', 'score'] }),
+				),
+			);
+			assertEquals(
+				['c', 'a', 'b', 'd'],
+				refs(
+					idx.search('green', {
+						sort: ['updatedAt desc', 'score asc'],
+					}),
+				),
+			);
+		});
+
+		it('breaks ties by ref', function () {
+			assertEquals(
+				['a', 'c', 'b', 'd'],
+				refs(idx.search('green', { sort: ['updatedAt desc'] })),
+			);
+		});
+
+		it('sorts with a custom comparator', function () {
+			const results = idx.search('green', {
+				sort: [function (a, b) {
+					return (a.stored?.wordCount || 0) % 3 -
+						(b.stored?.wordCount || 0) % 3;
+				}],
+			});
+
+			assertEquals(['b', 'd', 'a', 'c'], refs(results));
+		});
+
+		it('sorts before paginating', function () {
+			const results = idx.search('green', {
+				sort: ['wordCount'],
+				limit: 2,
+				offset: 1,
+			});
+
+			assertEquals(['c', 'a'], refs(results));
+			assertEquals(4, results.total);
+		});
+
+		it('throws for an unrecognised criterion', function () {
+			assertThrows(function () {
+				idx.search('green', { sort: ['wordCount sideways'] });
+			});
+		});
+	});
+
+	describe('synonyms', function () {
+		const synonymFilter = generateSynonymFilter([
+			'plant, shrub',
+			'professor => teacher',
+			'fern => plant',
+			'nyc, new york',
+		], { label: 'searchSynonymFilter' });
+
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+			builder.searchPipeline.before(
+				<PipelineFunction> stemmer,
+				synonymFilter,
+			);
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+
+			builder.add({ id: 'd', title: 'Shrub', body: 'a shrub' });
+			builder.add({ id: 'e', title: 'Trip', body: 'a week in nyc' });
+			builder.add({
+				id: 'f',
+				title: 'Visit',
+				body: 'new york in spring',
+			});
+		});
+
+		it('match documents containing a synonym', function () {
+			assertEquals(
+				['b', 'c', 'd'],
+				idx.search('plant').map((r) => r.ref).sort(),
+			);
+		});
+
+		it('score synonyms lower than the searched word', function () {
+			const results = idx.search('shrub');
+
+			assertEquals('d', results[0].ref);
+			assert(results[1].score < results[0].score);
+		});
+
+		it('only expand one-way rules from the left', function () {
+			assertEquals(
+				['b', 'c'],
+				idx.search('professor').map((r) => r.ref).sort(),
+			);
+			assertEquals([], idx.search('teacher'));
+		});
+
+		it('match a required word through its synonyms', function () {
+			assertEquals(
+				['b', 'c'],
+				idx.search('+fern').map((r) => r.ref).sort(),
+			);
+		});
+
+		it('match multi-word synonyms of adjacent words', function () {
+			assertEquals(
+				['e', 'f'],
+				idx.search('nyc').map((r) => r.ref).sort(),
+			);
+			assertEquals(
+				['e', 'f'],
+				idx.search('new york').map((r) => r.ref).sort(),
+			);
+			assertEquals('f', idx.search('new york')[0].ref);
+		});
+
+		it('only match multi-word synonyms within the same fields', function () {
+			assertEquals(
+				['f'],
+				idx.search('title:new york').map((r) => r.ref).sort(),
+			);
+		});
+	});
+
+	describe('expansion decay', function () {
+		const idx = lunr(function (builder) {
+			builder.field('body');
+			builder.add({ id: 'a', body: 'testament' });
+			builder.add({ id: 'b', body: 'tester' });
+			builder.add({ id: 'c', body: 'test' });
+			builder.add({ id: 'd', body: 'toast' });
+		});
+
+		it('ranks exact matches of wildcards first', function () {
+			const results = idx.search('test*', { expansionDecay: 0.8 });
+
+			assertEquals(['c', 'b', 'a'], results.map((r) => r.ref));
+			assert(results[0].score > results[1].score);
+			assert(results[1].score > results[2].score);
+		});
+
+		it('ranks exact matches of fuzzy terms first', function () {
+			const results = idx.search('tesst~2', { expansionDecay: 0.5 });
+
+			assertEquals(['c', 'd'], results.map((r) => r.ref));
+			assert(results[0].score > results[1].score);
+		});
+
+		it('weighs every expansion the same without a decay', function () {
+			const results = idx.search('test*');
+
+			assertEquals(results[0].score, results[2].score);
+		});
+
+		it('decays the weights of explained terms', function () {
+			const explanation = idx.explain('test*', 'a', {
+				expansionDecay: 0.5,
+			});
+
+			assertEquals([0.03125], explanation.fields[0].terms[0].boosts);
+		});
+	});
 });
@@ -58,4 +58,109 @@ describe('serialization', function () {
 
 		assertEquals(idxResults, doubleSerializedResults);
 	});
+
+	describe('stored fields', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title', { store: true });
+			builder.field('body');
+			builder.storedField('wordCount');
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		const loadedIdx = LunrIndex.load(JSON.parse(JSON.stringify(idx)));
+
+		it('are restored', function () {
+			assertEquals(idx.search('green'), loadedIdx.search('green'));
+			assertEquals(
+				{ title: 'Plumb waters plant', wordCount: 9 },
+				loadedIdx.search('title:plant')[0].stored,
+			);
+		});
+
+		it('are kept for documents added after loading', function () {
+			const updatedIdx = LunrIndex.load(
+				JSON.parse(JSON.stringify(idx.toJSON({ updatable: true }))),
+			);
+
+			updatedIdx.add({ id: 'e', title: 'Green tea', wordCount: 2 });
+
+			assertEquals(
+				{ title: 'Green tea', wordCount: 2 },
+				updatedIdx.search('tea')[0].stored,
+			);
+		});
+	});
+
+	describe('range fields', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('wordCount', { type: 'number' });
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		const loadedIdx = LunrIndex.load(JSON.parse(JSON.stringify(idx)));
+
+		it('are restored', function () {
+			assertEquals(
+				idx.search('wordCount:[7 TO 16]'),
+				loadedIdx.search('wordCount:[7 TO 16]'),
+			);
+		});
+
+		it('are kept for documents added after loading', function () {
+			const updatedIdx = LunrIndex.load(
+				JSON.parse(JSON.stringify(idx.toJSON({ updatable: true }))),
+			);
+
+			updatedIdx.add({ id: 'e', title: 'Green tea', wordCount: 2 });
+
+			assertEquals(
+				['e'],
+				updatedIdx.search('wordCount:<5').map((r) => r.ref),
+			);
+		});
+	});
+
+	describe('facet fields', function () {
+		const idx = lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('wordCount', { facet: true });
+
+			for (const document of documents) {
+				builder.add(document);
+			}
+		});
+
+		const loadedIdx = LunrIndex.load(JSON.parse(JSON.stringify(idx)));
+
+		it('are restored', function () {
+			assertEquals(
+				idx.search('green', { facets: ['wordCount'] }).facets,
+				loadedIdx.search('green', { facets: ['wordCount'] }).facets,
+			);
+		});
+
+		it('are kept for documents added after loading', function () {
+			const updatedIdx = LunrIndex.load(
+				JSON.parse(JSON.stringify(idx.toJSON({ updatable: true }))),
+			);
+
+			updatedIdx.add({ id: 'e', title: 'Green tea', wordCount: 2 });
+
+			assertEquals(
+				[{ value: '2', count: 1 }],
+				updatedIdx.search('tea', { facets: ['wordCount'] }).facets
+					?.wordCount,
+			);
+		});
+	});
 });
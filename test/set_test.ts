@@ -145,3 +145,102 @@ describe('#intersect', function () {
 		});
 	});
 });
+
+describe('#complement', function () {
+	describe('complete set', function () {
+		it('returns empty set', function () {
+			assertFalse(completeLunrSet.complement().contains('foo'));
+		});
+	});
+
+	describe('empty set', function () {
+		it('returns complete set', function () {
+			assert(emptyLunrSet.complement().contains('foo'));
+		});
+	});
+
+	describe('populated set', function () {
+		const set = new LunrSet(['foo']),
+			result = set.complement();
+
+		it('does not contain element', function () {
+			assertFalse(result.contains('foo'));
+		});
+
+		it('contains other elements', function () {
+			assert(result.contains('bar'));
+		});
+
+		it('complement of complement contains element', function () {
+			const target = result.complement();
+
+			assert(target.contains('foo'));
+			assertFalse(target.contains('bar'));
+		});
+
+		describe('intersect with populated set', function () {
+			it('removes excluded elements', function () {
+				const target = new LunrSet(['foo', 'bar']),
+					intersection = result.intersect(target);
+
+				assertFalse(intersection.contains('foo'));
+				assert(intersection.contains('bar'));
+				assertFalse(intersection.contains('baz'));
+				assertFalse(target.intersect(result).contains('foo'));
+				assert(target.intersect(result).contains('bar'));
+			});
+		});
+
+		describe('union with populated set', function () {
+			it('contains elements of both sets', function () {
+				const target = new LunrSet(['foo']),
+					union = result.union(target);
+
+				assert(union.contains('foo'));
+				assert(union.contains('bar'));
+				assert(target.union(result).contains('foo'));
+			});
+		});
+
+		describe('with other complement', function () {
+			const other = new LunrSet(['bar']).complement();
+
+			it('intersection excludes elements of both', function () {
+				const intersection = result.intersect(other);
+
+				assertFalse(intersection.contains('foo'));
+				assertFalse(intersection.contains('bar'));
+				assert(intersection.contains('baz'));
+			});
+
+			it('union excludes common elements', function () {
+				const union = result.union(other);
+
+				assert(union.contains('foo'));
+				assert(union.contains('bar'));
+			});
+		});
+	});
+});
+
+describe('#difference', function () {
+	const set = new LunrSet(['foo', 'bar']);
+
+	it('removes elements of other set', function () {
+		const result = set.difference(new LunrSet(['foo']));
+
+		assertFalse(result.contains('foo'));
+		assert(result.contains('bar'));
+	});
+
+	it('with complete set returns empty set', function () {
+		assertFalse(set.difference(completeLunrSet).contains('bar'));
+	});
+
+	it('from complete set returns complement', function () {
+		const result = completeLunrSet.difference(set);
+
+		assertFalse(result.contains('foo'));
+		assert(result.contains('baz'));
+	});
+});
@@ -0,0 +1,327 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assert,
+	assertAlmostEquals,
+	assertEquals,
+	assertThrows,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { Builder } from '../src/Builder.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { lunr } from '../src/lunr.ts';
+import {
+	bm25,
+	bm25f,
+	bm25Plus,
+	loadSimilarity,
+	registerSimilarity,
+	Similarity,
+	TermStatistics,
+	tfIdf,
+} from '../src/similarity.ts';
+
+const statistics = function (
+	overrides: Partial<TermStatistics> = {},
+): TermStatistics {
+	const body = {
+		tf: 3,
+		fieldLength: 20,
+		averageFieldLength: 10,
+		fieldBoost: 1,
+	};
+
+	return Object.assign(
+		{
+			term: 'plant',
+			field: 'body',
+			idf: 2,
+			documentFrequency: 3,
+			documentCount: 10,
+			documentBoost: 1,
+			fields: {
+				title: {
+					tf: 1,
+					fieldLength: 4,
+					averageFieldLength: 4,
+					fieldBoost: 1,
+				},
+				body: body,
+			},
+		},
+		body,
+		overrides,
+	);
+};
+
+describe('bm25', function () {
+	it('saturates the term frequency normalised by the field length', function () {
+		const norm = 1 - 0.75 + 0.75 * 20 / 10;
+
+		assertAlmostEquals(
+			2 * 2.2 * 3 / (1.2 * norm + 3),
+			bm25().weight(statistics()),
+			1e-9,
+		);
+	});
+
+	it('applies the field and document boosts', function () {
+		assertAlmostEquals(
+			bm25().weight(statistics()) * 6,
+			bm25().weight(statistics({ fieldBoost: 2, documentBoost: 3 })),
+			1e-9,
+		);
+	});
+
+	it('has the k1 and b parameters', function () {
+		const similarity = bm25({ k1: 2, b: 0 });
+
+		assertEquals('bm25', similarity.label);
+		assertEquals({ k1: 2, b: 0 }, similarity.parameters);
+		assertAlmostEquals(
+			2 * 3 * 3 / (2 + 3),
+			similarity.weight(statistics()),
+		);
+	});
+});
+
+describe('bm25Plus', function () {
+	it('adds a lower bound to the weight of the term', function () {
+		assertAlmostEquals(
+			bm25().weight(statistics()) + 2 * 0.5,
+			bm25Plus({ delta: 0.5 }).weight(statistics()),
+			1e-9,
+		);
+		assertEquals('bm25+', bm25Plus().label);
+		assertEquals({ k1: 1.2, b: 0.75, delta: 1 }, bm25Plus().parameters);
+	});
+});
+
+describe('bm25f', function () {
+	const similarity = bm25f();
+
+	const title = statistics({
+		field: 'title',
+		tf: 1,
+		fieldLength: 4,
+		averageFieldLength: 4,
+	});
+
+	it('shares the combined weight of the term between its fields', function () {
+		const combined = 1 + 3 / (1 - 0.75 + 0.75 * 20 / 10),
+			titleWeight = similarity.weight(title),
+			bodyWeight = similarity.weight(statistics());
+
+		assertAlmostEquals(
+			2 * 2.2 * combined / (1.2 + combined),
+			titleWeight + bodyWeight,
+		);
+		assertAlmostEquals(1 / (combined - 1), titleWeight / bodyWeight);
+	});
+
+	it('weighs terms in several fields less than bm25', function () {
+		assert(
+			similarity.weight(title) + similarity.weight(statistics()) <
+				bm25().weight(title) + bm25().weight(statistics()),
+		);
+	});
+
+	it('is bm25 for terms in a single field', function () {
+		const single = statistics({
+			fields: {
+				body: {
+					tf: 3,
+					fieldLength: 20,
+					averageFieldLength: 10,
+					fieldBoost: 1,
+				},
+			},
+		});
+
+		assertAlmostEquals(bm25().weight(single), similarity.weight(single));
+	});
+});
+
+describe('tfIdf', function () {
+	it('weighs the term by its frequency and rarity', function () {
+		const idf = 1 + Math.log(10 / 4);
+
+		assertAlmostEquals(
+			Math.sqrt(3) * idf * idf / Math.sqrt(20),
+			tfIdf().weight(statistics()),
+			1e-9,
+		);
+		assert(
+			tfIdf().weight(statistics({ documentFrequency: 1 })) >
+				tfIdf().weight(statistics()),
+		);
+	});
+});
+
+describe('loadSimilarity', function () {
+	it('creates a built in similarity with its parameters', function () {
+		const similarity = loadSimilarity({
+			label: 'bm25+',
+			parameters: { k1: 1.5, b: 0.5, delta: 0.5 },
+		});
+
+		assertEquals({ k1: 1.5, b: 0.5, delta: 0.5 }, similarity.parameters);
+	});
+
+	it('throws for unregistered similarities', function () {
+		assertThrows(function () {
+			loadSimilarity({ label: 'unknown', parameters: {} });
+		});
+	});
+});
+
+describe('Builder#similarity', function () {
+	const documents = [
+		{ id: 'a', title: 'Plant', body: 'a green plant in the garden' },
+		{ id: 'b', title: 'Garden', body: 'plant plant plant' },
+		{ id: 'c', title: 'Stars', body: 'planets and stars in the sky' },
+	];
+
+	const build = function (similarity?: Similarity) {
+		return lunr(function (builder) {
+			builder.field('title');
+			builder.field('body');
+
+			if (similarity) {
+				builder.similarity(similarity);
+			}
+
+			for (const doc of documents) {
+				builder.add(doc);
+			}
+		});
+	};
+
+	const scores = function (idx: LunrIndex, query: string) {
+		return idx.search(query).map(function (result) {
+			return [result.ref, result.score];
+		});
+	};
+
+	it('weighs terms with BM25 by default', function () {
+		assertEquals(scores(build(bm25()), 'plant'), scores(build(), 'plant'));
+	});
+
+	it('scores documents with the similarity', function () {
+		const refs = function (idx: LunrIndex) {
+			return idx.search('plant').map(function (result) {
+				return result.ref;
+			});
+		};
+
+		assertEquals(['a', 'b'], refs(build()));
+		assertEquals(['b', 'a'], refs(build(bm25f())));
+	});
+
+	it('explains the weights of the similarity', function () {
+		const explanation = build(bm25Plus({ delta: 0.5 })).explain(
+				'plant',
+				'b',
+			),
+			body = explanation.fields.filter(function (field) {
+				return field.field == 'body';
+			})[0],
+			term = body.terms[0];
+
+		assertEquals('bm25+', term.similarity);
+		assertEquals({ k1: 1.2, b: 0.75, delta: 0.5 }, term.parameters);
+		assertEquals(3, term.tf);
+		assertEquals(1.2, term.k1);
+	});
+
+	it('is serialised with the index', function () {
+		const serialized = JSON.parse(
+			JSON.stringify(build(bm25f({ k1: 1.5 }))),
+		);
+
+		assertEquals(
+			{ label: 'bm25f', parameters: { k1: 1.5, b: 0.75 } },
+			serialized.similarity,
+		);
+		assertEquals(
+			scores(build(bm25f({ k1: 1.5 })), 'plant'),
+			scores(LunrIndex.load(serialized), 'plant'),
+		);
+	});
+
+	it('is serialised with the document statistics of updatable indexes', function () {
+		const serialized = JSON.parse(
+				JSON.stringify(
+					build(bm25f({ k1: 1.5 })).toJSON({ updatable: true }),
+				),
+			),
+			idx = LunrIndex.load(serialized);
+
+		assertEquals(
+			{ label: 'bm25f', parameters: { k1: 1.5, b: 0.75 } },
+			serialized.builder.similarity,
+		);
+
+		idx.add({ id: 'd', title: 'Plants', body: 'plant' });
+		documents.push({ id: 'd', title: 'Plants', body: 'plant' });
+
+		try {
+			assertEquals(
+				scores(build(bm25f({ k1: 1.5 })), 'plant'),
+				scores(idx, 'plant'),
+			);
+		} finally {
+			documents.pop();
+		}
+	});
+
+	it('is explained once loaded read only', function () {
+		const idx = LunrIndex.load(
+				JSON.parse(JSON.stringify(build(bm25Plus({ delta: 0.5 })))),
+			),
+			term = idx.explain('plant', 'b').fields[0].terms[0];
+
+		assertEquals(undefined, idx.toJSON().builder);
+		assertEquals('bm25+', term.similarity);
+		assertEquals({ k1: 1.2, b: 0.75, delta: 0.5 }, term.parameters);
+		assertEquals(1.2, term.k1);
+	});
+
+	it('supports custom similarities', function () {
+		const termFrequency: Similarity = {
+			label: 'termFrequency',
+			parameters: {},
+			weight: function (statistics: TermStatistics) {
+				return statistics.tf;
+			},
+		};
+
+		registerSimilarity('termFrequency', function () {
+			return termFrequency;
+		});
+
+		const builder = new Builder();
+
+		builder.similarity(termFrequency);
+		builder.field('body');
+		builder.add({ id: 'a', body: 'plant' });
+		builder.add({ id: 'b', body: 'plant plant' });
+
+		const built = builder.build(),
+			loaded = LunrIndex.load(JSON.parse(JSON.stringify(built))),
+			idx = LunrIndex.load(
+				JSON.parse(JSON.stringify(built.toJSON({ updatable: true }))),
+			);
+
+		assertEquals(
+			'termFrequency',
+			loaded.explain('plant', 'a').fields[0].terms[0].similarity,
+		);
+
+		idx.add({ id: 'c', body: 'plant plant plant' });
+		assertEquals(
+			[3, 2, 1],
+			idx.search('plant').map(function (result) {
+				return result.score;
+			}),
+		);
+	});
+});
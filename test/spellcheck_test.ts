@@ -0,0 +1,77 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assertEquals,
+	assertThrows,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { lunr } from '../src/lunr.ts';
+
+describe('LunrIndex#spellcheck', function () {
+	const documents = [
+		{ id: 'a', title: 'Green plants', body: 'a garden of plants' },
+		{ id: 'b', title: 'Planets', body: 'the garden of the planets' },
+		{ id: 'c', title: 'Plates', body: 'a plant on a plate' },
+		{ id: 'd', title: 'Gardening', body: 'plant a green garden' },
+	];
+
+	const idx = lunr(function (builder) {
+		builder.field('title');
+		builder.field('body');
+
+		for (const doc of documents) {
+			builder.add(doc);
+		}
+	});
+
+	it('corrects terms matching no document', function () {
+		assertEquals('garden', idx.spellcheck('gardn'));
+		assertEquals('green garden', idx.spellcheck('gren garden'));
+	});
+
+	it('keeps the query string when no term is misspelled', function () {
+		assertEquals('Green  gardens', idx.spellcheck('Green  gardens'));
+	});
+
+	it('prefers the closest and then the most frequent term', function () {
+		assertEquals('plant', idx.spellcheck('plont'));
+		assertEquals('planet', idx.spellcheck('plannet'));
+		assertEquals('plant', idx.spellcheck('plaent'));
+	});
+
+	it('only corrects short terms within one edit', function () {
+		assertEquals('grxn', idx.spellcheck('grxn'));
+		assertEquals('planet', idx.spellcheck('plxxet'));
+	});
+
+	it('keeps fields, boosts and presence', function () {
+		assertEquals(
+			'+title:planet^10 -body:plate~1 title:gree*',
+			idx.spellcheck('+title:plannet^10 -body:plqxe~1 title:gree*'),
+		);
+	});
+
+	it('corrects terms with the terms of their fields', function () {
+		assertEquals('title:green', idx.spellcheck('title:gren'));
+		assertEquals('title:planet', idx.spellcheck('title:plaent'));
+		assertEquals('body:plant', idx.spellcheck('body:plaent'));
+	});
+
+	it('corrects terms within groups', function () {
+		assertEquals(
+			'title:(plate OR green) AND garden',
+			idx.spellcheck('title:(plote OR grean) AND gaden'),
+		);
+	});
+
+	it('keeps phrases and wildcards', function () {
+		assertEquals(
+			'"gren garden" plxn*',
+			idx.spellcheck('"gren garden" plxn*'),
+		);
+	});
+
+	it('throws for query strings that cannot be parsed', function () {
+		assertThrows(function () {
+			idx.spellcheck('author:gardn');
+		});
+	});
+});
@@ -0,0 +1,109 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assertEquals,
+	assertThrows,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { lunr } from '../src/lunr.ts';
+
+describe('LunrIndex#suggest', function () {
+	const documents = [
+		{ id: 'a', title: 'Plant', body: 'a plant and a planet' },
+		{ id: 'b', title: 'Planet', body: 'the plan of a planet' },
+		{ id: 'c', title: 'Plates', body: 'plates on a plane' },
+		{ id: 'd', title: 'Green', body: 'green plane' },
+	];
+
+	const idx = lunr(function (builder) {
+		builder.field('title', { edgeNgrams: {} });
+		builder.field('body');
+
+		for (const doc of documents) {
+			builder.add(doc);
+		}
+	});
+
+	const terms = function (suggestions: { term: string }[]) {
+		return suggestions.map(function (suggestion) {
+			return suggestion.term;
+		});
+	};
+
+	it('suggests terms starting with the prefix by document frequency', function () {
+		assertEquals(
+			[
+				{ term: 'plane', documentCount: 2 },
+				{ term: 'planet', documentCount: 2 },
+				{ term: 'plan', documentCount: 1 },
+				{ term: 'plant', documentCount: 1 },
+				{ term: 'plate', documentCount: 1 },
+			],
+			idx.suggest('pla'),
+		);
+	});
+
+	it('suggests the prefix itself when it is a term', function () {
+		assertEquals(['plane', 'planet'], terms(idx.suggest('plane')));
+	});
+
+	it('lower cases the prefix', function () {
+		assertEquals(['green'], terms(idx.suggest('GR')));
+	});
+
+	it('returns no suggestions for unknown prefixes', function () {
+		assertEquals([], idx.suggest('xyz'));
+	});
+
+	it('limits the number of suggestions', function () {
+		assertEquals(
+			['plane', 'planet'],
+			terms(idx.suggest('pla', { limit: 2 })),
+		);
+		assertEquals([], idx.suggest('pla', { limit: 0 }));
+	});
+
+	it('suggests terms of a field', function () {
+		assertEquals(
+			[
+				{ term: 'plane', documentCount: 2 },
+				{ term: 'planet', documentCount: 2 },
+				{ term: 'plan', documentCount: 1 },
+				{ term: 'plant', documentCount: 1 },
+				{ term: 'plate', documentCount: 1 },
+			],
+			idx.suggest('pla', { field: 'body' }),
+		);
+		assertEquals(
+			['planet', 'plant', 'plate'],
+			terms(idx.suggest('pla', { field: 'title' })),
+		);
+	});
+
+	it('throws for an unrecognised field', function () {
+		assertThrows(function () {
+			idx.suggest('pla', { field: 'author' });
+		});
+	});
+
+	it('does not suggest edge n-grams', function () {
+		assertEquals(['green'], terms(idx.suggest('g', { field: 'title' })));
+	});
+
+	it('keeps working once serialized', function () {
+		const loaded = LunrIndex.load(JSON.parse(JSON.stringify(idx)));
+
+		assertEquals(idx.suggest('pla'), loaded.suggest('pla'));
+	});
+
+	it('keeps working once serialized updatable and updated', function () {
+		const loaded = LunrIndex.load(
+			JSON.parse(JSON.stringify(idx.toJSON({ updatable: true }))),
+		);
+
+		loaded.add({ id: 'e', title: 'Planets', body: '' });
+		assertEquals(
+			{ term: 'planet', documentCount: 3 },
+			loaded.suggest('pla')[0],
+		);
+	});
+});
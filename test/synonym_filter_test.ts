@@ -0,0 +1,96 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assertEquals,
+	assertThrows,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { generateSynonymFilter } from '../src/synonymFilter.ts';
+import { Pipeline } from '../src/Pipeline.ts';
+import { Token } from '../src/Token.ts';
+
+describe('generateSynonymFilter', function () {
+	const synonymFilter = generateSynonymFilter([
+		'js, JavaScript',
+		'ts => typescript',
+		'nyc, new york',
+	], { label: 'testSynonymFilter' });
+
+	const run = function (words: string[]) {
+		const pipeline = new Pipeline();
+		pipeline.add(synonymFilter);
+
+		return pipeline.run(words.map(function (word) {
+			return new Token(word, { index: 0 });
+		}));
+	};
+
+	const strings = function (tokens: Token[]) {
+		return tokens.map(function (token) {
+			return token.toString();
+		});
+	};
+
+	it('expands equivalent words both ways', function () {
+		assertEquals(['js', 'javascript'], strings(run(['js'])));
+		assertEquals(['javascript', 'js'], strings(run(['javascript'])));
+	});
+
+	it('expands one-way rules in one direction', function () {
+		assertEquals(['ts', 'typescript'], strings(run(['ts'])));
+		assertEquals(['typescript'], strings(run(['typescript'])));
+	});
+
+	it('expands into every word of a multi-word synonym', function () {
+		assertEquals(['nyc', 'new', 'york'], strings(run(['nyc'])));
+	});
+
+	it('recognises multi-word synonyms in consecutive tokens', function () {
+		assertEquals(
+			['new', 'nyc', 'york', 'ny'],
+			strings(run(['new', 'york', 'ny'])),
+		);
+	});
+
+	it('ignores words without synonyms', function () {
+		assertEquals(['green'], strings(run(['green'])));
+	});
+
+	it('weights synonyms lower than the expanded token', function () {
+		const tokens = run(['js']);
+
+		assertEquals(undefined, tokens[0].metadata.boost);
+		assertEquals(0.5, tokens[1].metadata.boost);
+		assertEquals(0, tokens[1].metadata.index);
+	});
+
+	it('uses the passed weight', function () {
+		const filter = generateSynonymFilter(['js, javascript'], {
+				weight: 0.2,
+				label: 'weightedSynonymFilter',
+			}),
+			pipeline = new Pipeline();
+
+		pipeline.add(filter);
+
+		assertEquals(
+			0.2,
+			pipeline.run([new Token('js')])[1].metadata.boost,
+		);
+	});
+
+	it('throws for a malformed rule', function () {
+		assertThrows(function () {
+			generateSynonymFilter(['a => b => c'], { label: 'malformed' });
+		});
+		assertThrows(function () {
+			generateSynonymFilter(['a =>'], { label: 'malformed' });
+		});
+	});
+
+	it('is a registered pipeline function', function () {
+		assertEquals('testSynonymFilter', synonymFilter.label);
+		assertEquals(
+			synonymFilter,
+			Pipeline.registeredFunctions['testSynonymFilter'],
+		);
+	});
+});
@@ -335,4 +335,127 @@ describe('TokenSet', function () {
 			assertSameMembers(x.intersect(y).toArray(), ['bca']);
 		});
 	});
+
+	describe('.fromFuzzyString with options', function () {
+		// the optimal string alignment distance, with unit costs
+		const distance = function (a: string, b: string) {
+			const d: number[][] = [];
+
+			for (let i = 0; i <= a.length; i++) {
+				d[i] = [i];
+			}
+
+			for (let j = 0; j <= b.length; j++) {
+				d[0][j] = j;
+			}
+
+			for (let i = 1; i <= a.length; i++) {
+				for (let j = 1; j <= b.length; j++) {
+					d[i][j] = Math.min(
+						d[i - 1][j] + 1,
+						d[i][j - 1] + 1,
+						d[i - 1][j - 1] + (a[i - 1] == b[j - 1] ? 0 : 1),
+					);
+
+					if (
+						i > 1 && j > 1 && a[i - 1] == b[j - 2] &&
+						a[i - 2] == b[j - 1]
+					) {
+						d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+					}
+				}
+			}
+
+			return d[a.length][b.length];
+		};
+
+		// every string of up to five characters of a, b, c and d
+		const words = [''];
+
+		for (let i = 0; i < words.length && words[i].length < 5; i++) {
+			for (const char of ['a', 'b', 'c', 'd']) {
+				words.push(words[i] + char);
+			}
+		}
+
+		const vocabulary = TokenSet.fromArray(words.slice(1).sort());
+
+		it('matches exactly the strings within the edit distance', function () {
+			for (const str of ['abc', 'abba', 'cadb']) {
+				for (const editDistance of [1, 2]) {
+					const y = TokenSet.fromFuzzyString(str, editDistance, {});
+
+					assertSameMembers(
+						vocabulary.intersect(y).toArray(),
+						words.slice(1).filter(function (word) {
+							return distance(str, word) <= editDistance;
+						}),
+					);
+				}
+			}
+		});
+
+		it('transposes adjacent characters anywhere', function () {
+			const x = TokenSet.fromArray(['abdc', 'acbd', 'bacd', 'badc']),
+				y = TokenSet.fromFuzzyString('abcd', 1, {});
+
+			assertSameMembers(x.intersect(y).toArray(), [
+				'abdc',
+				'acbd',
+				'bacd',
+			]);
+		});
+
+		it('does not edit the prefix', function () {
+			const x = TokenSet.fromArray([
+					'az',
+					'ba',
+					'bar',
+					'baz',
+					'bazz',
+					'caz',
+				]),
+				y = TokenSet.fromFuzzyString('baz', 1, { prefixLength: 1 });
+
+			assertSameMembers(
+				x.intersect(y).toArray(),
+				['ba', 'bar', 'baz', 'bazz'],
+			);
+		});
+
+		it('weighs every kind of edit by its cost', function () {
+			const x = TokenSet.fromArray(['ba', 'bar', 'bars', 'bat', 'bra']),
+				y = TokenSet.fromFuzzyString('bar', 1, {
+					costs: { deletion: 2 },
+				}),
+				z = TokenSet.fromFuzzyString('bar', 1, {
+					costs: { insertion: 2, transposition: 1.5 },
+				});
+
+			assertSameMembers(x.intersect(y).toArray(), [
+				'bar',
+				'bars',
+				'bat',
+				'bra',
+			]);
+			assertSameMembers(x.intersect(z).toArray(), ['ba', 'bar', 'bat']);
+		});
+
+		it('builds a deterministic automaton', function () {
+			const stack = [TokenSet.fromFuzzyString('abcd', 2, {})];
+
+			while (stack.length) {
+				const node = stack.pop();
+
+				if (!node) {
+					break;
+				}
+
+				for (const edge in node.edges) {
+					assert(edge == '*' || 'abcd'.indexOf(edge) != -1);
+					stack.push(node.edges[edge]);
+				}
+			}
+		});
+	});
 });
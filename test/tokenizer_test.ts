@@ -94,6 +94,27 @@ describe('tokenizer', function () {
 		assertSameMembers(tokenizer('foo - bar').map(toString), ['foo', 'bar']);
 	});
 
+	it('splits strings with dashes of any script', function () {
+		assertSameMembers(
+			tokenizer('foo\u2013bar\u2014baz\u2E3Aqux').map(toString),
+			['foo', 'bar', 'baz', 'qux'],
+		);
+	});
+
+	it('splits strings with unicode white space', function () {
+		assertSameMembers(
+			tokenizer('foo\u00A0bar\u3000baz').map(toString),
+			['foo', 'bar', 'baz'],
+		);
+	});
+
+	it('keeps letters of any script', function () {
+		assertSameMembers(
+			tokenizer('Ελλάδα Москва café').map(toString),
+			['ελλάδα', 'москва', 'café'],
+		);
+	});
+
 	it('tracking the token index', function () {
 		const tokens = tokenizer('foo bar');
 		assertEquals(tokens[0].metadata.index, 0);
@@ -1,7 +1,12 @@
 import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
 import { assertEquals } from 'https://deno.land/std@0.160.0/testing/asserts.ts';
 import { Pipeline } from '../src/Pipeline.ts';
-import { trimmer } from '../src/trimmer.ts';
+import {
+	generateTrimmer,
+	latinWordCharacters,
+	trimmer,
+	unicodeTrimmer,
+} from '../src/trimmer.ts';
 import { Token } from '../src/Token.ts';
 
 describe('trimmer', function () {
@@ -36,4 +41,54 @@ describe('trimmer', function () {
 		assertEquals((<any> trimmer).label, 'trimmer');
 		assertEquals(Pipeline.registeredFunctions['trimmer'], <any> trimmer);
 	});
+
+	describe('generateTrimmer', function () {
+		const latinTrimmer = generateTrimmer(latinWordCharacters);
+
+		it('keeps the passed word characters', function () {
+			const token = new Token('¿Qué?');
+			assertEquals('Qué', latinTrimmer(token).toString());
+		});
+
+		it('trims other characters', function () {
+			const token = new Token('„Straße“');
+			assertEquals('Straße', latinTrimmer(token).toString());
+		});
+	});
+
+	describe('unicodeTrimmer', function () {
+		const trimmerTest = function (
+			description: string,
+			str: string,
+			expected: string,
+		) {
+			it(description, function () {
+				const token = new Token(str),
+					trimmed = unicodeTrimmer(token).toString();
+
+				assertEquals(expected, trimmed);
+			});
+		};
+
+		trimmerTest('full stop', 'hello.', 'hello');
+		trimmerTest('inner apostrophe', 'it\'s', 'it\'s');
+		trimmerTest('brackets', '[tag]', 'tag');
+		trimmerTest('underscore', '_id', '_id');
+		trimmerTest('accented letters', '«café»', 'café');
+		trimmerTest('greek', '(Ελλάδα)', 'Ελλάδα');
+		trimmerTest('cyrillic', 'Москва!', 'Москва');
+		trimmerTest('arabic digits', '«٣٤»', '٣٤');
+		trimmerTest('combining marks', 'cafe\u0301.', 'cafe\u0301');
+		trimmerTest('punctuation with combining marks', 'a.\u0301', 'a');
+		trimmerTest('combining marks without a base', '\u0301abc', 'abc');
+		trimmerTest('emoji', '👍🏽ok', 'ok');
+
+		it('is a registered pipeline function', function () {
+			assertEquals((<any> unicodeTrimmer).label, 'trimmer-unicode');
+			assertEquals(
+				Pipeline.registeredFunctions['trimmer-unicode'],
+				<any> unicodeTrimmer,
+			);
+		});
+	});
 });
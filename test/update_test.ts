@@ -0,0 +1,143 @@
+import { describe, it } from 'https://deno.land/std@0.160.0/testing/bdd.ts';
+import {
+	assertEquals,
+	assertFalse,
+	assertThrows,
+} from 'https://deno.land/std@0.160.0/testing/asserts.ts';
+import { lunr } from '../src/lunr.ts';
+import { LunrDocument } from '../src/Builder.ts';
+import { LunrIndex } from '../src/LunrIndex.ts';
+import { Builder } from '../src/Builder.ts';
+
+describe('updating an index', function () {
+	const documents = [{
+		id: 'a',
+		title: 'Mr. Green kills Colonel Mustard',
+		body:
+			'Mr. Green killed Colonel Mustard in the study with the candlestick. Mr. Green is not a very nice fellow.',
+	}, {
+		id: 'b',
+		title: 'Plumb waters plant',
+		body: 'Professor Plumb has a green plant in his study',
+	}, {
+		id: 'c',
+		title: 'Scarlett helps Professor',
+		body:
+			'Miss Scarlett watered Professor Plumbs green plant while he was away from his office last week.',
+	}];
+
+	const build = function (docs: LunrDocument[]) {
+		return lunr(function (builder: Builder) {
+			builder.ref('id');
+			builder.field('title');
+			builder.field('body');
+
+			for (const doc of docs) {
+				builder.add(doc);
+			}
+		});
+	};
+
+	describe('#add', function () {
+		const idx = build(documents.slice(0, 2));
+		idx.add(documents[2]);
+
+		it('scores as if the document was indexed by the builder', function () {
+			assertEquals(idx.search('green'), build(documents).search('green'));
+		});
+
+		it('finds terms only in the new document', function () {
+			assertEquals(idx.search('scarlett').map((r) => r.ref), ['c']);
+		});
+
+		it('rejects a document already in the index', function () {
+			assertThrows(function () {
+				idx.add(documents[0]);
+			});
+		});
+	});
+
+	describe('#remove', function () {
+		const idx = build(documents);
+		idx.remove('c');
+
+		it('scores as if the document was never indexed', function () {
+			assertEquals(
+				idx.search('green plant'),
+				build(documents.slice(0, 2)).search('green plant'),
+			);
+		});
+
+		it('drops terms no longer used by any document', function () {
+			assertEquals(idx.search('scarlett'), []);
+			const terms = idx.toJSON().invertedIndex.map((t) => t[0]);
+			assertFalse(terms.includes('scarlett'));
+		});
+
+		it('ignores unknown documents', function () {
+			idx.remove('z');
+			assertEquals(idx.search('green').length, 2);
+		});
+	});
+
+	describe('#update', function () {
+		const idx = build(documents);
+		idx.update({ id: 'b', title: 'Plumb waters cactus', body: 'cactus' });
+
+		it('replaces the document', function () {
+			assertEquals(idx.search('plant').map((r) => r.ref), ['c']);
+			assertEquals(idx.search('cactus').map((r) => r.ref), ['b']);
+		});
+
+		it('adds documents not yet in the index', function () {
+			idx.update({ id: 'd', title: 'Peacock', body: 'rope' });
+			assertEquals(idx.search('peacock').map((r) => r.ref), ['d']);
+		});
+	});
+
+	describe('serialized index', function () {
+		it('can be updated after loading', function () {
+			const loaded = LunrIndex.load(
+				JSON.parse(
+					JSON.stringify(
+						build(documents.slice(0, 2)).toJSON({
+							updatable: true,
+						}),
+					),
+				),
+			);
+			loaded.add(documents[2]);
+
+			assertEquals(
+				loaded.search('green'),
+				build(documents).search('green'),
+			);
+		});
+
+		it('is read only by default', function () {
+			const serialized = JSON.parse(JSON.stringify(build(documents))),
+				loaded = LunrIndex.load(serialized);
+
+			assertEquals(undefined, serialized.builder);
+			assertEquals(
+				build(documents).search('green'),
+				loaded.search('green'),
+			);
+			assertThrows(function () {
+				loaded.remove('a');
+			});
+		});
+
+		it('keeps document statistics only when updatable', function () {
+			const idx = build(documents);
+
+			assertEquals(undefined, idx.toJSON().builder);
+			assertEquals(
+				['a', 'b', 'c'],
+				Object.keys(
+					idx.toJSON({ updatable: true }).builder?.documents || {},
+				),
+			);
+		});
+	});
+});